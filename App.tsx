@@ -2,60 +2,229 @@
  * Main application component with initialization flow and dashboard layout.
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
 import FileUpload from './components/FileUpload';
+import WorkerPoolStatus from './components/WorkerPoolStatus';
+import BatchAnalysis from './components/BatchAnalysis';
+import HistoryView from './components/HistoryView';
+import SettingsView from './components/SettingsView';
+import PrivacyView from './components/PrivacyView';
+import ValidationView from './components/ValidationView';
 import ECGDisplay from './components/ECGDisplay';
 import DiagnosticPanel from './components/DiagnosticPanel';
-import { AppView, ECGPoint, PatientMetrics } from './types';
-import { useECGSystem, useECGProcessor } from './hooks/useECGSystem';
-import { Loader2, AlertCircle, CheckCircle, Wifi } from 'lucide-react';
+import AnnotationControls from './components/AnnotationControls';
+import { AppView, ECGSignal, FilterConfig, FilterPresetName, PatientMetrics, ProcessingConfig, ProcessingEngine, UserSettings } from './types';
+import { useECGSystem, useECGProcessor, usePeakEditor } from './hooks/useECGSystem';
+import { describeCalibration, type CSVImportMapping } from './services/dataParser';
+import { DEFAULT_FILTER_PRESET, FILTER_PRESET_LABELS } from './services/filterPresets';
+import { analyzeEditedPeaks, type ECGServiceResult } from './services/ecgService';
+import { annotationsToPeaks, readAnnotationFile } from './services/annotations';
+import { matchBeats } from './services/beatMatching';
+import { loadAnalysis, saveAnalysis, updateAnalysisPeaks } from './services/historyStore';
+import { DEFAULT_SETTINGS, loadSettings, resetSettings, saveSettings, settingsToConfig } from './services/settingsStore';
+import { Loader2, AlertCircle, CheckCircle, Wifi, HardDrive, History } from 'lucide-react';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [ecgData, setEcgData] = useState<ECGPoint[]>([]);
+  const [signal, setSignal] = useState<ECGSignal | null>(null);
   const [metrics, setMetrics] = useState<PatientMetrics | null>(null);
   const [fileInfo, setFileInfo] = useState<any>(null);
+  const [currentFiles, setCurrentFiles] = useState<{
+    file: File;
+    companions: File[];
+    csvMapping?: CSVImportMapping;
+  } | null>(null);
+  // Set when the dashboard shows an analysis reopened from history rather than a loaded file
+  const [reopenedAt, setReopenedAt] = useState<number | null>(null);
+  // Engine output for the loaded file, restored when every peak edit is undone
+  const [detected, setDetected] = useState<Pick<ECGServiceResult, 'metrics' | 'rawMetrics'> | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Bumped on every file load, history reopen or purge so late async results can tell they are stale
+  const loadToken = useRef(0);
+  // Reference beat annotations the R-peaks are scored against
+  const [reference, setReference] = useState<{ peaks: Int32Array; name: string } | null>(null);
+  const [filterSettings, setFilterSettings] = useState<{
+    filterPreset: FilterPresetName;
+    filter: Partial<FilterConfig>;
+  }>({ filterPreset: DEFAULT_FILTER_PRESET, filter: {} });
+  const [settings, setSettings] = useState<UserSettings>(loadSettings);
+  const engine = settings.engine;
+
+  const updateSettings = (next: UserSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Options for new analyses: toolbar filter choices plus the persisted settings
+  const baseConfig: ProcessingConfig = { ...filterSettings, ...settingsToConfig(settings) };
 
   const { 
     isInitialized, 
     isInitializing, 
     initializationProgress, 
     initializationStage,
+    runtimeSource,
+    poolStatus,
     error: initError,
     retry: retryInit
-  } = useECGSystem();
+  } = useECGSystem(engine, settings.workerPoolSize);
+
+  const peakEditor = usePeakEditor(async (peaks, edited, abortSignal) => {
+    if (!signal || !detected) return;
+    setSignal({ ...signal, peaks });
+    const nextMetrics = edited
+      ? (await analyzeEditedPeaks(signal, peaks, detected.rawMetrics.filter_metrics, baseConfig, abortSignal)).metrics
+      : detected.metrics;
+    setMetrics(nextMetrics);
+    if (historyId) {
+      updateAnalysisPeaks(historyId, nextMetrics, peaks).catch(error => console.warn('[App] Could not update stored analysis:', error));
+    }
+  });
+
+  const referenceMatch = useMemo(
+    () => (signal && reference
+      ? matchBeats(signal.peaks, reference.peaks, Math.trunc((settings.referenceToleranceMs / 1000) * signal.sampleRate))
+      : undefined),
+    [signal, reference, settings.referenceToleranceMs]
+  );
 
   const {
     process,
+    cancel: cancelProcessing,
     isProcessing,
     progress,
     progressMessage,
     error: processError
   } = useECGProcessor();
 
-  const handleFileSelected = async (file: File) => {
+  const handleFileSelected = async (
+    file: File,
+    companionFiles: File[] = [],
+    csvMapping?: CSVImportMapping,
+    config: ProcessingConfig = baseConfig
+  ) => {
     console.log('[App] Processing file:', file.name);
+    const token = ++loadToken.current;
+    // A re-run of the loaded file (lead, filter or engine change) replaces its history entry
+    const isRerun = file === currentFiles?.file;
+    const replaceId = isRerun ? historyId ?? undefined : undefined;
+    if (!isRerun) {
+      setReference(null);
+      setHistoryId(null);
+    }
+    setCurrentFiles({ file, companions: companionFiles, csvMapping });
+    setReopenedAt(null);
 
     const result = await process(file, (result) => {
-      setEcgData(result.data);
+      setSignal(result.signal);
       setMetrics(result.metrics);
       setFileInfo(result.fileInfo);
+      setDetected({ metrics: result.metrics, rawMetrics: result.rawMetrics });
+      peakEditor.reset(result.signal.peaks);
+      // A WFDB annotation file selected with the record becomes the reference
+      const annotationFile = companionFiles.find(f => f.name.toLowerCase().endsWith('.atr'));
+      if (annotationFile) {
+        readAnnotationFile(annotationFile, result.signal.sampleRate)
+          .then(annotations => {
+            if (loadToken.current !== token) return;
+            setReference({ peaks: annotationsToPeaks(annotations, result.signal.length), name: annotationFile.name });
+          })
+          .catch(error => console.warn('[App] Could not read reference annotations:', error));
+      }
+      saveAnalysis(result, replaceId)
+        .then(entry => {
+          if (loadToken.current === token) setHistoryId(entry.id);
+        })
+        .catch(error => console.warn('[App] Could not save analysis to history:', error));
 
       console.log('[App] Processing complete:', {
-        samples: result.data.length,
-        peaks: result.data.filter(p => p.isPeak).length,
+        samples: result.signal.length,
+        peaks: result.signal.peaks.length,
         bpm: result.metrics.bpm,
         rhythm: result.metrics.rhythmStatus
       });
-    });
+    }, companionFiles, config, csvMapping);
 
     if (result && result.fileInfo.warnings.length > 0) {
       console.warn('[App] Data warnings:', result.fileInfo.warnings);
     }
   };
 
+  const handleOpenAnalysis = async (id: string) => {
+    try {
+      const { entry, signal } = await loadAnalysis(id);
+      loadToken.current++;
+      cancelProcessing();
+      setCurrentFiles(null);
+      setSignal(signal);
+      setMetrics(entry.metrics);
+      setFileInfo(entry.fileInfo);
+      setReopenedAt(entry.timestamp);
+      // Stored waveforms are downsampled, so over-reads are made on the original file
+      setDetected(null);
+      setHistoryId(null);
+      setReference(null);
+      peakEditor.reset(null);
+      setCurrentView(AppView.DASHBOARD);
+    } catch (error) {
+      alert(`Could not open analysis: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Stored data is gone; drop the in-memory copies too (settings are not re-saved)
+  const handlePurged = () => {
+    loadToken.current++;
+    cancelProcessing();
+    setSettings(DEFAULT_SETTINGS);
+    setSignal(null);
+    setMetrics(null);
+    setFileInfo(null);
+    setCurrentFiles(null);
+    setReopenedAt(null);
+    setDetected(null);
+    setHistoryId(null);
+    setReference(null);
+    peakEditor.reset(null);
+  };
+
+  const handleAnalysisLeadChange = async (value: string) => {
+    if (!currentFiles) return;
+    const config: ProcessingConfig = value === '__fused__' ? { leadFusion: true } : { lead: value };
+    await handleFileSelected(currentFiles.file, currentFiles.companions, currentFiles.csvMapping, { ...baseConfig, ...config });
+  };
+
+  const handleFilterChange = async (changes: Partial<typeof filterSettings>) => {
+    const next = { ...filterSettings, ...changes };
+    setFilterSettings(next);
+    if (!currentFiles || !fileInfo) return;
+    const leadConfig: ProcessingConfig = fileInfo.leadFusion ? { leadFusion: true } : { lead: fileInfo.analysisLead };
+    await handleFileSelected(currentFiles.file, currentFiles.companions, currentFiles.csvMapping, { ...next, ...settingsToConfig(settings), ...leadConfig });
+  };
+
+  const handleEngineChange = async (next: ProcessingEngine) => {
+    const nextSettings = { ...settings, engine: next };
+    updateSettings(nextSettings);
+    if (!currentFiles || !fileInfo) return;
+    const leadConfig: ProcessingConfig = fileInfo.leadFusion ? { leadFusion: true } : { lead: fileInfo.analysisLead };
+    await handleFileSelected(currentFiles.file, currentFiles.companions, currentFiles.csvMapping, { ...filterSettings, ...settingsToConfig(nextSettings), ...leadConfig });
+  };
+
+  // Mains notch override on top of the preset ('preset' keeps the preset's own setting)
+  const notchFrequency = filterSettings.filter.notchFrequency;
+  const notchValue = notchFrequency === undefined ? 'preset' : notchFrequency === null ? 'off' : String(notchFrequency);
+
+  const handleNotchChange = async (value: string) => {
+    const filter = { ...filterSettings.filter };
+    if (value === 'preset') {
+      delete filter.notchFrequency;
+    } else {
+      filter.notchFrequency = value === 'off' ? null : (Number(value) as 50 | 60);
+    }
+    await handleFilterChange({ filter });
+  };
+
   if (isInitializing) {
     return (
       <div className="min-h-screen bg-[#F8FAFC] flex items-center justify-center">
@@ -72,7 +241,7 @@ const App: React.FC = () => {
 
             <div className="w-full">
               <div className="flex justify-between text-sm text-slate-600 mb-2">
-                <span>Downloading libraries...</span>
+                <span>{runtimeSource === 'cache' ? 'Loading from offline cache...' : 'Downloading libraries...'}</span>
                 <span>{initializationProgress}%</span>
               </div>
               <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
@@ -83,14 +252,25 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-xs text-slate-600 text-center">
-              <div className="flex items-center justify-center gap-2 mb-1">
-                <Wifi className="w-3 h-3 text-blue-600" />
-                <span className="font-semibold text-blue-800">One-time setup required</span>
+            {runtimeSource === 'cache' ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-xs text-slate-600 text-center">
+                <div className="flex items-center justify-center gap-2 mb-1">
+                  <HardDrive className="w-3 h-3 text-green-600" />
+                  <span className="font-semibold text-green-800">Runtime loaded from offline cache</span>
+                </div>
+                Python runtime and signal processing libraries are stored on this device.
+                No network connection is needed.
               </div>
-              Downloading Python runtime and signal processing libraries (~10 MB).
-              After initialization, all processing runs client-side without server connection.
-            </div>
+            ) : (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-xs text-slate-600 text-center">
+                <div className="flex items-center justify-center gap-2 mb-1">
+                  <Wifi className="w-3 h-3 text-blue-600" />
+                  <span className="font-semibold text-blue-800">One-time setup required</span>
+                </div>
+                Downloading Python runtime and signal processing libraries (~30 MB) from this site.
+                They are cached for offline use, and all processing runs client-side.
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -111,16 +291,27 @@ const App: React.FC = () => {
               <p className="text-slate-600 text-sm">{initError}</p>
             </div>
 
-            <button
-              onClick={retryInit}
-              className="px-6 py-2 bg-[#005EB8] text-white rounded-lg hover:bg-[#004a93] transition-colors"
-            >
-              Retry Initialization
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={retryInit}
+                className="px-6 py-2 bg-[#005EB8] text-white rounded-lg hover:bg-[#004a93] transition-colors"
+              >
+                Retry Initialization
+              </button>
+              {engine === 'pyodide' && (
+                <button
+                  onClick={() => updateSettings({ ...settings, engine: 'typescript' })}
+                  className="px-6 py-2 text-[#005EB8] border border-[#005EB8] rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  Use TypeScript Engine
+                </button>
+              )}
+            </div>
 
             <div className="text-xs text-slate-500 text-center max-w-xs">
-              Internet connection required for initial library download.
-              The system downloads Pyodide runtime, NumPy, and SciPy from CDN (~10 MB total).
+              The Pyodide runtime, NumPy, and SciPy are served by this site and cached on first load.
+              If this is the first visit, a connection to the site is required.
+              The TypeScript engine runs the same pipeline without the Python runtime.
             </div>
           </div>
         </div>
@@ -129,21 +320,29 @@ const App: React.FC = () => {
   }
 
   const renderContent = () => {
-    if (currentView !== AppView.DASHBOARD) {
-      return (
-        <div className="flex-1 flex items-center justify-center text-slate-400 flex-col gap-4">
-          <div className="text-4xl font-light text-slate-300">Feature Disabled</div>
-          <p className="max-w-md text-center">
-            This module is not implemented in the research prototype.
-            Please return to "New Patient Scan" for ECG analysis.
-          </p>
-        </div>
-      );
+    if (currentView === AppView.BATCH) {
+      return <BatchAnalysis config={baseConfig} />;
+    }
+
+    if (currentView === AppView.VALIDATION) {
+      return <ValidationView config={baseConfig} toleranceMs={settings.referenceToleranceMs} />;
+    }
+
+    if (currentView === AppView.HISTORY) {
+      return <HistoryView onOpen={handleOpenAnalysis} />;
+    }
+
+    if (currentView === AppView.SETTINGS) {
+      return <SettingsView settings={settings} onChange={updateSettings} onReset={() => setSettings(resetSettings())} />;
+    }
+
+    if (currentView === AppView.PRIVACY) {
+      return <PrivacyView onPurged={handlePurged} />;
     }
 
     return (
       <div className="space-y-6 max-w-7xl mx-auto w-full">
-        {isInitialized && !ecgData.length && (
+        {isInitialized && !signal && (
           <div className="bg-green-50 border border-green-200 rounded-xl p-4 flex items-start gap-3">
             <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
             <div>
@@ -177,6 +376,22 @@ const App: React.FC = () => {
                 <p className="text-xs text-blue-700 mt-1">
                   {fileInfo.format.toUpperCase()} • {fileInfo.sampleRate} Hz • {fileInfo.duration.toFixed(1)}s • {(fileInfo.size / 1024).toFixed(1)} KB
                 </p>
+                <p className={`text-xs mt-1 ${fileInfo.calibration.source === 'auto' ? 'text-amber-700' : 'text-blue-700'}`}>
+                  Amplitude: {describeCalibration(fileInfo.calibration)}
+                </p>
+                <p className="text-xs text-blue-700 mt-1">
+                  Filter: {fileInfo.filter.highPass}-{fileInfo.filter.lowPass} Hz (order {fileInfo.filter.order}) •{' '}
+                  {fileInfo.filter.notchFrequency
+                    ? `${fileInfo.filter.notchFrequency} Hz notch${fileInfo.filter.notchHarmonics > 0 ? ` + ${fileInfo.filter.notchHarmonics} harmonic(s)` : ''}`
+                    : 'no notch'} • {fileInfo.filter.baselineMethod} baseline •{' '}
+                  {fileInfo.engine === 'typescript' ? 'TypeScript engine' : 'Pyodide engine'}
+                </p>
+                {reopenedAt !== null && signal && (
+                  <p className="text-xs text-blue-700 mt-1 flex items-center gap-1">
+                    <History className="w-3 h-3" />
+                    Reopened from history (saved {new Date(reopenedAt).toLocaleString()}) • waveform stored at {signal.sampleRate.toFixed(0)} Hz • load the file again to re-analyse
+                  </p>
+                )}
               </div>
               {fileInfo.warnings.length > 0 && (
                 <div className="text-xs text-amber-700 max-w-xs">
@@ -199,26 +414,111 @@ const App: React.FC = () => {
           <FileUpload 
             onFileSelected={handleFileSelected}
             isProcessing={isProcessing} 
+            onCancel={cancelProcessing}
+            defaultSampleRate={settings.defaultSampleRate ?? undefined}
           />
         </section>
 
         <section>
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-lg font-semibold text-slate-800">2. Signal Analysis</h2>
-            {ecgData.length > 0 && fileInfo && (
-              <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded border border-slate-200">
-                Duration: {fileInfo.duration.toFixed(1)}s @ {fileInfo.sampleRate}Hz
-              </span>
-            )}
+            <div className="flex items-center gap-2">
+              <WorkerPoolStatus workers={poolStatus} />
+              <select
+                value={engine}
+                onChange={(e) => handleEngineChange(e.target.value as ProcessingEngine)}
+                disabled={isProcessing}
+                className="text-xs bg-white text-slate-600 px-2 py-1 rounded border border-slate-200"
+              >
+                <option value="pyodide">Engine: Python (SciPy)</option>
+                <option value="typescript">Engine: TypeScript</option>
+              </select>
+              <select
+                value={filterSettings.filterPreset}
+                onChange={(e) => handleFilterChange({ filterPreset: e.target.value as FilterPresetName })}
+                disabled={isProcessing}
+                className="text-xs bg-white text-slate-600 px-2 py-1 rounded border border-slate-200"
+              >
+                {Object.entries(FILTER_PRESET_LABELS).map(([preset, label]) => (
+                  <option key={preset} value={preset}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={notchValue}
+                onChange={(e) => handleNotchChange(e.target.value)}
+                disabled={isProcessing}
+                className="text-xs bg-white text-slate-600 px-2 py-1 rounded border border-slate-200"
+              >
+                <option value="preset">Notch: preset ({settings.mainsFrequency} Hz mains)</option>
+                <option value="50">Notch: 50 Hz</option>
+                <option value="60">Notch: 60 Hz</option>
+                <option value="off">Notch: off</option>
+              </select>
+              {currentFiles && fileInfo && fileInfo.leads.length > 1 && (
+                <select
+                  value={fileInfo.leadFusion ? '__fused__' : fileInfo.analysisLead}
+                  onChange={(e) => handleAnalysisLeadChange(e.target.value)}
+                  disabled={isProcessing}
+                  className="text-xs bg-white text-slate-600 px-2 py-1 rounded border border-slate-200"
+                >
+                  {fileInfo.leads.map((lead: string) => (
+                    <option key={lead} value={lead}>Analyze lead {lead}</option>
+                  ))}
+                  <option value="__fused__">Fuse detections across all leads</option>
+                </select>
+              )}
+              {signal && fileInfo && (
+                <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded border border-slate-200">
+                  Duration: {fileInfo.duration.toFixed(1)}s @ {fileInfo.sampleRate}Hz
+                </span>
+              )}
+            </div>
           </div>
-          <ECGDisplay data={ecgData.slice(0, 10000)} />
+          <ECGDisplay
+            signal={signal}
+            leadName={fileInfo?.analysisLead}
+            fusedLeads={fileInfo?.leadFusion ? fileInfo.leads.length : undefined}
+            displaySeconds={settings.displaySeconds}
+            gain={settings.displayGain}
+            peakEditing={peakEditor.isActive && signal ? {
+              onChange: peakEditor.edit,
+              onUndo: peakEditor.undo,
+              onRedo: peakEditor.redo,
+              canUndo: peakEditor.canUndo,
+              canRedo: peakEditor.canRedo,
+              isEdited: peakEditor.isEdited,
+              isRecomputing: peakEditor.isRecomputing
+            } : undefined}
+            referenceMatch={referenceMatch}
+          />
+          {peakEditor.isActive && signal && fileInfo && (
+            <AnnotationControls
+              key={fileInfo.name}
+              signal={signal}
+              recordName={fileInfo.metadata.recordName || fileInfo.name.replace(/\.[^.]+$/, '')}
+              onImport={peakEditor.edit}
+              referenceName={reference?.name}
+              onReference={setReference}
+            />
+          )}
+          {peakEditor.error && (
+            <p className="mt-2 text-xs text-red-600">Could not recompute metrics: {peakEditor.error}</p>
+          )}
         </section>
 
         <section>
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-lg font-semibold text-slate-800">3. Diagnostic Metrics</h2>
           </div>
-          <DiagnosticPanel metrics={metrics} />
+          <DiagnosticPanel
+            metrics={metrics}
+            thresholds={settings.alertThresholds}
+            agreement={referenceMatch && reference ? {
+              match: referenceMatch,
+              toleranceMs: settings.referenceToleranceMs,
+              referenceName: reference.name
+            } : undefined}
+          />
         </section>
       </div>
     );
@@ -0,0 +1,114 @@
+/**
+ * Export of the current R-peaks as a WFDB annotation file or CSV, import of either back onto
+ * the loaded record, and loading of a reference annotation file to score the detector against.
+ */
+
+import React, { useRef, useState } from 'react';
+import { FileDown, FileUp, Target, X } from 'lucide-react';
+import type { ECGSignal } from '../types';
+import {
+  annotationsToCSV,
+  annotationsToPeaks,
+  peaksToAnnotations,
+  readAnnotationFile,
+  writeWfdbAnnotations
+} from '../services/annotations';
+
+interface AnnotationControlsProps {
+  signal: ECGSignal;
+  /** Base name of exported files, normally the WFDB record name. */
+  recordName: string;
+  onImport: (peaks: Int32Array) => void;
+  /** File name of the loaded reference annotations. */
+  referenceName?: string;
+  /** Reference beats to score the R-peaks against; `null` clears them. */
+  onReference: (reference: { peaks: Int32Array; name: string } | null) => void;
+}
+
+const buttonClass = 'flex items-center gap-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1 hover:bg-slate-50';
+
+function download(data: BlobPart, type: string, fileName: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const AnnotationControls: React.FC<AnnotationControlsProps> = ({ signal, recordName, onImport, referenceName, onReference }) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const referenceRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Read the chosen file's beats and hand them to `apply`; `action` words the status message
+  const readBeats = (action: string, apply: (peaks: Int32Array, file: File) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const annotations = await readAnnotationFile(file, signal.sampleRate);
+      const peaks = annotationsToPeaks(annotations, signal.length);
+      if (peaks.length === 0) {
+        throw new Error(`No beat annotations within this record in ${file.name}`);
+      }
+      apply(peaks, file);
+      const skipped = annotations.length - peaks.length;
+      setMessage({
+        text: `${action} ${peaks.length} beats from ${file.name}${skipped > 0 ? ` (${skipped} non-beat or out-of-range annotations skipped)` : ''}`,
+        isError: false
+      });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  };
+
+  return (
+    <div className="mt-3 flex items-center gap-2 flex-wrap">
+      <span className="text-xs font-semibold text-slate-500">Beat annotations</span>
+      <button
+        onClick={() => download(writeWfdbAnnotations(peaksToAnnotations(signal.peaks)), 'application/octet-stream', `${recordName}.atr`)}
+        className={buttonClass}
+        title="WFDB annotation file (MIT format), readable with wfdb.rdann"
+      >
+        <FileDown className="w-3.5 h-3.5" /> Export .atr
+      </button>
+      <button
+        onClick={() => download(annotationsToCSV(peaksToAnnotations(signal.peaks), signal.sampleRate), 'text/csv', `${recordName}_annotations.csv`)}
+        className={buttonClass}
+        title="Sample, time, label and R-R interval per beat"
+      >
+        <FileDown className="w-3.5 h-3.5" /> Export CSV
+      </button>
+      <button onClick={() => importRef.current?.click()} className={buttonClass} title="Replace the R-peaks with a WFDB or CSV annotation file">
+        <FileUp className="w-3.5 h-3.5" /> Import...
+      </button>
+      <input ref={importRef} type="file" className="hidden" onChange={readBeats('Imported', peaks => onImport(peaks))} />
+      {referenceName ? (
+        <span className="flex items-center gap-1 text-xs font-medium text-[#005EB8] bg-blue-50 border border-blue-200 rounded-lg px-2 py-1">
+          <Target className="w-3.5 h-3.5" /> Reference: {referenceName}
+          <button onClick={() => { onReference(null); setMessage(null); }} className="ml-0.5 hover:text-blue-900" title="Stop scoring against the reference">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ) : (
+        <button onClick={() => referenceRef.current?.click()} className={buttonClass} title="Score the R-peaks against a WFDB or CSV annotation file">
+          <Target className="w-3.5 h-3.5" /> Load reference...
+        </button>
+      )}
+      <input
+        ref={referenceRef}
+        type="file"
+        className="hidden"
+        onChange={readBeats('Loaded', (peaks, file) => onReference({ peaks, name: file.name }))}
+      />
+      {message && (
+        <span className={`text-xs ${message.isError ? 'text-red-600' : 'text-slate-500'}`}>{message.text}</span>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationControls;
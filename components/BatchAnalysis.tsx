@@ -0,0 +1,293 @@
+/**
+ * Batch mode: analyse many recordings or a whole folder, with per-file progress and a
+ * sortable summary table that can be exported as CSV.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Download,
+  FolderOpen,
+  Layers,
+  Loader2,
+  UploadCloud,
+  XCircle
+} from 'lucide-react';
+import type { ProcessingConfig } from '../types';
+import {
+  batchToCSV,
+  groupBatchRecords,
+  readDroppedFiles,
+  runBatch,
+  type BatchItem,
+  type BatchSummaryRow
+} from '../services/batchAnalysis';
+
+interface BatchAnalysisProps {
+  config: ProcessingConfig;
+}
+
+type SortKey = 'name' | 'bpm' | 'rhythm' | 'qrsWidth' | 'qtc' | 'sdnn' | 'quality' | 'warnings';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'name', label: 'File' },
+  { key: 'bpm', label: 'HR (BPM)', numeric: true },
+  { key: 'rhythm', label: 'Rhythm' },
+  { key: 'qrsWidth', label: 'QRS (ms)', numeric: true },
+  { key: 'qtc', label: 'QTc (ms)', numeric: true },
+  { key: 'sdnn', label: 'SDNN (ms)', numeric: true },
+  { key: 'quality', label: 'Quality (%)', numeric: true },
+  { key: 'warnings', label: 'Warnings' }
+];
+
+function sortValue(row: BatchSummaryRow, key: SortKey): string | number {
+  if (key === 'warnings') return row.warnings.length;
+  const value = row[key];
+  return value === undefined ? -Infinity : value;
+}
+
+function formatNumber(value: number | undefined, digits = 0): string {
+  return value === undefined || !Number.isFinite(value) ? '—' : value.toFixed(digits);
+}
+
+const STATUS_ICONS: Record<BatchItem['status'], React.ReactNode> = {
+  queued: <span className="w-4 h-4 rounded-full border-2 border-slate-200" />,
+  running: <Loader2 className="w-4 h-4 text-[#005EB8] animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  failed: <AlertTriangle className="w-4 h-4 text-red-500" />,
+  cancelled: <XCircle className="w-4 h-4 text-slate-400" />
+};
+
+const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ config }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'name', ascending: true });
+  const controllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Folder picking is not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startBatch = async (files: File[]) => {
+    if (isRunning || files.length === 0) return;
+
+    const { records, orphans } = groupBatchRecords(files);
+    const orphanItems: BatchItem[] = orphans.map(file => ({
+      name: file.name,
+      status: 'failed',
+      progress: 0,
+      error: 'WFDB signal file without its .hea header'
+    }));
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setItems([...records.map(r => ({ name: r.name, status: 'queued' as const, progress: 0 })), ...orphanItems]);
+    setIsRunning(true);
+
+    await runBatch(records, config, {
+      onItemUpdate: (index, item) => {
+        setItems(prev => prev.map((existing, i) => (i === index ? item : existing)));
+      }
+    }, controller.signal);
+
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    await startBatch(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const files: File[] = Array.from(e.target.files);
+      e.target.value = '';
+      await startBatch(files);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([batchToCSV(items)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ecg-batch-summary-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const rows = useMemo(() => {
+    const summaries = items.flatMap(item => (item.summary ? [item.summary] : []));
+    return summaries.sort((a, b) => {
+      const av = sortValue(a, sort.key);
+      const bv = sortValue(b, sort.key);
+      const order = typeof av === 'string' && typeof bv === 'string'
+        ? av.localeCompare(bv, undefined, { numeric: true })
+        : Number(av) - Number(bv);
+      return sort.ascending ? order : -order;
+    });
+  }, [items, sort]);
+
+  const counts = {
+    done: items.filter(i => i.status === 'done').length,
+    failed: items.filter(i => i.status === 'failed').length,
+    cancelled: items.filter(i => i.status === 'cancelled').length
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto w-full">
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-slate-800">Batch Analysis</h2>
+          {items.length > 0 && (
+            <span className="text-xs text-slate-500">
+              {counts.done} of {items.length} analysed
+              {counts.failed > 0 && ` • ${counts.failed} failed`}
+              {counts.cancelled > 0 && ` • ${counts.cancelled} cancelled`}
+            </span>
+          )}
+        </div>
+
+        <div
+          className={`w-full h-40 rounded-xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center gap-3
+            ${isDragging ? 'border-[#005EB8] bg-blue-50/50' : 'border-slate-300 bg-white'}
+            ${isRunning ? 'opacity-60 pointer-events-none' : ''}
+          `}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+          onDrop={handleDrop}
+        >
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInput}
+            accept=".csv,.json,.xml,.txt,.hea,.dat,.atr,.edf,.dcm,.scp" />
+          <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleInput} />
+
+          <div className="flex items-center gap-2 text-slate-700 text-sm font-medium">
+            <Layers className="w-5 h-5 text-slate-400" />
+            Drop recordings or a folder here
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-xs font-medium bg-[#005EB8] text-white rounded-lg px-3 py-1.5 hover:bg-[#004a93]"
+            >
+              <UploadCloud className="w-3.5 h-3.5" /> Select files
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-3 py-1.5 hover:bg-blue-50"
+            >
+              <FolderOpen className="w-3.5 h-3.5" /> Select folder
+            </button>
+          </div>
+          <p className="text-slate-400 text-xs">
+            WFDB headers are matched with their .dat files • CSV files use the column mapping remembered for their layout
+          </p>
+        </div>
+      </section>
+
+      {items.length > 0 && (
+        <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+            <h3 className="font-semibold text-sm text-slate-700">Progress</h3>
+            {isRunning && (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                className="flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg px-3 py-1 hover:text-red-600"
+              >
+                <XCircle className="w-3.5 h-3.5" /> Cancel batch
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+            {items.map((item, i) => (
+              <li key={i} className="px-5 py-2 flex items-center gap-3 text-xs">
+                {STATUS_ICONS[item.status]}
+                <span className="w-56 truncate font-medium text-slate-700" title={item.name}>{item.name}</span>
+                {item.status === 'running' ? (
+                  <div className="flex-1 flex items-center gap-2">
+                    <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-[#005EB8] transition-all duration-300" style={{ width: `${item.progress}%` }} />
+                    </div>
+                    <span className="w-48 truncate text-slate-500">{item.message}</span>
+                  </div>
+                ) : (
+                  <span className={`flex-1 truncate ${item.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`} title={item.error}>
+                    {item.status === 'failed' ? item.error : item.status === 'queued' ? 'Queued' : item.message}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {rows.length > 0 && (
+        <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+            <h3 className="font-semibold text-sm text-slate-700">Summary</h3>
+            <button
+              onClick={handleExport}
+              disabled={isRunning}
+              className="flex items-center gap-1.5 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-3 py-1 hover:bg-blue-50 disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" /> Export CSV
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  {COLUMNS.map(col => (
+                    <th
+                      key={col.key}
+                      onClick={() => toggleSort(col.key)}
+                      className={`px-4 py-2 font-semibold cursor-pointer select-none hover:text-[#005EB8] ${col.numeric ? 'text-right' : 'text-left'}`}
+                    >
+                      <span className="inline-flex items-center gap-1">
+                        {col.label}
+                        {sort.key === col.key && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-700">
+                {rows.map(row => (
+                  <tr key={row.name} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 font-medium truncate max-w-[16rem]" title={row.name}>{row.name}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(row.bpm)}</td>
+                    <td className={`px-4 py-2 ${row.rhythm === 'Normal Sinus Rhythm' ? 'text-green-700' : 'text-amber-700'}`}>{row.rhythm}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(row.qrsWidth)}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(row.qtc)}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(row.sdnn)}</td>
+                    <td className="px-4 py-2 text-right">{formatNumber(row.quality)}</td>
+                    <td className="px-4 py-2 text-slate-500 truncate max-w-[20rem]" title={row.warnings.join('\n')}>
+                      {row.warnings.length > 0 ? row.warnings.join('; ') : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysis;
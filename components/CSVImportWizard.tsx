@@ -0,0 +1,243 @@
+/**
+ * CSV import preview: shows the first rows and lets the user map delimiter, columns, units and sample rate.
+ */
+
+import React, { useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { splitCSVLine, type CSVImportMapping, type CSVPreview } from '../services/dataParser';
+
+interface CSVImportWizardProps {
+  fileName: string;
+  preview: CSVPreview;
+  initialMapping: CSVImportMapping;
+  remembered: boolean;
+  onConfirm: (mapping: CSVImportMapping) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: ' ', label: 'Whitespace' }
+];
+
+const inputClass = 'text-xs bg-white text-slate-700 px-2 py-1 rounded border border-slate-200';
+
+const CSVImportWizard: React.FC<CSVImportWizardProps> = ({
+  fileName,
+  preview,
+  initialMapping,
+  remembered,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<CSVImportMapping>(initialMapping);
+  const update = (changes: Partial<CSVImportMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  const split = preview.lines.map(line => splitCSVLine(line, mapping.delimiter));
+  const headers = mapping.hasHeader ? split[0] : null;
+  const rows = mapping.hasHeader ? split.slice(1) : split;
+  const columnCount = Math.max(0, ...split.map(r => r.length));
+  const columnName = (i: number) => headers?.[i] || `Column ${i + 1}`;
+
+  const toggleLead = (index: number) => {
+    const selected = mapping.leadColumns.some(c => c.index === index);
+    update({
+      leadColumns: selected
+        ? mapping.leadColumns.filter(c => c.index !== index)
+        : [...mapping.leadColumns, { index, name: headers?.[index] || `Lead ${index + 1}` }].sort((a, b) => a.index - b.index),
+      timeColumn: mapping.timeColumn === index ? null : mapping.timeColumn
+    });
+  };
+
+  // Re-estimate the sample rate from the preview rows whenever a time column is picked
+  const selectTimeColumn = (index: number | null) => {
+    const times = index === null ? [] : rows.map(r => Number(r[index])).filter(t => !isNaN(t));
+    const span = times.length > 1 ? times[times.length - 1] - times[0] : 0;
+    update({
+      timeColumn: index,
+      ...(span > 0 ? { sampleRate: Math.round((times.length - 1) / span) } : {})
+    });
+  };
+
+  const renameLead = (index: number, name: string) => {
+    update({ leadColumns: mapping.leadColumns.map(c => (c.index === index ? { ...c, name } : c)) });
+  };
+
+  const canImport = mapping.leadColumns.length > 0 &&
+    mapping.leadColumns.every(c => c.name.trim()) &&
+    mapping.sampleRate > 0 &&
+    (mapping.units !== 'adc' || mapping.gain > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-4 h-4 text-[#005EB8]" />
+            <h3 className="font-semibold text-sm text-slate-700">Import {fileName}</h3>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          {remembered && (
+            <p className="text-xs text-green-700 bg-green-50 border border-green-200 rounded px-3 py-2">
+              Using the mapping saved for this file layout.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+            <label className="flex items-center gap-2">
+              Delimiter
+              <select
+                value={mapping.delimiter}
+                onChange={(e) => update({ delimiter: e.target.value, leadColumns: [], timeColumn: null })}
+                className={inputClass}
+              >
+                {DELIMITER_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => update({ hasHeader: e.target.checked })}
+              />
+              First row is a header
+            </label>
+            <label className="flex items-center gap-2">
+              Time column
+              <select
+                value={mapping.timeColumn ?? ''}
+                onChange={(e) => selectTimeColumn(e.target.value === '' ? null : Number(e.target.value))}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <option key={i} value={i} disabled={mapping.leadColumns.some(c => c.index === i)}>
+                    {columnName(i)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="text-xs w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  {Array.from({ length: columnCount }, (_, i) => {
+                    const lead = mapping.leadColumns.find(c => c.index === i);
+                    return (
+                      <th key={i} className="px-2 py-2 text-left font-medium text-slate-600 align-top">
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={!!lead}
+                            disabled={mapping.timeColumn === i}
+                            onChange={() => toggleLead(i)}
+                          />
+                          {mapping.timeColumn === i ? `${columnName(i)} (time)` : columnName(i)}
+                        </label>
+                        {lead && (
+                          <input
+                            value={lead.name}
+                            onChange={(e) => renameLead(i, e.target.value)}
+                            className={`${inputClass} mt-1 w-24`}
+                            placeholder="Lead name"
+                          />
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, 10).map((row, r) => (
+                  <tr key={r} className="border-t border-slate-100">
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <td
+                        key={i}
+                        className={`px-2 py-1 font-mono ${mapping.leadColumns.some(c => c.index === i) ? 'text-slate-800' : 'text-slate-400'}`}
+                      >
+                        {row[i] ?? ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+            <label className="flex items-center gap-2">
+              Units
+              <select
+                value={mapping.units}
+                onChange={(e) => update({ units: e.target.value as CSVImportMapping['units'] })}
+                className={inputClass}
+              >
+                <option value="mV">Millivolts (mV)</option>
+                <option value="uV">Microvolts (µV)</option>
+                <option value="adc">ADC counts</option>
+              </select>
+            </label>
+            {mapping.units === 'adc' && (
+              <>
+                <label className="flex items-center gap-2">
+                  Gain (counts/mV)
+                  <input
+                    type="number"
+                    value={mapping.gain}
+                    onChange={(e) => update({ gain: Number(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Baseline (counts)
+                  <input
+                    type="number"
+                    value={mapping.baseline}
+                    onChange={(e) => update({ baseline: Number(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+              </>
+            )}
+            <label className="flex items-center gap-2">
+              Sample rate (Hz)
+              <input
+                type="number"
+                value={mapping.sampleRate}
+                onChange={(e) => update({ sampleRate: Number(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-600 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping)}
+            disabled={!canImport}
+            className="px-4 py-2 text-sm bg-[#005EB8] text-white rounded-lg hover:bg-[#004a93] transition-colors disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CSVImportWizard;
@@ -1,16 +1,28 @@
 /**
- * Clinical metrics display panel with color-coded status indicators.
+ * Clinical metrics display panel with color-coded status indicators, plus detector agreement
+ * when reference annotations are loaded.
  */
 
 import React from 'react';
-import { Heart, Activity, BarChart3, AlertTriangle, CheckCircle, Timer, Waves, HeartPulse } from 'lucide-react';
-import { PatientMetrics } from '../types';
+import { Heart, Activity, BarChart3, AlertTriangle, CheckCircle, Timer, Waves, HeartPulse, Target, UserCheck } from 'lucide-react';
+import { AlertThresholds, PatientMetrics } from '../types';
+import { DEFAULT_ALERT_THRESHOLDS, QTC_FORMULA_LABELS } from '../services/clinicalRules';
+import type { BeatMatchResult } from '../services/beatMatching';
+
+/** Detected R-peaks scored against a reference annotation file. */
+export interface DetectorAgreement {
+  match: BeatMatchResult;
+  toleranceMs: number;
+  referenceName: string;
+}
 
 interface DiagnosticPanelProps {
   metrics: PatientMetrics | null;
+  thresholds?: AlertThresholds;
+  agreement?: DetectorAgreement;
 }
 
-const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics }) => {
+const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics, thresholds = DEFAULT_ALERT_THRESHOLDS, agreement }) => {
   if (!metrics) {
     return (
       <div className="bg-slate-50 border border-slate-200 border-dashed rounded-xl h-48 flex flex-col items-center justify-center text-slate-400 gap-2">
@@ -30,27 +42,28 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics }) => {
   const getQRSStatus = (qrsWidth?: number) => {
     if (!qrsWidth) return { label: 'N/A', color: 'text-slate-400' };
     if (qrsWidth < 100) return { label: 'Normal', color: 'text-emerald-600' };
-    if (qrsWidth < 120) return { label: 'Borderline', color: 'text-amber-600' };
+    if (qrsWidth <= thresholds.wideQrsMs) return { label: 'Borderline', color: 'text-amber-600' };
     return { label: 'Wide', color: 'text-red-600' };
   };
 
   const getQTcStatus = (qtc?: number) => {
     if (!qtc) return { label: 'N/A', color: 'text-slate-400' };
     if (qtc < 350) return { label: 'Short', color: 'text-amber-600' };
-    if (qtc <= 450) return { label: 'Normal', color: 'text-emerald-600' };
-    if (qtc <= 480) return { label: 'Borderline', color: 'text-amber-600' };
+    if (qtc <= Math.min(450, thresholds.prolongedQtcMs)) return { label: 'Normal', color: 'text-emerald-600' };
+    if (qtc <= thresholds.prolongedQtcMs) return { label: 'Borderline', color: 'text-amber-600' };
     return { label: 'Prolonged', color: 'text-red-600' };
   };
 
   const getHRVStatus = (sdnn?: number) => {
     if (!sdnn) return { label: 'N/A', color: 'text-slate-400' };
-    if (sdnn < 50) return { label: 'Low', color: 'text-red-600' };
+    if (sdnn < thresholds.lowSdnnMs) return { label: 'Low', color: 'text-red-600' };
     if (sdnn < 100) return { label: 'Moderate', color: 'text-amber-600' };
     return { label: 'Good', color: 'text-emerald-600' };
   };
 
   const qrsStatus = getQRSStatus(metrics.qrsWidth);
-  const qtcStatus = getQTcStatus(metrics.qtcBazett);
+  const qtc = metrics.qtc ?? metrics.qtcBazett;
+  const qtcStatus = getQTcStatus(qtc);
   const hrvStatus = getHRVStatus(metrics.sdnn);
 
   return (
@@ -101,7 +114,13 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics }) => {
               {metrics.rhythmStatus}
             </div>
           </div>
-          <div className="mt-3 text-xs text-slate-400">Based on R-R interval variance</div>
+          <div className="mt-3 text-xs text-slate-400">
+            {metrics.manuallyOverRead ? (
+              <span className="inline-flex items-center gap-1 text-[#005EB8] font-medium">
+                <UserCheck className="w-3 h-3" /> Manually over-read
+              </span>
+            ) : 'Based on R-R interval variance'}
+          </div>
         </div>
 
         <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
@@ -142,17 +161,17 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics }) => {
             <span className="text-sm font-medium text-slate-500">ms</span>
             <span className={`ml-auto text-xs font-semibold ${qrsStatus.color}`}>{qrsStatus.label}</span>
           </div>
-          <div className="mt-3 text-xs text-slate-400">Normal: &lt;120ms • Wide: BBB/VT risk</div>
+          <div className="mt-3 text-xs text-slate-400">Normal: &le;{thresholds.wideQrsMs}ms • Wide: BBB/VT risk</div>
         </div>
 
         <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
           <div className="flex items-start justify-between">
-            <span className="text-xs font-bold uppercase tracking-wider text-slate-400">QTc (Bazett)</span>
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-400">QTc ({QTC_FORMULA_LABELS[metrics.qtcFormula || 'bazett']})</span>
             <Timer className="w-5 h-5 text-purple-500" />
           </div>
           <div className="flex items-baseline gap-2 mt-2">
             <span className="text-3xl font-bold text-slate-800">
-              {metrics.qtcBazett ? Math.round(metrics.qtcBazett) : '—'}
+              {qtc ? Math.round(qtc) : '—'}
             </span>
             <span className="text-sm font-medium text-slate-500">ms</span>
             <span className={`ml-auto text-xs font-semibold ${qtcStatus.color}`}>{qtcStatus.label}</span>
@@ -191,6 +210,44 @@ const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ metrics }) => {
           </div>
         </div>
       </div>
+
+      {/* Detector Agreement */}
+      {agreement && (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+          <div className="flex items-start justify-between">
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-400">Detector Agreement</span>
+            <Target className="w-5 h-5 text-[#005EB8]" />
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-4 mt-2">
+            {[
+              { label: 'Sensitivity', value: agreement.match.sensitivity },
+              { label: 'PPV', value: agreement.match.ppv },
+              { label: 'F1', value: agreement.match.f1 }
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <div className="flex items-baseline gap-1">
+                  <span className="text-2xl font-bold text-slate-800">{(value * 100).toFixed(2)}</span>
+                  <span className="text-xs text-slate-500">%</span>
+                </div>
+                <div className="text-xs text-slate-400">{label}</div>
+              </div>
+            ))}
+            {[
+              { label: 'True positives', value: agreement.match.tp, color: 'text-emerald-600' },
+              { label: 'False positives', value: agreement.match.fp, color: 'text-red-600' },
+              { label: 'False negatives', value: agreement.match.fn, color: 'text-purple-600' }
+            ].map(({ label, value, color }) => (
+              <div key={label}>
+                <span className={`text-2xl font-bold ${color}`}>{value}</span>
+                <div className="text-xs text-slate-400">{label}</div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 text-xs text-slate-400">
+            Against {agreement.referenceName} • ±{agreement.toleranceMs} ms matching tolerance
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,8 +1,10 @@
 /**
- * Dual-chart visualization: ECG waveform with R-peaks and R-R interval tachogram.
+ * Dual-chart visualization: ECG waveform with R-peaks and R-R interval tachogram,
+ * plus a 12-lead grid for multi-lead recordings. R-peaks can be added, moved and deleted
+ * on the waveform for a manual over-read, and scored against reference beat annotations.
  */
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -14,11 +16,53 @@ import {
   ComposedChart,
   Area
 } from 'recharts';
-import { ECGPoint } from '../types';
-import { Activity, TrendingUp } from 'lucide-react';
+import { ECGSignal } from '../types';
+import { Activity, TrendingUp, Grid3x3, ChevronLeft, ChevronRight, Eraser, Loader2, MoveHorizontal, Pencil, Plus, Redo2, Undo2 } from 'lucide-react';
+import { chartPoints, peaksInRange, rrSeries } from '../services/signalViews';
+import { addPeak, movePeak, nearestPeak, removePeak, snapToRPeak } from '../services/peakEditor';
+import type { BeatMatchResult } from '../services/beatMatching';
+import TwelveLeadGrid, { hasTwelveLeadData } from './TwelveLeadGrid';
+
+// Upper bound on samples drawn in the waveform chart; the full recording stays in the typed arrays
+const MAX_CHART_SAMPLES = 30000;
+
+// Marker colours when detections are scored against reference annotations
+const MATCH_COLORS = { tp: '#10B981', fp: '#EF4444', fn: '#9333EA' };
+
+// Nominal height of the waveform chart, so the gain maps to an amplitude range as on paper
+const CHART_HEIGHT_MM = 40;
+
+/** Callbacks and state for manual R-peak editing; the owner keeps the undo history. */
+export interface PeakEditingControls {
+  onChange: (peaks: Int32Array) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  isEdited: boolean;
+  isRecomputing: boolean;
+}
+
+type PeakTool = 'add' | 'move' | 'delete';
+
+const PEAK_TOOLS: { id: PeakTool; label: string; icon: any }[] = [
+  { id: 'add', label: 'Add', icon: Plus },
+  { id: 'move', label: 'Move', icon: MoveHorizontal },
+  { id: 'delete', label: 'Delete', icon: Eraser }
+];
 
 interface ECGDisplayProps {
-  data: ECGPoint[];
+  signal: ECGSignal | null;
+  leadName?: string;
+  fusedLeads?: number;
+  /** Seconds of signal drawn in the waveform chart. */
+  displaySeconds?: number;
+  /** Amplitude scale in mm/mV. */
+  gain?: number;
+  /** Enables R-peak editing on the waveform. */
+  peakEditing?: PeakEditingControls;
+  /** Detections scored against reference annotations; adds TP/FP/FN markers. */
+  referenceMatch?: BeatMatchResult;
 }
 
 const ChartContainer: React.FC<{ 
@@ -26,24 +70,84 @@ const ChartContainer: React.FC<{
   subtitle?: string; 
   icon: any; 
   color: string; 
+  actions?: React.ReactNode;
+  toolbar?: React.ReactNode;
   children: React.ReactNode 
-}> = ({ title, subtitle, icon: Icon, color, children }) => (
+}> = ({ title, subtitle, icon: Icon, color, actions, toolbar, children }) => (
   <div className="bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col h-72 overflow-hidden">
     <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
       <div className="flex items-center gap-2">
         <Icon className={`w-4 h-4 ${color}`} />
         <h3 className="font-semibold text-sm text-slate-700">{title}</h3>
       </div>
-      {subtitle && <span className="text-xs text-slate-400">{subtitle}</span>}
+      <div className="flex items-center gap-3">
+        {subtitle && <span className="text-xs text-slate-400">{subtitle}</span>}
+        {actions}
+      </div>
     </div>
+    {toolbar}
     <div className="flex-1 w-full relative">
       {children}
     </div>
   </div>
 );
 
-const ECGDisplay: React.FC<ECGDisplayProps> = ({ data }) => {
-  if (data.length === 0) {
+const toolbarButtonClass = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium disabled:opacity-40';
+
+const ECGDisplay: React.FC<ECGDisplayProps> = ({ signal, leadName, fusedLeads, displaySeconds = 30, gain = 10, peakEditing, referenceMatch }) => {
+  const [windowStart, setWindowStart] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [tool, setTool] = useState<PeakTool>('add');
+  // Sample index of the beat picked up by the move tool
+  const [movingPeak, setMovingPeak] = useState<number | null>(null);
+
+  const displaySamples = signal ? Math.min(MAX_CHART_SAMPLES, Math.round(displaySeconds * signal.sampleRate)) : 0;
+  const windowEnd = signal ? Math.min(signal.length, windowStart + displaySamples) : 0;
+
+  // A new recording starts at the beginning; editing peaks keeps the samples and the view
+  const clean = signal?.clean;
+  useEffect(() => {
+    setWindowStart(0);
+    setMovingPeak(null);
+  }, [clean]);
+
+  useEffect(() => {
+    if (!peakEditing) setIsEditing(false);
+  }, [peakEditing]);
+
+  const data = useMemo(
+    () => (signal ? chartPoints(signal, windowStart, windowStart + displaySamples) : []),
+    // Rows depend on the samples only, so peak edits do not rebuild them
+    [clean, windowStart, displaySamples]
+  );
+  const visiblePeaks = useMemo(
+    () => new Set(signal ? peaksInRange(signal, windowStart, windowStart + displaySamples) : []),
+    [signal, windowStart, displaySamples]
+  );
+  const matchedPeaks = useMemo(() => new Set(referenceMatch?.truePositives), [referenceMatch]);
+  const missedBeats = useMemo(() => new Set(referenceMatch?.falseNegatives), [referenceMatch]);
+  const halfRangeMv = CHART_HEIGHT_MM / gain / 2;
+  const rrData = useMemo(() => (signal ? rrSeries(signal) : []), [signal]);
+
+  const editingActive = isEditing && !!peakEditing;
+  useEffect(() => {
+    if (!editingActive || !peakEditing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && peakEditing.canUndo) {
+        e.preventDefault();
+        peakEditing.onUndo();
+      } else if ((key === 'y' || (key === 'z' && e.shiftKey)) && peakEditing.canRedo) {
+        e.preventDefault();
+        peakEditing.onRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editingActive, peakEditing]);
+
+  if (!signal || signal.length === 0) {
     return (
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
          {['ECG Signal with R-Peaks', 'Heart Rate Variability'].map((title, i) => (
@@ -56,40 +160,133 @@ const ECGDisplay: React.FC<ECGDisplayProps> = ({ data }) => {
     );
   }
 
-  const peaks = data.filter(d => d.isPeak);
-
-  // Calculate R-R intervals and instantaneous heart rate
-  const rrData: { time: number; rr: number; hr: number; beatNum: number }[] = [];
-  for (let i = 1; i < peaks.length; i++) {
-    const rrInterval = peaks[i].time - peaks[i-1].time;
-    const instantHR = 60 / rrInterval;
-    rrData.push({
-      time: peaks[i].time,
-      rr: Math.round(rrInterval * 1000),
-      hr: Math.round(instantHR),
-      beatNum: i
-    });
-  }
-
   const avgRR = rrData.length > 0 ? rrData.reduce((sum, d) => sum + d.rr, 0) / rrData.length : 0;
   const rrStd = rrData.length > 1 
     ? Math.sqrt(rrData.reduce((sum, d) => sum + Math.pow(d.rr - avgRR, 2), 0) / (rrData.length - 1))
     : 0;
 
+  const peakSubtitle = peakEditing?.isEdited
+    ? `${signal.peaks.length} R-peaks (manually over-read)`
+    : fusedLeads
+      ? `${signal.peaks.length} R-peaks (fused across ${fusedLeads} leads)`
+      : `${signal.peaks.length} R-peaks detected`;
+
+  const handleChartClick = (state: { activeTooltipIndex?: number | string | null }) => {
+    if (!editingActive || !peakEditing || state.activeTooltipIndex == null) return;
+    const sample = windowStart + Number(state.activeTooltipIndex);
+    const { peaks, sampleRate } = signal;
+    const hit = nearestPeak(peaks, sample, sampleRate);
+
+    if (tool === 'add') {
+      peakEditing.onChange(addPeak(peaks, snapToRPeak(signal.clean, sample, sampleRate)));
+    } else if (tool === 'delete') {
+      if (hit >= 0) peakEditing.onChange(removePeak(peaks, hit));
+    } else if (movingPeak === null) {
+      if (hit >= 0) setMovingPeak(peaks[hit]);
+    } else {
+      const from = peaks.indexOf(movingPeak);
+      if (from >= 0) peakEditing.onChange(movePeak(peaks, from, snapToRPeak(signal.clean, sample, sampleRate)));
+      setMovingPeak(null);
+    }
+  };
+
+  const windowSeconds = (samples: number) => (samples / signal.sampleRate).toFixed(1);
+  const waveformActions = (
+    <>
+      {signal.length > displaySamples && (
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+          <button
+            onClick={() => setWindowStart(Math.max(0, windowStart - displaySamples))}
+            disabled={windowStart === 0}
+            className="p-0.5 rounded hover:bg-slate-200 disabled:opacity-30"
+            title="Previous window"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>{windowSeconds(windowStart)}–{windowSeconds(windowEnd)} s</span>
+          <button
+            onClick={() => setWindowStart(Math.min(signal.length - displaySamples, windowStart + displaySamples))}
+            disabled={windowEnd >= signal.length}
+            className="p-0.5 rounded hover:bg-slate-200 disabled:opacity-30"
+            title="Next window"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {peakEditing && (
+        <button
+          onClick={() => { setIsEditing(!isEditing); setMovingPeak(null); }}
+          className={`${toolbarButtonClass} border ${isEditing ? 'bg-[#005EB8] text-white border-[#005EB8]' : 'text-[#005EB8] border-[#005EB8] hover:bg-blue-50'}`}
+          title="Add, move or delete R-peaks"
+        >
+          <Pencil className="w-3 h-3" /> Edit R-peaks
+        </button>
+      )}
+    </>
+  );
+
+  const editToolbar = editingActive && peakEditing && (
+    <div className="px-5 py-1.5 border-b border-slate-100 flex items-center gap-2 bg-blue-50/40">
+      <div className="flex items-center gap-0.5 bg-white border border-slate-200 rounded-lg p-0.5">
+        {PEAK_TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => { setTool(id); setMovingPeak(null); }}
+            className={`${toolbarButtonClass} ${tool === id ? 'bg-[#005EB8] text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            <Icon className="w-3 h-3" /> {label}
+          </button>
+        ))}
+      </div>
+      <button onClick={peakEditing.onUndo} disabled={!peakEditing.canUndo} className={`${toolbarButtonClass} text-slate-600 hover:bg-slate-100`} title="Undo (Ctrl+Z)">
+        <Undo2 className="w-3 h-3" /> Undo
+      </button>
+      <button onClick={peakEditing.onRedo} disabled={!peakEditing.canRedo} className={`${toolbarButtonClass} text-slate-600 hover:bg-slate-100`} title="Redo (Ctrl+Shift+Z)">
+        <Redo2 className="w-3 h-3" /> Redo
+      </button>
+      <span className="ml-auto text-xs text-slate-500 flex items-center gap-1">
+        {peakEditing.isRecomputing ? (
+          <><Loader2 className="w-3 h-3 animate-spin" /> Recomputing metrics...</>
+        ) : tool === 'add' ? 'Click a complex to add a beat'
+          : tool === 'delete' ? 'Click a marked beat to delete it'
+          : movingPeak === null ? 'Click a marked beat to pick it up' : 'Click the new position'}
+      </span>
+    </div>
+  );
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Standard 12-lead layout */}
+      {hasTwelveLeadData(signal) && (
+        <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+            <div className="flex items-center gap-2">
+              <Grid3x3 className="w-4 h-4 text-[#005EB8]" />
+              <h3 className="font-semibold text-sm text-slate-700">12-Lead ECG</h3>
+            </div>
+            <span className="text-xs text-slate-400">25 mm/s • {gain} mm/mV • Rhythm strip: {leadName || 'II'}</span>
+          </div>
+          <div className="p-3">
+            <TwelveLeadGrid signal={signal} rhythmLead={leadName} gain={gain} />
+          </div>
+        </div>
+      )}
+
       {/* ECG Waveform with R-peak Markers */}
       <ChartContainer 
-        title="ECG Signal (Lead II)" 
-        subtitle={`${peaks.length} R-peaks detected`}
+        title={leadName ? `ECG Signal (Lead ${leadName})` : 'ECG Signal'} 
+        subtitle={peakSubtitle}
         icon={Activity} 
         color="text-[#005EB8]"
+        actions={waveformActions}
+        toolbar={editToolbar}
       >
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+        <ResponsiveContainer width="100%" height="100%" className={editingActive ? 'cursor-crosshair' : undefined}>
+          <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }} onClick={handleChartClick}>
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
             <XAxis dataKey="time" hide padding={{ left: 20 }}/>
-            <YAxis domain={['auto', 'auto']} hide />
+            <YAxis domain={[-halfRangeMv, halfRangeMv]} allowDataOverflow hide />
             <Tooltip 
               contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
               labelStyle={{ color: '#64748b' }}
@@ -105,14 +302,24 @@ const ECGDisplay: React.FC<ECGDisplayProps> = ({ data }) => {
               dataKey="clean" 
               stroke="#005EB8" 
               strokeWidth={1.5} 
-              isAnimationActive={true}
+              isAnimationActive={!editingActive}
               name="clean"
               dot={(props) => {
                  const { cx, cy, index } = props;
-                 if (data[index]?.isPeak) {
+                 const sample = windowStart + index;
+                 if (visiblePeaks.has(sample)) {
+                   const picked = sample === movingPeak;
+                   const fill = picked ? '#F59E0B' : matchedPeaks.has(sample) ? MATCH_COLORS.tp : MATCH_COLORS.fp;
                    return (
                      <g key={index}>
-                       <circle cx={cx} cy={cy} r={4} fill="#EF4444" stroke="white" strokeWidth={1.5} />
+                       <circle cx={cx} cy={cy} r={picked ? 6 : 4} fill={fill} stroke="white" strokeWidth={1.5} />
+                     </g>
+                   );
+                 }
+                 if (missedBeats.has(sample)) {
+                   return (
+                     <g key={index}>
+                       <circle cx={cx} cy={cy} r={5} fill="none" stroke={MATCH_COLORS.fn} strokeWidth={2} />
                      </g>
                    );
                  }
@@ -122,6 +329,13 @@ const ECGDisplay: React.FC<ECGDisplayProps> = ({ data }) => {
             />
           </LineChart>
         </ResponsiveContainer>
+        {referenceMatch && (
+          <div className="absolute bottom-1 right-3 flex items-center gap-3 text-[10px] text-slate-500 bg-white/80 rounded px-1.5 py-0.5 pointer-events-none">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: MATCH_COLORS.tp }} /> TP {referenceMatch.tp}</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ background: MATCH_COLORS.fp }} /> FP {referenceMatch.fp}</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full border-2" style={{ borderColor: MATCH_COLORS.fn }} /> FN {referenceMatch.fn}</span>
+          </div>
+        )}
       </ChartContainer>
 
       {/* R-R Interval Tachogram */}
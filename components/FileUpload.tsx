@@ -3,16 +3,38 @@
  */
 
 import React, { useRef, useState } from 'react';
-import { UploadCloud, CheckCircle2, Loader2 } from 'lucide-react';
+import { UploadCloud, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import {
+  detectFileFormat,
+  groupRecordFiles,
+  previewCSV,
+  type CSVImportMapping,
+  type CSVPreview
+} from '../services/dataParser';
+import { loadCSVMapping, saveCSVMapping } from '../services/csvMappingStore';
+import CSVImportWizard from './CSVImportWizard';
 
 interface FileUploadProps {
-  onFileSelected: (file: File) => Promise<void>;
+  onFileSelected: (file: File, companionFiles: File[], csvMapping?: CSVImportMapping) => Promise<void>;
   isProcessing: boolean;
+  /** Cancel the running analysis; dropping another file also replaces it. */
+  onCancel?: () => void;
+  /** Rate suggested in the CSV import wizard when the file has no time column. */
+  defaultSampleRate?: number;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, isProcessing }) => {
+interface PendingCSVImport {
+  file: File;
+  companions: File[];
+  preview: CSVPreview;
+  mapping: CSVImportMapping;
+  remembered: boolean;
+}
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, isProcessing, onCancel, defaultSampleRate }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pendingCSV, setPendingCSV] = useState<PendingCSVImport | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -30,32 +52,55 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, isProcessing })
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      await processFile(file);
+      await processFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      await processFile(file);
+      await processFiles(Array.from(e.target.files));
     }
   };
 
-  const processFile = async (file: File) => {
-    console.log('[FileUpload] Selected file:', file.name, file.type, file.size);
-    
-    const validExtensions = ['.csv', '.xml', '.txt'];
-    const fileName = file.name.toLowerCase();
-    const isValid = validExtensions.some(ext => fileName.endsWith(ext));
-    
-    if (!isValid) {
-      alert(`Unsupported file format. Please upload ${validExtensions.join(', ')} files.`);
+  const processFiles = async (files: File[]) => {
+    const { primary: file, companions } = groupRecordFiles(files);
+    console.log('[FileUpload] Selected file:', file.name, file.type, file.size, `(+${companions.length} companion files)`);
+
+    // Format is detected from file content by the parser; WFDB records need their header
+    if (file.name.toLowerCase().endsWith('.dat')) {
+      alert('WFDB signal files must be selected together with their .hea header file.');
+      return;
+    }
+
+    // Delimited text goes through the import wizard so columns and units are confirmed
+    if ((await detectFileFormat(file)) === 'csv') {
+      try {
+        const preview = await previewCSV(file, undefined, defaultSampleRate);
+        const remembered = loadCSVMapping(preview.layoutKey);
+        setPendingCSV({
+          file,
+          companions,
+          preview,
+          mapping: remembered || preview.suggested,
+          remembered: !!remembered
+        });
+      } catch (error) {
+        alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
       return;
     }
 
     setSelectedFile(file);
-    await onFileSelected(file);
+    await onFileSelected(file, companions);
+  };
+
+  const handleCSVConfirm = async (mapping: CSVImportMapping) => {
+    if (!pendingCSV) return;
+    const { file, companions, preview } = pendingCSV;
+    saveCSVMapping(preview.layoutKey, mapping);
+    setPendingCSV(null);
+    setSelectedFile(file);
+    await onFileSelected(file, companions, mapping);
   };
 
   const handleClick = () => {
@@ -65,66 +110,93 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, isProcessing })
   };
 
   return (
-    <div 
-      className={`relative w-full h-40 rounded-xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center cursor-pointer overflow-hidden
-        ${isDragging 
-          ? 'border-[#005EB8] bg-blue-50/50' 
-          : 'border-slate-300 bg-white hover:border-[#005EB8] hover:bg-slate-50'
-        }
-        ${isProcessing ? 'pointer-events-none' : ''}
-      `}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      onClick={handleClick}
-    >
-      <input 
-        type="file" 
-        ref={fileInputRef} 
-        onChange={handleFileInput} 
-        className="hidden" 
-        accept=".csv,.json,.xml,.txt"
-      />
-      
-      {isProcessing ? (
-        <div className="flex flex-col items-center animate-pulse">
-          <Loader2 className="w-10 h-10 text-[#005EB8] animate-spin mb-3" />
-          <p className="text-sm font-medium text-slate-600">
-            Processing {selectedFile?.name || 'ECG data'}...
-          </p>
-          <p className="text-xs text-slate-500 mt-1">
-            Running client-side signal analysis
-          </p>
-        </div>
-      ) : selectedFile ? (
-        <div className="flex flex-col items-center">
-          <div className="p-3 rounded-full mb-3 bg-green-100">
-            <CheckCircle2 className="w-6 h-6 text-green-600" />
+    <>
+      <div 
+        className={`relative w-full h-40 rounded-xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center cursor-pointer overflow-hidden
+          ${isDragging 
+            ? 'border-[#005EB8] bg-blue-50/50' 
+            : 'border-slate-300 bg-white hover:border-[#005EB8] hover:bg-slate-50'
+          }
+          ${isProcessing ? 'cursor-default' : ''}
+        `}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={handleClick}
+      >
+        <input 
+          type="file" 
+          ref={fileInputRef} 
+          onChange={handleFileInput} 
+          className="hidden" 
+          accept=".csv,.json,.xml,.txt,.hea,.dat,.atr,.edf,.dcm,.scp"
+          multiple
+        />
+        
+        {isProcessing ? (
+          <div className="flex flex-col items-center">
+            <Loader2 className="w-10 h-10 text-[#005EB8] animate-spin mb-3" />
+            <p className="text-sm font-medium text-slate-600 animate-pulse">
+              Processing {selectedFile?.name || 'ECG data'}...
+            </p>
+            <p className="text-xs text-slate-500 mt-1">
+              Running client-side signal analysis
+            </p>
+            {onCancel && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCancel();
+                }}
+                className="mt-3 flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg px-3 py-1.5 hover:bg-slate-50 hover:text-red-600"
+              >
+                <XCircle className="w-3.5 h-3.5" />
+                Cancel
+              </button>
+            )}
           </div>
-          <p className="text-slate-700 font-medium text-sm mb-1">
-            {selectedFile.name}
-          </p>
-          <p className="text-slate-400 text-xs">
-            {(selectedFile.size / 1024).toFixed(1)} KB • Click to select another file
-          </p>
-        </div>
-      ) : (
-        <>
-          <div className={`p-3 rounded-full mb-3 transition-colors ${isDragging ? 'bg-blue-100' : 'bg-slate-100'}`}>
-            <UploadCloud className={`w-6 h-6 ${isDragging ? 'text-[#005EB8]' : 'text-slate-400'}`} />
+        ) : selectedFile ? (
+          <div className="flex flex-col items-center">
+            <div className="p-3 rounded-full mb-3 bg-green-100">
+              <CheckCircle2 className="w-6 h-6 text-green-600" />
+            </div>
+            <p className="text-slate-700 font-medium text-sm mb-1">
+              {selectedFile.name}
+            </p>
+            <p className="text-slate-400 text-xs">
+              {(selectedFile.size / 1024).toFixed(1)} KB • Click to select another file
+            </p>
           </div>
-          <p className="text-slate-700 font-medium text-sm mb-1">
-            Drag and drop ECG data here
-          </p>
-          <p className="text-slate-400 text-xs px-4 text-center">
-            Supports CSV (MIT-BIH, generic), XML (Philips/GE)
-          </p>
-          <p className="text-slate-400 text-xs mt-1">
-            Data processed <span className="font-semibold text-green-600">client-side only</span> - never uploaded
-          </p>
-        </>
+        ) : (
+          <>
+            <div className={`p-3 rounded-full mb-3 transition-colors ${isDragging ? 'bg-blue-100' : 'bg-slate-100'}`}>
+              <UploadCloud className={`w-6 h-6 ${isDragging ? 'text-[#005EB8]' : 'text-slate-400'}`} />
+            </div>
+            <p className="text-slate-700 font-medium text-sm mb-1">
+              Drag and drop ECG data here
+            </p>
+            <p className="text-slate-400 text-xs px-4 text-center">
+              Supports CSV (MIT-BIH, generic), XML (Philips/GE, HL7 aECG), WFDB (.hea + .dat, optional .atr reference), EDF/EDF+, DICOM, SCP-ECG
+            </p>
+            <p className="text-slate-400 text-xs mt-1">
+              Data processed <span className="font-semibold text-green-600">client-side only</span> - never uploaded
+            </p>
+          </>
+        )}
+      </div>
+
+      {pendingCSV && (
+        <CSVImportWizard
+          fileName={pendingCSV.file.name}
+          preview={pendingCSV.preview}
+          initialMapping={pendingCSV.mapping}
+          remembered={pendingCSV.remembered}
+          onConfirm={handleCSVConfirm}
+          onCancel={() => setPendingCSV(null)}
+        />
       )}
-    </div>
+    </>
   );
 };
 
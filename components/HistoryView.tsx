@@ -0,0 +1,274 @@
+/**
+ * Stored analyses: searchable list, reopening into the dashboard, and per-subject trends of
+ * heart rate, QTc and HRV across scans.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { AlertCircle, FolderOpen, History, Loader2, Search, Trash2, TrendingUp } from 'lucide-react';
+import { deleteAnalysis, listAnalyses, type HistoryEntry } from '../services/historyStore';
+
+interface HistoryViewProps {
+  onOpen: (id: string) => void;
+}
+
+interface TrendSeries {
+  key: 'bpm' | 'qtc' | 'sdnn' | 'rmssd';
+  label: string;
+  color: string;
+}
+
+const TREND_CHARTS: { title: string; unit: string; series: TrendSeries[] }[] = [
+  { title: 'Heart Rate', unit: 'BPM', series: [{ key: 'bpm', label: 'HR', color: '#005EB8' }] },
+  { title: 'QTc', unit: 'ms', series: [{ key: 'qtc', label: 'QTc', color: '#9333ea' }] },
+  {
+    title: 'HRV',
+    unit: 'ms',
+    series: [
+      { key: 'sdnn', label: 'SDNN', color: '#10b981' },
+      { key: 'rmssd', label: 'RMSSD', color: '#f59e0b' }
+    ]
+  }
+];
+
+function formatNumber(value: number | undefined, digits = 0): string {
+  return value === undefined || !Number.isFinite(value) ? '—' : value.toFixed(digits);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function matchesQuery(entry: HistoryEntry, query: string): boolean {
+  if (!query) return true;
+  const haystack = [entry.subject, entry.fileInfo.name, entry.fileInfo.format, entry.metrics.rhythmStatus, formatDate(entry.timestamp)]
+    .join(' ')
+    .toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState<string | null>(null);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => entries.filter(entry => matchesQuery(entry, query.trim())), [entries, query]);
+
+  // Trends follow the chosen subject, or the most recent match of the search
+  const trendSubject = subject ?? filtered[0]?.subject ?? null;
+
+  const trendData = useMemo(() => entries
+    .filter(entry => entry.subject === trendSubject)
+    .map(entry => ({
+      timestamp: entry.timestamp,
+      bpm: entry.metrics.bpm,
+      qtc: entry.metrics.qtc ?? entry.metrics.qtcBazett,
+      sdnn: entry.metrics.sdnn,
+      rmssd: entry.metrics.rmssd
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp), [entries, trendSubject]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete the analysis of ${entry.fileInfo.name} from ${formatDate(entry.timestamp)}?`)) return;
+    try {
+      await deleteAnalysis(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-slate-400 gap-2">
+        <Loader2 className="w-5 h-5 animate-spin" /> Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto w-full">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-800">Historical Trends</h2>
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setSubject(null); }}
+            placeholder="Search patient, file, rhythm..."
+            className="text-sm bg-white text-slate-700 pl-8 pr-3 py-1.5 rounded-lg border border-slate-200 w-72 focus:outline-none focus:border-[#005EB8]"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-red-800">History unavailable</p>
+            <p className="text-xs text-red-700 mt-1">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 && !error ? (
+        <div className="flex items-center justify-center text-slate-400 flex-col gap-3 py-16">
+          <History className="w-10 h-10 text-slate-200" />
+          <p className="max-w-md text-center text-sm">
+            No analyses stored yet. Every completed scan is saved here on this device.
+          </p>
+        </div>
+      ) : (
+        <>
+          {trendSubject && (
+            <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+              <div className="px-5 py-3 border-b border-slate-100 flex items-center gap-2 bg-slate-50/50">
+                <TrendingUp className="w-4 h-4 text-emerald-600" />
+                <h3 className="font-semibold text-sm text-slate-700">{trendSubject}</h3>
+                <span className="text-xs text-slate-400">{trendData.length} scan{trendData.length === 1 ? '' : 's'}</span>
+              </div>
+              {trendData.length < 2 ? (
+                <p className="px-5 py-8 text-center text-xs text-slate-400">
+                  Trends appear once this patient or record has more than one stored scan.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4">
+                  {TREND_CHARTS.map(chart => (
+                    <div key={chart.title} className="h-48">
+                      <p className="text-xs font-semibold text-slate-500 mb-1">{chart.title} ({chart.unit})</p>
+                      <ResponsiveContainer width="100%" height="90%">
+                        <LineChart data={trendData} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                          <XAxis
+                            dataKey="timestamp"
+                            type="number"
+                            scale="time"
+                            domain={['dataMin', 'dataMax']}
+                            tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                            tick={{ fontSize: 10, fill: '#64748b' }}
+                          />
+                          <YAxis domain={['auto', 'auto']} tick={{ fontSize: 10, fill: '#64748b' }} width={45} />
+                          <Tooltip
+                            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)', fontSize: '12px' }}
+                            labelFormatter={(label) => formatDate(Number(label))}
+                            formatter={(value: number, name: string) => [`${value.toFixed(0)} ${chart.unit}`, name]}
+                          />
+                          {chart.series.map(series => (
+                            <Line
+                              key={series.key}
+                              type="monotone"
+                              dataKey={series.key}
+                              name={series.label}
+                              stroke={series.color}
+                              strokeWidth={2}
+                              dot={{ r: 3, fill: series.color }}
+                              connectNulls
+                              isAnimationActive={false}
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+              <h3 className="font-semibold text-sm text-slate-700">Stored Analyses</h3>
+              <span className="text-xs text-slate-500">
+                {filtered.length === entries.length ? `${entries.length} total` : `${filtered.length} of ${entries.length}`}
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-4 py-2 font-semibold text-left">Date</th>
+                    <th className="px-4 py-2 font-semibold text-left">Patient / Record</th>
+                    <th className="px-4 py-2 font-semibold text-left">File</th>
+                    <th className="px-4 py-2 font-semibold text-right">HR (BPM)</th>
+                    <th className="px-4 py-2 font-semibold text-right">QTc (ms)</th>
+                    <th className="px-4 py-2 font-semibold text-right">SDNN (ms)</th>
+                    <th className="px-4 py-2 font-semibold text-left">Rhythm</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-700">
+                  {filtered.map(entry => (
+                    <tr key={entry.id} className={`hover:bg-slate-50 ${entry.subject === trendSubject ? 'bg-blue-50/40' : ''}`}>
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-500">{formatDate(entry.timestamp)}</td>
+                      <td className="px-4 py-2">
+                        <button
+                          onClick={() => setSubject(entry.subject)}
+                          className="font-medium text-[#005EB8] hover:underline truncate max-w-[12rem]"
+                          title="Show trends for this patient or record"
+                        >
+                          {entry.subject}
+                        </button>
+                      </td>
+                      <td className="px-4 py-2 truncate max-w-[14rem]" title={entry.fileInfo.name}>{entry.fileInfo.name}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(entry.metrics.bpm)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(entry.metrics.qtc ?? entry.metrics.qtcBazett)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(entry.metrics.sdnn)}</td>
+                      <td className={`px-4 py-2 ${entry.metrics.rhythmStatus === 'Normal Sinus Rhythm' ? 'text-green-700' : 'text-amber-700'}`}>
+                        {entry.metrics.rhythmStatus}
+                        {entry.metrics.manuallyOverRead && (
+                          <span className="ml-1.5 text-[10px] font-medium text-[#005EB8]" title="R-peaks corrected by hand">over-read</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => onOpen(entry.id)}
+                            className="flex items-center gap-1 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-2 py-1 hover:bg-blue-50"
+                          >
+                            <FolderOpen className="w-3.5 h-3.5" /> Open
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry)}
+                            className="p-1 text-slate-400 hover:text-red-600"
+                            title="Delete analysis"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {filtered.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-6 text-center text-slate-400">No analyses match "{query}"</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,244 @@
+/**
+ * Data privacy audit: live log of every network request made by the page and its workers,
+ * an inventory of data stored on this device, a purge of all of it, and a JSON report.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Database, Download, Globe, Loader2, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import {
+  getNetworkLog,
+  isLocalOrSameOrigin,
+  subscribeNetworkLog,
+  summarizeNetworkLog,
+  type NetworkRequestRecord
+} from '../services/networkMonitor';
+import { buildAuditReport, listLocalData, purgeAllLocalData, type LocalDataInventory } from '../services/privacyAudit';
+
+interface PrivacyViewProps {
+  /** Called after local data is purged so in-memory state can be reset too. */
+  onPurged: () => void;
+}
+
+const AREA_LABELS: Record<string, string> = {
+  localStorage: 'Local Storage',
+  sessionStorage: 'Session Storage',
+  indexedDB: 'IndexedDB',
+  cacheStorage: 'Cache Storage',
+  serviceWorker: 'Service Worker'
+};
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) return '—';
+  if (bytes < 0) return 'unknown';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function displayUrl(url: string): string {
+  if (url.startsWith('data:') || url.startsWith('blob:')) return `${url.slice(0, 40)}${url.length > 40 ? '…' : ''}`;
+  return isLocalOrSameOrigin(url) ? url.slice(location.origin.length) || '/' : url;
+}
+
+const PrivacyView: React.FC<PrivacyViewProps> = ({ onPurged }) => {
+  const [requests, setRequests] = useState<NetworkRequestRecord[]>(getNetworkLog);
+  const [inventory, setInventory] = useState<LocalDataInventory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => subscribeNetworkLog(setRequests), []);
+
+  const refreshInventory = useCallback(() => {
+    listLocalData()
+      .then(setInventory)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  useEffect(refreshInventory, [refreshInventory]);
+
+  const summary = useMemo(() => summarizeNetworkLog(requests), [requests]);
+
+  const handlePurge = async () => {
+    if (!window.confirm(
+      'Delete all data this app keeps on this device? This removes the analysis history, settings, ' +
+      'saved CSV layouts and the offline copy of the app and Python runtime, which will be downloaded again on next use.'
+    )) return;
+
+    setIsPurging(true);
+    try {
+      await purgeAllLocalData();
+      onPurged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPurging(false);
+      refreshInventory();
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const report = await buildAuditReport();
+      const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ecg-privacy-audit-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto w-full">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-800">Data Privacy Audit</h2>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1.5 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-3 py-1.5 hover:bg-blue-50"
+        >
+          <Download className="w-3.5 h-3.5" /> Export report
+        </button>
+      </div>
+
+      {summary.noEgress ? (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4 flex items-start gap-3">
+          <ShieldCheck className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-green-800">No data has left this device</p>
+            <p className="text-xs text-green-700 mt-1">
+              All {summary.total} request{summary.total === 1 ? '' : 's'} since this page loaded went to {location.origin} or
+              stayed in the browser, and none carried a request body. Recordings and results are processed and stored locally.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
+          <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-red-800">Possible data egress</p>
+            <p className="text-xs text-red-700 mt-1">
+              {summary.crossOrigin.length} request{summary.crossOrigin.length === 1 ? '' : 's'} to another origin
+              and {summary.withBody.length} with a request body. Review the highlighted rows below.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-red-800">Audit error</p>
+            <p className="text-xs text-red-700 mt-1">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-2">
+            <Globe className="w-4 h-4 text-[#005EB8]" />
+            <h3 className="font-semibold text-sm text-slate-700">Network Requests</h3>
+          </div>
+          <span className="text-xs text-slate-500">{requests.length} recorded, page and workers</span>
+        </div>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-semibold text-left">Time</th>
+                <th className="px-4 py-2 font-semibold text-left">Context</th>
+                <th className="px-4 py-2 font-semibold text-left">Type</th>
+                <th className="px-4 py-2 font-semibold text-left">Method</th>
+                <th className="px-4 py-2 font-semibold text-left">URL</th>
+                <th className="px-4 py-2 font-semibold text-right">Sent</th>
+                <th className="px-4 py-2 font-semibold text-right">Received</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {requests.map((request, idx) => {
+                const flagged = !isLocalOrSameOrigin(request.url) || request.requestBytes !== 0;
+                return (
+                  <tr key={idx} className={flagged ? 'bg-red-50 text-red-800' : 'hover:bg-slate-50'}>
+                    <td className="px-4 py-1.5 whitespace-nowrap text-slate-500">{new Date(request.timestamp).toLocaleTimeString()}</td>
+                    <td className="px-4 py-1.5 whitespace-nowrap">{request.context}</td>
+                    <td className="px-4 py-1.5">{request.initiator && request.source === 'resource' ? request.initiator : request.source}</td>
+                    <td className="px-4 py-1.5">{request.method}</td>
+                    <td className="px-4 py-1.5 font-mono truncate max-w-[28rem]" title={request.url}>{displayUrl(request.url)}</td>
+                    <td className="px-4 py-1.5 text-right">{formatBytes(request.requestBytes)}</td>
+                    <td className="px-4 py-1.5 text-right">
+                      {request.transferSize === 0 ? 'cache' : formatBytes(request.transferSize)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-2">
+            <Database className="w-4 h-4 text-[#005EB8]" />
+            <h3 className="font-semibold text-sm text-slate-700">Data Stored on This Device</h3>
+          </div>
+          {inventory?.usageBytes !== undefined && (
+            <span className="text-xs text-slate-500">
+              {formatBytes(inventory.usageBytes)} used{inventory.quotaBytes ? ` of ${formatBytes(inventory.quotaBytes)} available` : ''}
+            </span>
+          )}
+        </div>
+        {!inventory ? (
+          <div className="px-5 py-6 flex items-center justify-center text-slate-400 gap-2 text-xs">
+            <Loader2 className="w-4 h-4 animate-spin" /> Reading local storage...
+          </div>
+        ) : inventory.items.length === 0 ? (
+          <p className="px-5 py-6 text-center text-xs text-slate-400">Nothing is stored on this device.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-4 py-2 font-semibold text-left">Storage</th>
+                <th className="px-4 py-2 font-semibold text-left">Name</th>
+                <th className="px-4 py-2 font-semibold text-left">Contents</th>
+                <th className="px-4 py-2 font-semibold text-right">Size</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {inventory.items.map(item => (
+                <tr key={`${item.area}:${item.name}`}>
+                  <td className="px-4 py-2 whitespace-nowrap">{AREA_LABELS[item.area]}</td>
+                  <td className="px-4 py-2 font-mono truncate max-w-[16rem]" title={item.name}>{item.name}</td>
+                  <td className="px-4 py-2">
+                    {item.description}
+                    {item.patientData && <span className="ml-2 text-amber-700 font-medium">patient data</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right">{formatBytes(item.bytes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="px-5 py-3 border-t border-slate-100 flex items-center justify-between">
+          <p className="text-xs text-slate-500">
+            Removes history, settings, CSV layouts and offline caches. Files you loaded are never copied elsewhere.
+          </p>
+          <button
+            onClick={handlePurge}
+            disabled={isPurging}
+            className="flex items-center gap-1.5 text-xs font-medium text-red-700 border border-red-300 rounded-lg px-3 py-1.5 hover:bg-red-50 disabled:opacity-50"
+          >
+            {isPurging ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+            Purge all local data
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default PrivacyView;
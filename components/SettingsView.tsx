@@ -0,0 +1,215 @@
+/**
+ * Settings page: import defaults, filtering, display scale, clinical thresholds, reference matching
+ * and backend.
+ * Changes are saved to localStorage as they are made.
+ */
+
+import React from 'react';
+import { Cpu, FileInput, Gauge, Monitor, RotateCcw, Stethoscope, Target } from 'lucide-react';
+import type { AlertThresholds, ProcessingEngine, QTcFormula, UserSettings } from '../types';
+import { QTC_FORMULA_LABELS } from '../services/clinicalRules';
+import { defaultPoolSize } from '../services/ecgProcessor';
+
+interface SettingsViewProps {
+  settings: UserSettings;
+  onChange: (settings: UserSettings) => void;
+  onReset: () => void;
+}
+
+const SAMPLE_RATES = [125, 128, 250, 256, 360, 500, 1000];
+const DISPLAY_DURATIONS = [10, 30, 60];
+const DISPLAY_GAINS = [5, 10, 20];
+const MAX_POOL_SIZE = 8;
+
+const THRESHOLD_FIELDS: { key: keyof AlertThresholds; label: string; unit: string; hint: string }[] = [
+  { key: 'bradycardiaBpm', label: 'Bradycardia below', unit: 'BPM', hint: 'Mean heart rate' },
+  { key: 'tachycardiaBpm', label: 'Tachycardia above', unit: 'BPM', hint: 'Mean heart rate' },
+  { key: 'wideQrsMs', label: 'Wide QRS above', unit: 'ms', hint: 'Mean QRS duration' },
+  { key: 'prolongedQtcMs', label: 'Prolonged QTc above', unit: 'ms', hint: 'Raises a QTc alert' },
+  { key: 'highRiskQtcMs', label: 'High-risk QTc from', unit: 'ms', hint: 'Alert is marked high risk' },
+  { key: 'lowSdnnMs', label: 'Low HRV below', unit: 'ms', hint: 'SDNN' }
+];
+
+const selectClass = 'text-sm bg-white text-slate-700 px-2 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:border-[#005EB8]';
+
+const Section: React.FC<{ title: string; icon: any; children: React.ReactNode }> = ({ title, icon: Icon, children }) => (
+  <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+    <div className="px-5 py-3 border-b border-slate-100 flex items-center gap-2 bg-slate-50/50">
+      <Icon className="w-4 h-4 text-[#005EB8]" />
+      <h3 className="font-semibold text-sm text-slate-700">{title}</h3>
+    </div>
+    <div className="divide-y divide-slate-100">{children}</div>
+  </section>
+);
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="px-5 py-3 flex items-center justify-between gap-4">
+    <div>
+      <p className="text-sm font-medium text-slate-700">{label}</p>
+      {hint && <p className="text-xs text-slate-400 mt-0.5">{hint}</p>}
+    </div>
+    {children}
+  </div>
+);
+
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, onChange, onReset }) => {
+  const update = (changes: Partial<UserSettings>) => onChange({ ...settings, ...changes });
+
+  const updateThreshold = (key: keyof AlertThresholds, value: string) => {
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number) || number <= 0) return;
+    update({ alertThresholds: { ...settings.alertThresholds, [key]: number } });
+  };
+
+  const updateTolerance = (value: string) => {
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number) || number <= 0) return;
+    update({ referenceToleranceMs: number });
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto w-full">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Settings</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Saved in this browser. Processing settings apply to the next analysis.
+          </p>
+        </div>
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg px-3 py-1.5 hover:bg-slate-50"
+        >
+          <RotateCcw className="w-3.5 h-3.5" /> Restore defaults
+        </button>
+      </div>
+
+      <Section title="Data Import" icon={FileInput}>
+        <Field label="Default sample rate" hint="Used for CSV files without a time column or declared rate">
+          <select
+            value={settings.defaultSampleRate ?? 'auto'}
+            onChange={(e) => update({ defaultSampleRate: e.target.value === 'auto' ? null : Number(e.target.value) })}
+            className={selectClass}
+          >
+            <option value="auto">Format default (360 Hz MIT-BIH, 250 Hz other)</option>
+            {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+          </select>
+        </Field>
+      </Section>
+
+      <Section title="Signal Processing" icon={Gauge}>
+        <Field label="Mains frequency" hint="Notch filter frequency for presets with a notch">
+          <select
+            value={settings.mainsFrequency}
+            onChange={(e) => update({ mainsFrequency: Number(e.target.value) as 50 | 60 })}
+            className={selectClass}
+          >
+            <option value={50}>50 Hz (Europe, Asia, Africa)</option>
+            <option value={60}>60 Hz (Americas)</option>
+          </select>
+        </Field>
+        <Field label="Verbose processing logs" hint="Per-stage pipeline details in the browser console">
+          <input
+            type="checkbox"
+            checked={settings.verbose}
+            onChange={(e) => update({ verbose: e.target.checked })}
+            className="w-4 h-4 accent-[#005EB8]"
+          />
+        </Field>
+      </Section>
+
+      <Section title="Display" icon={Monitor}>
+        <Field label="Waveform duration" hint="Seconds of signal drawn in the waveform chart">
+          <select
+            value={settings.displaySeconds}
+            onChange={(e) => update({ displaySeconds: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {DISPLAY_DURATIONS.map(seconds => <option key={seconds} value={seconds}>{seconds} s</option>)}
+          </select>
+        </Field>
+        <Field label="Gain" hint="Amplitude scale of the waveform chart and 12-lead grid">
+          <select
+            value={settings.displayGain}
+            onChange={(e) => update({ displayGain: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {DISPLAY_GAINS.map(gain => <option key={gain} value={gain}>{gain} mm/mV</option>)}
+          </select>
+        </Field>
+      </Section>
+
+      <Section title="Clinical Interpretation" icon={Stethoscope}>
+        <Field label="QTc formula" hint="Heart-rate correction of the measured QT interval">
+          <select
+            value={settings.qtcFormula}
+            onChange={(e) => update({ qtcFormula: e.target.value as QTcFormula })}
+            className={selectClass}
+          >
+            {Object.entries(QTC_FORMULA_LABELS).map(([formula, label]) => (
+              <option key={formula} value={formula}>{label}</option>
+            ))}
+          </select>
+        </Field>
+        {THRESHOLD_FIELDS.map(field => (
+          <Field key={field.key} label={field.label} hint={field.hint}>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                defaultValue={settings.alertThresholds[field.key]}
+                key={settings.alertThresholds[field.key]}
+                onBlur={(e) => updateThreshold(field.key, e.target.value)}
+                className={`${selectClass} w-24 text-right`}
+              />
+              <span className="text-xs text-slate-500 w-8">{field.unit}</span>
+            </div>
+          </Field>
+        ))}
+      </Section>
+
+      <Section title="Detector Validation" icon={Target}>
+        <Field label="Matching tolerance" hint="A detected R-peak this close to a reference beat counts as a true positive">
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              defaultValue={settings.referenceToleranceMs}
+              key={settings.referenceToleranceMs}
+              onBlur={(e) => updateTolerance(e.target.value)}
+              className={`${selectClass} w-24 text-right`}
+            />
+            <span className="text-xs text-slate-500 w-8">ms</span>
+          </div>
+        </Field>
+      </Section>
+
+      <Section title="Processing Backend" icon={Cpu}>
+        <Field label="Engine" hint="Python (SciPy) in Pyodide, or the TypeScript port without a runtime download">
+          <select
+            value={settings.engine}
+            onChange={(e) => update({ engine: e.target.value as ProcessingEngine })}
+            className={selectClass}
+          >
+            <option value="pyodide">Python (SciPy)</option>
+            <option value="typescript">TypeScript</option>
+          </select>
+        </Field>
+        <Field label="Workers per engine" hint="Recordings processed in parallel; each Pyodide worker loads its own runtime">
+          <select
+            value={settings.workerPoolSize ?? 'auto'}
+            onChange={(e) => update({ workerPoolSize: e.target.value === 'auto' ? null : Number(e.target.value) })}
+            className={selectClass}
+          >
+            <option value="auto">Automatic ({defaultPoolSize()})</option>
+            {Array.from({ length: MAX_POOL_SIZE }, (_, i) => i + 1).map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </Field>
+      </Section>
+    </div>
+  );
+};
+
+export default SettingsView;
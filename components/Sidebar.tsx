@@ -5,7 +5,9 @@
 import React from 'react';
 import { 
   Activity, 
+  ClipboardCheck,
   History, 
+  Layers,
   Settings, 
   ShieldCheck, 
   Stethoscope 
@@ -20,7 +22,9 @@ interface SidebarProps {
 const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
   const navItems = [
     { id: AppView.DASHBOARD, label: 'New Patient Scan', icon: Activity },
+    { id: AppView.BATCH, label: 'Batch Analysis', icon: Layers },
     { id: AppView.HISTORY, label: 'Historical Trends', icon: History },
+    { id: AppView.VALIDATION, label: 'Detector Validation', icon: ClipboardCheck },
     { id: AppView.SETTINGS, label: 'Settings', icon: Settings },
     { id: AppView.PRIVACY, label: 'Data Privacy Audit', icon: ShieldCheck },
   ];
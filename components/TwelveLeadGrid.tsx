@@ -0,0 +1,129 @@
+/**
+ * Standard 12-lead ECG layout: 3x4 lead grid (2.5 s per column) with a 10 s rhythm strip.
+ */
+
+import React from 'react';
+import { ECGSignal } from '../types';
+
+interface TwelveLeadGridProps {
+  signal: ECGSignal;
+  rhythmLead?: string;
+  /** Vertical scale in mm/mV (standard 10). */
+  gain?: number;
+}
+
+export const TWELVE_LEAD_LAYOUT = [
+  ['I', 'aVR', 'V1', 'V4'],
+  ['II', 'aVL', 'V2', 'V5'],
+  ['III', 'aVF', 'V3', 'V6']
+];
+
+// Paper speed: 25 mm/s; the vertical scale is the configurable gain
+const MM_PER_SECOND = 25;
+const COLUMN_SECONDS = 2.5;
+const ROW_HEIGHT_MM = 25;
+const WIDTH_MM = COLUMN_SECONDS * 4 * MM_PER_SECOND;
+const HEIGHT_MM = ROW_HEIGHT_MM * 4;
+
+/**
+ * Check whether the signal carries enough standard leads to fill the grid.
+ */
+export function hasTwelveLeadData(signal: ECGSignal): boolean {
+  const present = TWELVE_LEAD_LAYOUT.flat().filter(name => name in signal.leads);
+  return present.length >= 6;
+}
+
+/**
+ * Build an SVG path for one lead over a time window, positioned at a cell origin.
+ */
+function tracePath(
+  signal: ECGSignal,
+  lead: string,
+  startTime: number,
+  endTime: number,
+  originX: number,
+  baselineY: number,
+  mmPerMv: number
+): string {
+  const samples = signal.leads[lead];
+  if (!samples) return '';
+
+  const first = Math.ceil(startTime * signal.sampleRate);
+  const last = Math.min(samples.length, Math.ceil(endTime * signal.sampleRate));
+  let path = '';
+  for (let i = first; i < last; i++) {
+    const x = originX + (i / signal.sampleRate - startTime) * MM_PER_SECOND;
+    const y = baselineY - samples[i] * mmPerMv;
+    path += `${path ? 'L' : 'M'}${x.toFixed(2)},${y.toFixed(2)}`;
+  }
+  return path;
+}
+
+const TwelveLeadGrid: React.FC<TwelveLeadGridProps> = ({ signal, rhythmLead = 'II', gain = 10 }) => {
+  const stripLead = rhythmLead in signal.leads ? rhythmLead : Object.keys(signal.leads)[0];
+
+  const minorLines: React.ReactNode[] = [];
+  for (let x = 0; x <= WIDTH_MM; x++) {
+    minorLines.push(
+      <line key={`vx${x}`} x1={x} y1={0} x2={x} y2={HEIGHT_MM}
+        stroke={x % 5 === 0 ? '#fca5a5' : '#fee2e2'} strokeWidth={x % 5 === 0 ? 0.2 : 0.1} />
+    );
+  }
+  for (let y = 0; y <= HEIGHT_MM; y++) {
+    minorLines.push(
+      <line key={`hy${y}`} x1={0} y1={y} x2={WIDTH_MM} y2={y}
+        stroke={y % 5 === 0 ? '#fca5a5' : '#fee2e2'} strokeWidth={y % 5 === 0 ? 0.2 : 0.1} />
+    );
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH_MM} ${HEIGHT_MM}`}
+      className="w-full h-auto bg-white"
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {minorLines}
+
+      {TWELVE_LEAD_LAYOUT.map((row, r) =>
+        row.map((lead, c) => {
+          const originX = c * COLUMN_SECONDS * MM_PER_SECOND;
+          const baselineY = r * ROW_HEIGHT_MM + ROW_HEIGHT_MM / 2;
+          const windowStart = c * COLUMN_SECONDS;
+
+          return (
+            <g key={lead}>
+              {c > 0 && (
+                <line x1={originX} y1={baselineY - 3} x2={originX} y2={baselineY + 3} stroke="#334155" strokeWidth={0.3} />
+              )}
+              <text x={originX + 1} y={r * ROW_HEIGHT_MM + 4} fontSize={3} fill="#334155" fontWeight={600}>
+                {lead}
+              </text>
+              <path
+                d={tracePath(signal, lead, windowStart, windowStart + COLUMN_SECONDS, originX, baselineY, gain)}
+                fill="none"
+                stroke="#0f172a"
+                strokeWidth={0.3}
+              />
+            </g>
+          );
+        })
+      )}
+
+      {stripLead && (
+        <g>
+          <text x={1} y={3 * ROW_HEIGHT_MM + 4} fontSize={3} fill="#334155" fontWeight={600}>
+            {stripLead}
+          </text>
+          <path
+            d={tracePath(signal, stripLead, 0, COLUMN_SECONDS * 4, 0, 3 * ROW_HEIGHT_MM + ROW_HEIGHT_MM / 2, gain)}
+            fill="none"
+            stroke="#0f172a"
+            strokeWidth={0.3}
+          />
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default TwelveLeadGrid;
@@ -0,0 +1,252 @@
+/**
+ * Validation view: scores the detector against local annotated WFDB records (e.g. a folder of
+ * MIT-BIH Arrhythmia Database files) with the engine the app ships, per record and gross.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, ClipboardCheck, Download, FolderOpen, Loader2, UploadCloud, XCircle } from 'lucide-react';
+import type { ProcessingConfig, ProcessingEngine } from '../types';
+import { readDroppedFiles } from '../services/batchAnalysis';
+import {
+  groupValidationRecords,
+  grossScore,
+  runValidation,
+  validationToCSV,
+  type ValidationItem
+} from '../services/validationSuite';
+
+interface ValidationViewProps {
+  config: ProcessingConfig;
+  /** Matching tolerance from the settings. */
+  toleranceMs: number;
+}
+
+const STATUS_ICONS: Record<ValidationItem['status'], React.ReactNode> = {
+  queued: <span className="w-4 h-4 rounded-full border-2 border-slate-200" />,
+  running: <Loader2 className="w-4 h-4 text-[#005EB8] animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  failed: <AlertTriangle className="w-4 h-4 text-red-500" />,
+  cancelled: <XCircle className="w-4 h-4 text-slate-400" />
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const ValidationView: React.FC<ValidationViewProps> = ({ config, toleranceMs }) => {
+  const [items, setItems] = useState<ValidationItem[]>([]);
+  const [engine, setEngine] = useState<ProcessingEngine>(config.engine || 'pyodide');
+  // Engine and tolerance the shown results were produced with
+  const [run, setRun] = useState<{ engine: ProcessingEngine; toleranceMs: number } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Folder picking is not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startValidation = async (files: File[]) => {
+    if (isRunning || files.length === 0) return;
+
+    const records = groupValidationRecords(files);
+    if (records.length === 0) {
+      alert('No WFDB records found. Select the .hea, .dat and .atr files of each record.');
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setItems(records.map(r => ({ name: r.name, status: 'queued', progress: 0 })));
+    setRun({ engine, toleranceMs });
+    setIsRunning(true);
+
+    await runValidation(records, { ...config, engine, leadFusion: false, verbose: false }, toleranceMs, {
+      onItemUpdate: (index, item) => {
+        setItems(prev => prev.map((existing, i) => (i === index ? item : existing)));
+      }
+    }, controller.signal);
+
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    await startValidation(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const files: File[] = Array.from(e.target.files);
+      e.target.value = '';
+      await startValidation(files);
+    }
+  };
+
+  const handleExport = () => {
+    if (!run) return;
+    const blob = new Blob([validationToCSV(items, run.engine, run.toleranceMs)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ecg-validation-${run.engine}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const gross = grossScore(items);
+  const done = items.filter(i => i.status === 'done').length;
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto w-full">
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-slate-800">Detector Validation</h2>
+          <div className="flex items-center gap-2">
+            {items.length > 0 && (
+              <span className="text-xs text-slate-500">{done} of {items.length} scored</span>
+            )}
+            <select
+              value={engine}
+              onChange={(e) => setEngine(e.target.value as ProcessingEngine)}
+              disabled={isRunning}
+              className="text-xs bg-white text-slate-600 px-2 py-1 rounded border border-slate-200"
+            >
+              <option value="pyodide">Engine: Python (SciPy)</option>
+              <option value="typescript">Engine: TypeScript</option>
+            </select>
+            <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded border border-slate-200">
+              Tolerance: ±{toleranceMs} ms
+            </span>
+          </div>
+        </div>
+
+        <div
+          className={`w-full h-40 rounded-xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center gap-3
+            ${isDragging ? 'border-[#005EB8] bg-blue-50/50' : 'border-slate-300 bg-white'}
+            ${isRunning ? 'opacity-60 pointer-events-none' : ''}
+          `}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+          onDrop={handleDrop}
+        >
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInput} accept=".hea,.dat,.atr" />
+          <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleInput} />
+
+          <div className="flex items-center gap-2 text-slate-700 text-sm font-medium">
+            <ClipboardCheck className="w-5 h-5 text-slate-400" />
+            Drop annotated records or a folder here
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-xs font-medium bg-[#005EB8] text-white rounded-lg px-3 py-1.5 hover:bg-[#004a93]"
+            >
+              <UploadCloud className="w-3.5 h-3.5" /> Select files
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-3 py-1.5 hover:bg-blue-50"
+            >
+              <FolderOpen className="w-3.5 h-3.5" /> Select folder
+            </button>
+          </div>
+          <p className="text-slate-400 text-xs">
+            Each WFDB record needs its .hea, .dat and .atr files • MLII, otherwise the first lead, is analysed
+          </p>
+        </div>
+      </section>
+
+      {items.length > 0 && (
+        <section className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+            <h3 className="font-semibold text-sm text-slate-700">Results</h3>
+            <div className="flex items-center gap-2">
+              {isRunning && (
+                <button
+                  onClick={() => controllerRef.current?.abort()}
+                  className="flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-lg px-3 py-1 hover:text-red-600"
+                >
+                  <XCircle className="w-3.5 h-3.5" /> Cancel
+                </button>
+              )}
+              <button
+                onClick={handleExport}
+                disabled={isRunning || done === 0}
+                className="flex items-center gap-1.5 text-xs font-medium text-[#005EB8] border border-[#005EB8] rounded-lg px-3 py-1 hover:bg-blue-50 disabled:opacity-50"
+              >
+                <Download className="w-3.5 h-3.5" /> Export CSV
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-4 py-2 font-semibold text-left">Record</th>
+                  <th className="px-4 py-2 font-semibold text-left">Lead</th>
+                  <th className="px-4 py-2 font-semibold text-right">Reference beats</th>
+                  <th className="px-4 py-2 font-semibold text-right">TP</th>
+                  <th className="px-4 py-2 font-semibold text-right">FP</th>
+                  <th className="px-4 py-2 font-semibold text-right">FN</th>
+                  <th className="px-4 py-2 font-semibold text-right">Sensitivity</th>
+                  <th className="px-4 py-2 font-semibold text-right">PPV</th>
+                  <th className="px-4 py-2 font-semibold text-right">F1</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-700">
+                {items.map((item, i) => (
+                  <tr key={i} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 font-medium">
+                      <span className="inline-flex items-center gap-2">{STATUS_ICONS[item.status]} {item.name}</span>
+                    </td>
+                    {item.score ? (
+                      <>
+                        <td className="px-4 py-2">{item.score.lead}</td>
+                        <td className="px-4 py-2 text-right">{item.score.referenceBeats}</td>
+                        <td className="px-4 py-2 text-right">{item.score.tp}</td>
+                        <td className="px-4 py-2 text-right">{item.score.fp}</td>
+                        <td className="px-4 py-2 text-right">{item.score.fn}</td>
+                        <td className="px-4 py-2 text-right">{formatPercent(item.score.sensitivity)}</td>
+                        <td className="px-4 py-2 text-right">{formatPercent(item.score.ppv)}</td>
+                        <td className="px-4 py-2 text-right">{formatPercent(item.score.f1)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={8} className={`px-4 py-2 truncate max-w-0 ${item.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`} title={item.error}>
+                        {item.status === 'failed' ? item.error
+                          : item.status === 'running' ? `${item.message} (${Math.round(item.progress)}%)`
+                          : item.status === 'queued' ? 'Queued' : item.message}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+              {gross.records > 0 && (
+                <tfoot className="bg-slate-50 font-bold text-slate-800 border-t border-slate-200">
+                  <tr>
+                    <td className="px-4 py-2">Gross ({gross.records} records)</td>
+                    <td className="px-4 py-2" />
+                    <td className="px-4 py-2 text-right">{gross.tp + gross.fn}</td>
+                    <td className="px-4 py-2 text-right">{gross.tp}</td>
+                    <td className="px-4 py-2 text-right">{gross.fp}</td>
+                    <td className="px-4 py-2 text-right">{gross.fn}</td>
+                    <td className="px-4 py-2 text-right">{formatPercent(gross.sensitivity)}</td>
+                    <td className="px-4 py-2 text-right">{formatPercent(gross.ppv)}</td>
+                    <td className="px-4 py-2 text-right">{formatPercent(gross.f1)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ValidationView;
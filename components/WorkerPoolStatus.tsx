@@ -0,0 +1,40 @@
+/**
+ * Compact indicator of the processing pool: one dot per worker, coloured by state.
+ */
+
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import type { PoolWorkerState, PoolWorkerStatus } from '../services/ecgProcessor';
+
+interface WorkerPoolStatusProps {
+  workers: PoolWorkerStatus[];
+}
+
+const STATE_STYLES: Record<PoolWorkerState, { dot: string; label: string }> = {
+  idle: { dot: 'bg-green-500', label: 'Idle' },
+  busy: { dot: 'bg-[#005EB8] animate-pulse', label: 'Busy' },
+  initializing: { dot: 'bg-amber-400 animate-pulse', label: 'Starting' },
+  uninitialized: { dot: 'bg-slate-300', label: 'Stopped' },
+  error: { dot: 'bg-red-500', label: 'Error' }
+};
+
+const WorkerPoolStatus: React.FC<WorkerPoolStatusProps> = ({ workers }) => {
+  if (workers.length === 0) return null;
+
+  const busy = workers.filter(w => w.state === 'busy').length;
+
+  return (
+    <div
+      className="flex items-center gap-1.5 text-xs bg-white text-slate-500 px-2 py-1 rounded border border-slate-200"
+      title={workers.map(w => `Worker ${w.id + 1}: ${STATE_STYLES[w.state].label}`).join('\n')}
+    >
+      <Cpu className="w-3.5 h-3.5 text-slate-400" />
+      {workers.map(w => (
+        <span key={w.id} className={`w-2 h-2 rounded-full ${STATE_STYLES[w.state].dot}`} />
+      ))}
+      <span>{busy}/{workers.length} busy</span>
+    </div>
+  );
+};
+
+export default WorkerPoolStatus;
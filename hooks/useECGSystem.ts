@@ -1,5 +1,5 @@
 /**
- * React hooks for ECG system initialization and file processing.
+ * React hooks for ECG system initialization, file processing and R-peak editing.
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
@@ -8,35 +8,65 @@ import {
   isECGSystemReady, 
   cleanupECGSystem,
   processECGFile,
+  getWorkerPoolStatus,
+  subscribeWorkerPoolStatus,
   type ProcessingCallbacks,
   type ECGServiceResult
 } from '../services/ecgService';
+import type { ProcessingConfig, ProcessingEngine } from '../types';
+import type { CSVImportMapping } from '../services/dataParser';
+import { setWorkerPoolSize, type PoolWorkerStatus } from '../services/ecgProcessor';
+import { getPyodideCacheStatus, type RuntimeSource } from '../services/offlineCache';
+import { isAbortError } from '../services/requestQueue';
+import {
+  createPeakHistory,
+  peaksEqual,
+  pushPeakEdit,
+  redoPeakEdit,
+  undoPeakEdit,
+  type PeakEditHistory
+} from '../services/peakEditor';
 
 interface ECGSystemState {
   isInitialized: boolean;
   isInitializing: boolean;
   initializationProgress: number;
   initializationStage: string;
+  runtimeSource: RuntimeSource | null;
   error: string | null;
 }
 
 /**
- * Initialize and manage Pyodide runtime lifecycle.
+ * Initialize and manage the processing engine lifecycle (Pyodide runtime by default).
+ * Changing `poolSize` (`null` for automatic) restarts the engine with the new number of workers.
  */
-export function useECGSystem() {
+export function useECGSystem(engine: ProcessingEngine = 'pyodide', poolSize: number | null = null) {
   const [state, setState] = useState<ECGSystemState>({
     isInitialized: false,
     isInitializing: false,
     initializationProgress: 0,
     initializationStage: 'Not started',
+    runtimeSource: null,
     error: null
   });
+  const [poolStatus, setPoolStatus] = useState<PoolWorkerStatus[]>([]);
 
   const isInitializingRef = useRef(false);
 
+  // Runs before the effects below so they create processors with the new size
+  useEffect(() => {
+    setWorkerPoolSize(poolSize);
+  }, [poolSize]);
+
+  // Per-worker busy/idle/initializing state of the engine's pool
+  useEffect(() => {
+    setPoolStatus(getWorkerPoolStatus(engine));
+    return subscribeWorkerPoolStatus(engine, setPoolStatus);
+  }, [engine, poolSize]);
+
   useEffect(() => {
     const initialize = async () => {
-      if (isInitializingRef.current || state.isInitialized) {
+      if (isInitializingRef.current) {
         return;
       }
 
@@ -44,18 +74,23 @@ export function useECGSystem() {
 
       setState(prev => ({
         ...prev,
+        isInitialized: false,
         isInitializing: true,
         error: null
       }));
 
       try {
+        // Only the Pyodide engine downloads a runtime
+        const runtimeSource = engine === 'pyodide' ? await getPyodideCacheStatus() : null;
+        setState(prev => ({ ...prev, runtimeSource }));
+
         await initializeECGSystem((stage, progress) => {
           setState(prev => ({
             ...prev,
             initializationProgress: progress,
             initializationStage: stage
           }));
-        });
+        }, engine);
 
         setState(prev => ({
           ...prev,
@@ -82,7 +117,7 @@ export function useECGSystem() {
     return () => {
       // Worker persists for tab lifetime
     };
-  }, []);
+  }, [engine, poolSize]);
 
   const retry = useCallback(async () => {
     setState(prev => ({
@@ -92,13 +127,16 @@ export function useECGSystem() {
     }));
 
     try {
+      const runtimeSource = engine === 'pyodide' ? await getPyodideCacheStatus() : null;
+      setState(prev => ({ ...prev, runtimeSource }));
+
       await initializeECGSystem((stage, progress) => {
         setState(prev => ({
           ...prev,
           initializationProgress: progress,
           initializationStage: stage
         }));
-      });
+      }, engine);
 
       setState(prev => ({
         ...prev,
@@ -112,27 +150,39 @@ export function useECGSystem() {
         error: error instanceof Error ? error.message : String(error)
       }));
     }
-  }, []);
+  }, [engine]);
 
   return {
     ...state,
+    poolStatus,
     retry
   };
 }
 
 /**
  * Process ECG files with progress tracking.
+ * Starting a new file cancels the one still running; `cancel` stops it explicitly.
  */
 export function useECGProcessor() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const process = useCallback(async (
     file: File,
-    onComplete?: (result: ECGServiceResult) => void
+    onComplete?: (result: ECGServiceResult) => void,
+    companionFiles: File[] = [],
+    config: ProcessingConfig = {},
+    csvMapping?: CSVImportMapping
   ): Promise<ECGServiceResult | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    // Only the latest run may update state
+    const isCurrent = () => controllerRef.current === controller;
+
     setIsProcessing(true);
     setProgress(0);
     setProgressMessage('Starting...');
@@ -140,18 +190,22 @@ export function useECGProcessor() {
 
     const callbacks: ProcessingCallbacks = {
       onProgress: (stage, prog, message) => {
+        if (!isCurrent()) return;
         setProgress(prog);
         setProgressMessage(message || stage);
       },
       onError: (err) => {
+        if (!isCurrent()) return;
         setError(err);
         setIsProcessing(false);
       }
     };
 
     try {
-      const result = await processECGFile(file, callbacks);
-      
+      const result = await processECGFile(file, callbacks, companionFiles, config, csvMapping, controller.signal);
+      if (!isCurrent()) return null;
+      controllerRef.current = null;
+
       setIsProcessing(false);
       setProgress(100);
       setProgressMessage('Complete');
@@ -163,13 +217,23 @@ export function useECGProcessor() {
       return result;
 
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      setError(errorMsg);
+      if (!isCurrent()) return null;
+      controllerRef.current = null;
+
+      if (isAbortError(error)) {
+        setProgressMessage('Cancelled');
+      } else {
+        setError(error instanceof Error ? error.message : String(error));
+      }
       setIsProcessing(false);
       return null;
     }
   }, []);
 
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
   const reset = useCallback(() => {
     setIsProcessing(false);
     setProgress(0);
@@ -179,10 +243,75 @@ export function useECGProcessor() {
 
   return {
     process,
+    cancel,
     reset,
     isProcessing,
     progress,
     progressMessage,
     error
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Undo/redo history of manual R-peak edits. Every change calls `analyze` with the new peaks and
+ * whether they differ from the detected ones; a newer change cancels the recomputation still running.
+ */
+export function usePeakEditor(
+  analyze: (peaks: Int32Array, edited: boolean, signal: AbortSignal) => Promise<void>
+) {
+  const [history, setHistory] = useState<PeakEditHistory | null>(null);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const analyzeRef = useRef(analyze);
+  analyzeRef.current = analyze;
+
+  const recompute = useCallback(async (next: PeakEditHistory) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRecomputing(true);
+    setError(null);
+
+    try {
+      await analyzeRef.current(next.present, !peaksEqual(next.present, next.original), controller.signal);
+    } catch (err) {
+      if (controllerRef.current === controller && !isAbortError(err)) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRecomputing(false);
+      }
+    }
+  }, []);
+
+  const apply = (next: PeakEditHistory) => {
+    if (next === history) return;
+    setHistory(next);
+    recompute(next);
+  };
+
+  /** Start over from newly detected peaks (`null` when there is nothing to edit). */
+  const reset = useCallback((peaks: Int32Array | null) => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRecomputing(false);
+    setError(null);
+    setHistory(peaks ? createPeakHistory(peaks) : null);
+  }, []);
+
+  return {
+    isActive: history !== null,
+    isEdited: history ? !peaksEqual(history.present, history.original) : false,
+    canUndo: (history?.past.length ?? 0) > 0,
+    canRedo: (history?.future.length ?? 0) > 0,
+    isRecomputing,
+    error,
+    reset,
+    edit: (peaks: Int32Array) => history && apply(pushPeakEdit(history, peaks)),
+    undo: () => history && apply(undoPeakEdit(history)),
+    redo: () => history && apply(redoPeakEdit(history))
+  };
+}
@@ -1,6 +1,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import './index.css';
 import App from './App';
+import { registerServiceWorker } from './services/offlineCache';
+import { installNetworkMonitor } from './services/networkMonitor';
+
+// Before anything else runs, so the privacy audit sees every request
+installNetworkMonitor('page');
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +23,6 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
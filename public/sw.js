@@ -0,0 +1,98 @@
+/**
+ * Service worker: precaches the app shell and the local Pyodide runtime so the analyzer
+ * installs as a PWA and starts without a network connection.
+ *
+ * precache-manifest.js is generated at build time (see vite.config.ts) and defines
+ * self.__PRECACHE_MANIFEST = { build, app: string[], pyodide: { version, files: string[] } }.
+ */
+
+importScripts('precache-manifest.js');
+
+const MANIFEST = self.__PRECACHE_MANIFEST;
+const SHELL_CACHE = 'ecg-analyzer-shell';
+const PYODIDE_CACHE = 'ecg-analyzer-pyodide';
+
+/**
+ * Resolve a manifest entry against the service worker scope.
+ */
+function scopedUrl(file) {
+  return new URL(file, self.registration.scope).href;
+}
+
+/**
+ * Add the given files to a cache, skipping entries that are already stored.
+ */
+async function precache(cacheName, files, { refresh }) {
+  const cache = await caches.open(cacheName);
+  const urls = files.map(scopedUrl);
+
+  const missing = [];
+  for (const url of urls) {
+    if (refresh || !(await cache.match(url))) {
+      missing.push(url);
+    }
+  }
+
+  // cache: 'reload' bypasses the HTTP cache so a stale response is never precached
+  await cache.addAll(missing.map(url => new Request(url, { cache: 'reload' })));
+}
+
+/**
+ * Drop cached entries that are no longer part of the manifest.
+ */
+async function prune(cacheName, files) {
+  const cache = await caches.open(cacheName);
+  const keep = new Set(files.map(scopedUrl));
+
+  for (const request of await cache.keys()) {
+    if (!keep.has(request.url)) {
+      await cache.delete(request);
+    }
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    // Hashed bundle files never change, but index.html and the shell files do between builds
+    await precache(SHELL_CACHE, MANIFEST.app, { refresh: true });
+    // Pyodide files are versioned by the Pyodide release, so only fetch what is missing
+    await precache(PYODIDE_CACHE, MANIFEST.pyodide.files, { refresh: false });
+    console.log(`[ServiceWorker] Precached build ${MANIFEST.build} with Pyodide ${MANIFEST.pyodide.version}`);
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    await prune(SHELL_CACHE, MANIFEST.app);
+    await prune(PYODIDE_CACHE, MANIFEST.pyodide.files);
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  // Navigations: prefer a fresh index.html, fall back to the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        return await fetch(request);
+      } catch (error) {
+        const cached = await caches.match(scopedUrl('./'));
+        if (cached) return cached;
+        throw error;
+      }
+    })());
+    return;
+  }
+
+  // Assets: cache first, then network
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    return fetch(request);
+  })());
+});
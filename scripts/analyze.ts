@@ -0,0 +1,285 @@
+/**
+ * Headless batch analysis: runs recordings through the app's parser and processing pipeline
+ * under Node and writes one JSON or CSV result per record, with the fields of `ECGServiceResult`.
+ *
+ * Built with Vite (for the `?raw` Python import) and run by `npm run analyze -- [options] <files>`.
+ * Exits with status 1 when any record fails to parse or process, 2 on invalid arguments.
+ */
+
+import { access, readdir, readFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { processECGFile, type ECGServiceResult } from '../services/ecgService';
+import { setPyodideRuntimeLoader } from '../services/ecgProcessor';
+import { csvField, groupBatchRecords } from '../services/batchAnalysis';
+import { FILTER_PRESETS } from '../services/filterPresets';
+import { DEFAULT_SETTINGS, settingsToConfig } from '../services/settingsStore';
+import type { FilterPresetName, ProcessingConfig, ProcessingEngine } from '../types';
+
+const USAGE = `Usage: npm run analyze -- [options] <file or glob>...
+
+Options:
+  --engine <pyodide|typescript>   Processing engine (default: ${DEFAULT_SETTINGS.engine})
+  --format <json|csv>             Result file format (default: json)
+  --out <dir>                     Directory for result files (default: current directory)
+  --sample-rate <Hz>              Rate for files that do not declare one
+  --lead <name|fused>             Analysis lead, or fuse detections across all leads
+  --filter <preset>               ${Object.keys(FILTER_PRESETS).join(', ')} (default: monitoring)
+  --mains <50|60>                 Mains frequency for the notch filter (default: ${DEFAULT_SETTINGS.mainsFrequency})
+  --omit-samples                  Leave the cleaned signal and leads out of JSON results
+  --pyodide-packages <dir>        NumPy/SciPy wheels (default: public/pyodide, see npm run pyodide:fetch)
+  --verbose                       Pipeline logs on stderr
+  --help                          Show this message
+
+A WFDB record is given by its .hea file; the .dat files next to it are picked up.`;
+
+// Repository root, from dist-ssr/analyze.js
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+class UsageError extends Error {}
+
+/**
+ * Regular expression for a glob: `*` and `?` stay within a path segment, `**` spans segments.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Paths named by the arguments; globs are expanded here, since not every shell does.
+ */
+async function expandInputs(inputs: string[]): Promise<string[]> {
+  const paths: string[] = [];
+  for (const input of inputs) {
+    const pattern = input.split(path.sep).join('/');
+    if (!/[*?]/.test(pattern)) {
+      paths.push(input);
+      continue;
+    }
+
+    // Walk from the directory before the first wildcard segment
+    const segments = pattern.split('/');
+    const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+    const base = segments.slice(0, firstWildcard).join('/') || '.';
+    const matcher = globToRegExp(pattern.replace(/^\.\//, ''));
+    const entries = await readdir(base, { recursive: true, withFileTypes: true });
+    const matches = entries
+      .filter(entry => entry.isFile())
+      .map(entry => path.join(entry.parentPath ?? entry.path, entry.name).split(path.sep).join('/'))
+      .filter(file => matcher.test(file.replace(/^\.\//, '')));
+
+    if (matches.length === 0) {
+      throw new UsageError(`No files match ${input}`);
+    }
+    paths.push(...matches.sort());
+  }
+  return [...new Set(paths)];
+}
+
+/**
+ * Add the signal files named in each WFDB header, so a record can be given by its `.hea` alone.
+ */
+async function withSignalFiles(paths: string[]): Promise<string[]> {
+  const all = new Set(paths);
+  for (const header of paths.filter(file => file.toLowerCase().endsWith('.hea'))) {
+    const lines = (await readFile(header, 'utf-8'))
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'));
+
+    // Signal lines follow the record line and start with their file name
+    for (const line of lines.slice(1)) {
+      const signalFile = path.join(path.dirname(header), line.split(/\s+/)[0]);
+      const exists = await access(signalFile).then(() => true, () => false);
+      if (exists) all.add(signalFile);
+    }
+  }
+  return [...all];
+}
+
+/**
+ * Read files into `File` objects and group them into records per directory, so records with
+ * the same name in different directories stay apart.
+ */
+async function loadRecords(paths: string[]) {
+  const byDirectory = new Map<string, string[]>();
+  for (const file of paths) {
+    const dir = path.dirname(file);
+    byDirectory.set(dir, [...(byDirectory.get(dir) || []), file]);
+  }
+
+  const records: { name: string; file: File; companions: File[] }[] = [];
+  const orphans: string[] = [];
+  for (const [dir, files] of byDirectory) {
+    const loaded = await Promise.all(files.map(async file => new File([await readFile(file)], path.basename(file))));
+    const grouped = groupBatchRecords(loaded);
+    records.push(...grouped.records.map(record => ({ ...record, name: path.join(dir, record.name) })));
+    orphans.push(...grouped.orphans.map(file => path.join(dir, file.name)));
+  }
+  return { records, orphans };
+}
+
+/**
+ * JSON with typed arrays as plain arrays; Float32 samples keep their 7 significant digits.
+ */
+function resultToJSON(result: ECGServiceResult, omitSamples: boolean): string {
+  const { clean: _clean, leads: _leads, ...signal } = result.signal;
+  const output = omitSamples ? { ...result, signal } : result;
+  return JSON.stringify(output, (_key, value) => {
+    if (value instanceof Float32Array) return Array.from(value, v => Number(v.toPrecision(7)));
+    if (ArrayBuffer.isView(value)) return Array.from(value as Int32Array);
+    return value;
+  });
+}
+
+/**
+ * Flatten nested fields to dotted column names; arrays become space-separated values.
+ */
+function flatten(value: unknown, prefix: string, columns: Map<string, string>): void {
+  if (value === null || value === undefined) {
+    columns.set(prefix, '');
+  } else if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    columns.set(prefix, Array.from(value as ArrayLike<unknown>, item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(' '));
+  } else if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, columns);
+  } else {
+    columns.set(prefix, String(value));
+  }
+}
+
+/**
+ * One-row CSV of every result field except the sample arrays, which stay in the JSON format.
+ */
+function resultToCSV(result: ECGServiceResult): string {
+  const { clean: _clean, leads: _leads, ...signal } = result.signal;
+  const columns = new Map<string, string>();
+  flatten({ ...result, signal }, '', columns);
+  return [[...columns.keys()].join(','), [...columns.values()].map(csvField).join(',')].join('\r\n') + '\r\n';
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      engine: { type: 'string', default: DEFAULT_SETTINGS.engine },
+      format: { type: 'string', default: 'json' },
+      out: { type: 'string', default: '.' },
+      'sample-rate': { type: 'string' },
+      lead: { type: 'string' },
+      filter: { type: 'string' },
+      mains: { type: 'string' },
+      'omit-samples': { type: 'boolean', default: false },
+      'pyodide-packages': { type: 'string', default: path.join(ROOT, 'public', 'pyodide') },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.error(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files given');
+  }
+
+  const engine = values.engine as ProcessingEngine;
+  if (engine !== 'pyodide' && engine !== 'typescript') {
+    throw new UsageError(`Unknown engine "${values.engine}"`);
+  }
+  if (values.format !== 'json' && values.format !== 'csv') {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+  if (values.filter && !(values.filter in FILTER_PRESETS)) {
+    throw new UsageError(`Unknown filter preset "${values.filter}"`);
+  }
+  const sampleRate = values['sample-rate'] === undefined ? undefined : Number(values['sample-rate']);
+  if (sampleRate !== undefined && !(sampleRate > 0)) {
+    throw new UsageError(`Invalid sample rate "${values['sample-rate']}"`);
+  }
+  if (values.mains !== undefined && values.mains !== '50' && values.mains !== '60') {
+    throw new UsageError(`Mains frequency must be 50 or 60, not "${values.mains}"`);
+  }
+
+  const config: ProcessingConfig = {
+    ...settingsToConfig(DEFAULT_SETTINGS),
+    engine,
+    verbose: values.verbose,
+    defaultSampleRate: sampleRate,
+    filterPreset: values.filter as FilterPresetName | undefined,
+    ...(values.mains ? { mainsFrequency: Number(values.mains) as 50 | 60 } : {}),
+    ...(values.lead === 'fused' ? { leadFusion: true } : values.lead ? { lead: values.lead } : {})
+  };
+
+  if (engine === 'pyodide') {
+    // Packages found in the directory load offline; missing ones are downloaded into it
+    const packageCacheDir = path.resolve(values['pyodide-packages']) + path.sep;
+    setPyodideRuntimeLoader(async () => {
+      const { loadPyodide } = await import('pyodide');
+      return loadPyodide({ packageCacheDir, stdout: line => console.log(line) });
+    });
+  }
+
+  const { records, orphans } = await loadRecords(await withSignalFiles(await expandInputs(positionals)));
+  await mkdir(values.out, { recursive: true });
+
+  let failures = orphans.length;
+  for (const orphan of orphans) {
+    console.error(`✗ ${orphan}: WFDB signal file without its .hea header`);
+  }
+
+  const written = new Set<string>();
+  for (const record of records) {
+    try {
+      const result = await processECGFile(record.file, {}, record.companions, config);
+
+      // Records sharing a name in different directories get numbered result files
+      const stem = path.basename(record.name).replace(/\.[^.]+$/, '');
+      let outName = `${stem}.${values.format}`;
+      for (let n = 2; written.has(outName); n++) outName = `${stem}-${n}.${values.format}`;
+      written.add(outName);
+
+      const outPath = path.join(values.out, outName);
+      await writeFile(outPath, values.format === 'csv' ? resultToCSV(result) : resultToJSON(result, values['omit-samples']));
+      console.error(`✓ ${record.name} → ${outPath} (${result.signal.peaks.length} beats, ${Math.round(result.metrics.bpm)} BPM, ${result.metrics.rhythmStatus})`);
+    } catch (error) {
+      failures++;
+      console.error(`✗ ${record.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.error(`${records.length - (failures - orphans.length)} of ${records.length + orphans.length} record(s) analysed`);
+  return failures > 0 ? 1 : 0;
+}
+
+// Results go to files and the summary to stderr; pipeline logs only with --verbose
+const verbose = process.argv.includes('--verbose');
+console.log = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+console.info = console.log;
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`\n${USAGE}`);
+      process.exit(2);
+    }
+    process.exit(1);
+  }
+);
@@ -0,0 +1,146 @@
+/**
+ * Scripted checks for the R-peak over-read helpers: peak edits and their undo/redo history, and
+ * beat matching scored the same way as scripts/validate_mit_bih.py.
+ *
+ * Built with Vite like the analyze script and run by `npm run check:peaks`.
+ * Exits with status 1 when any check fails.
+ */
+
+import assert from 'node:assert/strict';
+import {
+  addPeak,
+  createPeakHistory,
+  movePeak,
+  pushPeakEdit,
+  redoPeakEdit,
+  removePeak,
+  undoPeakEdit
+} from '../services/peakEditor';
+import { matchBeats } from '../services/beatMatching';
+
+const checks: [string, () => void][] = [];
+const check = (name: string, run: () => void) => checks.push([name, run]);
+
+const peaks = (...values: number[]) => Int32Array.from(values);
+
+check('add keeps peaks sorted and ignores duplicates', () => {
+  const input = peaks(100, 300);
+  assert.deepEqual(addPeak(input, 200), peaks(100, 200, 300));
+  assert.deepEqual(addPeak(input, 50), peaks(50, 100, 300));
+  assert.deepEqual(addPeak(input, 400), peaks(100, 300, 400));
+  assert.equal(addPeak(input, 300), input);
+  assert.deepEqual(input, peaks(100, 300));
+});
+
+check('remove drops one peak and ignores out-of-range indices', () => {
+  const input = peaks(100, 200, 300);
+  assert.deepEqual(removePeak(input, 1), peaks(100, 300));
+  assert.equal(removePeak(input, -1), input);
+  assert.equal(removePeak(input, 3), input);
+  assert.deepEqual(input, peaks(100, 200, 300));
+});
+
+check('move re-sorts the moved peak', () => {
+  const input = peaks(100, 200, 300);
+  assert.deepEqual(movePeak(input, 0, 250), peaks(200, 250, 300));
+  assert.deepEqual(movePeak(input, 2, 50), peaks(50, 100, 200));
+  assert.deepEqual(movePeak(input, 1, 300), peaks(100, 300));
+});
+
+check('undo history keeps the last 200 edits', () => {
+  let history = createPeakHistory(peaks());
+  for (let i = 1; i <= 250; i++) {
+    history = pushPeakEdit(history, peaks(i));
+  }
+  assert.equal(history.past.length, 200);
+  assert.deepEqual(history.present, peaks(250));
+
+  while (history.past.length > 0) history = undoPeakEdit(history);
+  assert.deepEqual(history.present, peaks(50));
+  assert.equal(history.future.length, 200);
+  assert.equal(undoPeakEdit(history), history);
+});
+
+check('a new edit clears the redo stack', () => {
+  let history = createPeakHistory(peaks(100));
+  history = pushPeakEdit(history, peaks(100, 200));
+  history = pushPeakEdit(history, peaks(100, 200, 300));
+  history = undoPeakEdit(history);
+  assert.deepEqual(redoPeakEdit(history).present, peaks(100, 200, 300));
+
+  history = pushPeakEdit(history, peaks(200));
+  assert.equal(history.future.length, 0);
+  assert.equal(redoPeakEdit(history), history);
+  assert.deepEqual(undoPeakEdit(history).present, peaks(100, 200));
+});
+
+check('an edit that changes nothing is not recorded', () => {
+  const history = pushPeakEdit(createPeakHistory(peaks(100)), peaks(100, 200));
+  assert.equal(pushPeakEdit(history, peaks(100, 200)), history);
+});
+
+check('a detection halfway between two beats matches the earlier one', () => {
+  const result = matchBeats(peaks(105), peaks(100, 110), 10);
+  assert.deepEqual(result.truePositives, peaks(105));
+  assert.deepEqual(result.falseNegatives, peaks(110));
+});
+
+/**
+ * Direct port of the validate_mit_bih.py scoring, with `np.argmin` taking the first minimum.
+ */
+function scoreLikeValidator(detected: Int32Array, reference: Int32Array, tolerance: number) {
+  const matched = new Set<number>();
+  let tp = 0;
+  let fp = 0;
+  for (const sample of detected) {
+    if (reference.length === 0) {
+      fp++;
+      continue;
+    }
+    let minIndex = 0;
+    for (let i = 1; i < reference.length; i++) {
+      if (Math.abs(reference[i] - sample) < Math.abs(reference[minIndex] - sample)) minIndex = i;
+    }
+    if (Math.abs(reference[minIndex] - sample) <= tolerance && !matched.has(minIndex)) {
+      tp++;
+      matched.add(minIndex);
+    } else {
+      fp++;
+    }
+  }
+  return { tp, fp, fn: reference.length - matched.size };
+}
+
+check('matching agrees with the validator on random beat lists', () => {
+  // Fixed-seed LCG so failures reproduce; small spacings make ties and double matches common
+  let seed = 12345;
+  const random = (n: number) => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    return seed % n;
+  };
+  const sortedBeats = (count: number) => Int32Array.from(
+    new Set(Array.from({ length: count }, () => random(400)))
+  ).sort();
+
+  for (let trial = 0; trial < 500; trial++) {
+    const detected = sortedBeats(random(30));
+    const reference = sortedBeats(random(30));
+    const tolerance = random(12);
+    const { tp, fp, fn } = matchBeats(detected, reference, tolerance);
+    assert.deepEqual({ tp, fp, fn }, scoreLikeValidator(detected, reference, tolerance), `trial ${trial}`);
+  }
+});
+
+let failures = 0;
+for (const [name, run] of checks) {
+  try {
+    run();
+    console.log(`[Check] ok    ${name}`);
+  } catch (error) {
+    failures++;
+    console.error(`[Check] FAIL  ${name}\n${error instanceof Error ? error.message : error}`);
+  }
+}
+
+console.log(`[Check] ${checks.length - failures}/${checks.length} passed`);
+if (failures > 0) process.exitCode = 1;
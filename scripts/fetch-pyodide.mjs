@@ -0,0 +1,108 @@
+/**
+ * Stage the Pyodide runtime and the Python packages used by ecg_processor.py in public/pyodide/,
+ * so the app is served entirely from its own origin.
+ *
+ * The runtime is copied from the `pyodide` npm package. NumPy, SciPy and their dependencies are
+ * downloaded once from the matching Pyodide release and checked against the lock file hashes.
+ * Files already present with the right hash are skipped, so later runs need no network.
+ *
+ * Usage: node scripts/fetch-pyodide.mjs
+ */
+
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE_DIR = path.join(ROOT, 'node_modules', 'pyodide');
+const TARGET_DIR = path.join(ROOT, 'public', 'pyodide');
+
+const RUNTIME_FILES = ['pyodide.mjs', 'pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+const REQUIRED_PACKAGES = ['numpy', 'scipy'];
+
+/**
+ * Compute the hex SHA-256 of a file, or null when it does not exist.
+ */
+async function fileHash(filePath) {
+  if (!existsSync(filePath)) return null;
+  return createHash('sha256').update(await readFile(filePath)).digest('hex');
+}
+
+/**
+ * Collect the lock entries for the required packages and their transitive dependencies.
+ */
+function resolvePackages(lock, names) {
+  const resolved = new Map();
+  const queue = [...names];
+
+  while (queue.length > 0) {
+    const name = queue.pop();
+    if (resolved.has(name)) continue;
+
+    const entry = lock.packages[name];
+    if (!entry) {
+      throw new Error(`Package ${name} is not in pyodide-lock.json`);
+    }
+    resolved.set(name, entry);
+    queue.push(...entry.depends);
+  }
+
+  return Array.from(resolved.values());
+}
+
+async function main() {
+  if (!existsSync(SOURCE_DIR)) {
+    throw new Error('node_modules/pyodide is missing; run npm install first');
+  }
+
+  await mkdir(TARGET_DIR, { recursive: true });
+
+  const { version } = JSON.parse(await readFile(path.join(SOURCE_DIR, 'package.json'), 'utf-8'));
+  const lock = JSON.parse(await readFile(path.join(SOURCE_DIR, 'pyodide-lock.json'), 'utf-8'));
+  const cdnBase = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+
+  for (const file of RUNTIME_FILES) {
+    await copyFile(path.join(SOURCE_DIR, file), path.join(TARGET_DIR, file));
+  }
+  console.log(`[fetch-pyodide] Copied Pyodide ${version} runtime`);
+
+  const packages = resolvePackages(lock, REQUIRED_PACKAGES);
+
+  for (const entry of packages) {
+    const target = path.join(TARGET_DIR, entry.file_name);
+
+    if ((await fileHash(target)) === entry.sha256) {
+      console.log(`[fetch-pyodide] ${entry.file_name} up to date`);
+      continue;
+    }
+
+    console.log(`[fetch-pyodide] Downloading ${entry.file_name}...`);
+    const response = await fetch(cdnBase + entry.file_name);
+    if (!response.ok) {
+      throw new Error(`Download of ${entry.file_name} failed: HTTP ${response.status}`);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    const hash = createHash('sha256').update(data).digest('hex');
+    if (hash !== entry.sha256) {
+      throw new Error(`Checksum mismatch for ${entry.file_name}`);
+    }
+    await writeFile(target, data);
+  }
+
+  // The service worker precaches exactly these files
+  const manifest = {
+    version,
+    files: [...RUNTIME_FILES, ...packages.map(entry => entry.file_name)]
+  };
+  await writeFile(path.join(TARGET_DIR, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  console.log(`[fetch-pyodide] ${manifest.files.length} files staged in public/pyodide/`);
+}
+
+main().catch((error) => {
+  console.error(`[fetch-pyodide] ${error.message}`);
+  process.exit(1);
+});
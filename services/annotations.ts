@@ -0,0 +1,177 @@
+/**
+ * Beat annotation files: WFDB (MIT format, e.g. `.atr`) and CSV export of R-peaks, and import of
+ * either back onto a record. Only beat annotations become R-peaks on import; rhythm, noise and
+ * comment annotations are skipped.
+ */
+
+export interface BeatAnnotation {
+  /** Sample index at the record's sampling rate. */
+  sample: number;
+  /** MIT annotation mnemonic, e.g. N, V, A. */
+  symbol: string;
+}
+
+// MIT annotation codes (ecgcodes.h) by mnemonic; index = code
+const MIT_SYMBOLS = [
+  '', 'N', 'L', 'R', 'a', 'V', 'F', 'J', 'A', 'S', 'E', 'j', '/', 'Q', '~', '', '|', '', 's', 'T',
+  '*', 'D', '"', '=', 'p', 'B', '^', 't', '+', 'u', '?', '!', '[', ']', 'e', 'n', '@', 'x', 'f', '(',
+  ')', 'r'
+];
+
+// Beat symbols, as counted by scripts/validate_mit_bih.py
+export const BEAT_SYMBOLS = new Set(['N', 'L', 'R', 'B', 'A', 'a', 'J', 'S', 'V', 'r', 'F', 'e', 'j', 'n', 'E', '/', 'f', 'Q', '?']);
+
+// Pseudo-codes of the MIT format
+const SKIP = 59;
+const NUM = 60;
+const SUB = 61;
+const CHN = 62;
+const AUX = 63;
+const MAX_INTERVAL = 0x3ff;
+
+/**
+ * Label R-peaks for export. The detector does not classify beats, so every beat is N.
+ */
+export function peaksToAnnotations(peaks: Int32Array): BeatAnnotation[] {
+  return Array.from(peaks, sample => ({ sample, symbol: 'N' }));
+}
+
+/**
+ * R-peaks from annotations: beat annotations within the record, sorted and de-duplicated.
+ */
+export function annotationsToPeaks(annotations: BeatAnnotation[], length: number): Int32Array {
+  const samples = new Set<number>();
+  for (const { sample, symbol } of annotations) {
+    if (BEAT_SYMBOLS.has(symbol) && sample >= 0 && sample < length) samples.add(sample);
+  }
+  return Int32Array.from(samples).sort();
+}
+
+/**
+ * Encode annotations as a WFDB annotation file (MIT format), readable by `wfdb.rdann`.
+ */
+export function writeWfdbAnnotations(annotations: BeatAnnotation[]): Uint8Array {
+  const sorted = [...annotations].sort((a, b) => a.sample - b.sample);
+  const words: number[] = [];
+  let previous = 0;
+
+  for (const { sample, symbol } of sorted) {
+    const code = MIT_SYMBOLS.indexOf(symbol);
+    if (code <= 0) {
+      throw new Error(`Unknown annotation symbol "${symbol}"`);
+    }
+
+    let interval = sample - previous;
+    if (interval > MAX_INTERVAL) {
+      // Long gaps: SKIP followed by a 32-bit interval, high 16 bits first
+      words.push(SKIP << 10, (interval >>> 16) & 0xffff, interval & 0xffff);
+      interval = 0;
+    }
+    words.push((code << 10) | interval);
+    previous = sample;
+  }
+  words.push(0);
+
+  const bytes = new Uint8Array(words.length * 2);
+  const view = new DataView(bytes.buffer);
+  words.forEach((word, i) => view.setUint16(i * 2, word, true));
+  return bytes;
+}
+
+/**
+ * Decode a WFDB annotation file (MIT format). Annotation types without a mnemonic are dropped.
+ */
+export function readWfdbAnnotations(bytes: Uint8Array): BeatAnnotation[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const annotations: BeatAnnotation[] = [];
+  let time = 0;
+  let offset = 0;
+
+  while (offset + 2 <= bytes.length) {
+    const word = view.getUint16(offset, true);
+    const code = word >> 10;
+    const value = word & MAX_INTERVAL;
+    offset += 2;
+
+    if (word === 0) break;
+
+    switch (code) {
+      case SKIP:
+        if (offset + 4 > bytes.length) {
+          throw new Error('Annotation file ends inside a SKIP interval');
+        }
+        time += (view.getUint16(offset, true) << 16) | view.getUint16(offset + 2, true);
+        offset += 4;
+        break;
+      case AUX:
+        // Text attached to the previous annotation, padded to an even length
+        offset += value + (value & 1);
+        break;
+      case NUM:
+      case SUB:
+      case CHN:
+        // Fields of the previous annotation; not needed for beat positions
+        break;
+      default:
+        time += value;
+        if (MIT_SYMBOLS[code]) {
+          annotations.push({ sample: time, symbol: MIT_SYMBOLS[code] });
+        }
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * CSV with one row per beat: sample index, time in seconds, label and the R-R interval to the
+ * previous beat in milliseconds.
+ */
+export function annotationsToCSV(annotations: BeatAnnotation[], sampleRate: number): string {
+  const rows = ['sample,time_s,label,rr_ms'];
+  annotations.forEach(({ sample, symbol }, i) => {
+    const rr = i > 0 ? (((sample - annotations[i - 1].sample) / sampleRate) * 1000).toFixed(1) : '';
+    rows.push(`${sample},${(sample / sampleRate).toFixed(3)},${symbol},${rr}`);
+  });
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Read an annotation CSV. Beats are located by a `sample` column, or by a `time` column in
+ * seconds converted at `sampleRate`; rows without a `label` column are beats (N).
+ */
+export function parseAnnotationCSV(text: string, sampleRate: number): BeatAnnotation[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Annotation CSV is empty');
+  }
+
+  const header = lines[0].split(/[,;\t]/).map(cell => cell.trim().toLowerCase());
+  const sampleColumn = header.findIndex(name => name === 'sample' || name === 'sample_index');
+  const timeColumn = header.findIndex(name => name.startsWith('time'));
+  const labelColumn = header.findIndex(name => name === 'label' || name === 'symbol' || name === 'type');
+  if (sampleColumn < 0 && timeColumn < 0) {
+    throw new Error('Annotation CSV needs a "sample" or "time" column');
+  }
+
+  const annotations: BeatAnnotation[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(/[,;\t]/).map(cell => cell.trim());
+    const sample = sampleColumn >= 0
+      ? parseInt(cells[sampleColumn], 10)
+      : Math.round(parseFloat(cells[timeColumn]) * sampleRate);
+    if (!Number.isFinite(sample)) continue;
+    annotations.push({ sample, symbol: (labelColumn >= 0 && cells[labelColumn]) || 'N' });
+  }
+  return annotations;
+}
+
+/**
+ * Read an annotation file of either kind; `.csv` and `.txt` are CSV, anything else WFDB.
+ */
+export async function readAnnotationFile(file: File, sampleRate: number): Promise<BeatAnnotation[]> {
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseAnnotationCSV(await file.text(), sampleRate);
+  }
+  return readWfdbAnnotations(new Uint8Array(await file.arrayBuffer()));
+}
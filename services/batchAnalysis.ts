@@ -0,0 +1,238 @@
+/**
+ * Batch analysis: groups many files into records, runs each through `processECGFile` with
+ * bounded concurrency, and summarizes the results as table rows and CSV.
+ */
+
+import { processECGFile, type ECGServiceResult } from './ecgService';
+import { getWorkerPoolSize } from './ecgProcessor';
+import { detectFileFormat, previewCSV } from './dataParser';
+import { loadCSVMapping } from './csvMappingStore';
+import { isAbortError } from './requestQueue';
+import { saveAnalysis } from './historyStore';
+import type { ProcessingConfig } from '../types';
+
+export interface BatchRecord {
+  name: string;
+  file: File;
+  companions: File[];
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchSummaryRow {
+  name: string;
+  format: string;
+  duration: number;
+  bpm: number;
+  rhythm: string;
+  qrsWidth?: number;
+  qtc?: number;
+  sdnn?: number;
+  quality: number;
+  warnings: string[];
+}
+
+export interface BatchItem {
+  name: string;
+  status: BatchItemStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+  summary?: BatchSummaryRow;
+}
+
+export interface BatchCallbacks {
+  onItemUpdate?: (index: number, item: BatchItem) => void;
+}
+
+const WFDB_COMPANION_EXTENSIONS = ['.dat', '.atr', '.qrs', '.ann'];
+
+/**
+ * File path (relative to a picked folder) without extension.
+ */
+function recordStem(file: File): string {
+  return (file.webkitRelativePath || file.name).replace(/\.[^./]+$/, '');
+}
+
+function extension(file: File): string {
+  const match = file.name.toLowerCase().match(/\.[^.]+$/);
+  return match ? match[0] : '';
+}
+
+/**
+ * Group a flat file list into records: each WFDB header takes the signal and annotation files
+ * sharing its name, every other file is a record on its own. Orphaned `.dat` files are returned
+ * separately so they can be reported.
+ */
+export function groupBatchRecords(files: File[]): { records: BatchRecord[]; orphans: File[] } {
+  const headers = files.filter(f => extension(f) === '.hea');
+  const headerStems = new Set(headers.map(recordStem));
+  const records: BatchRecord[] = headers.map(header => ({
+    name: header.name,
+    file: header,
+    companions: files.filter(f => f !== header && recordStem(f) === recordStem(header))
+  }));
+  const orphans: File[] = [];
+
+  for (const file of files) {
+    const ext = extension(file);
+    if (ext === '.hea') continue;
+    if (WFDB_COMPANION_EXTENSIONS.includes(ext)) {
+      if (!headerStems.has(recordStem(file)) && ext === '.dat') orphans.push(file);
+      continue;
+    }
+    records.push({ name: file.name, file, companions: [] });
+  }
+
+  records.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  return { records, orphans };
+}
+
+/**
+ * Read every file from a drop, descending into dropped folders.
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+      return;
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns directory contents in chunks until it yields an empty list
+    for (;;) {
+      const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (chunk.length === 0) break;
+      for (const child of chunk) await visit(child);
+    }
+  };
+
+  for (const entry of entries) await visit(entry);
+  return files;
+}
+
+/**
+ * Build the summary row for one analysed record.
+ */
+export function summarizeResult(name: string, result: ECGServiceResult): BatchSummaryRow {
+  const { metrics, fileInfo } = result;
+  return {
+    name,
+    format: fileInfo.format,
+    duration: fileInfo.duration,
+    bpm: metrics.bpm,
+    rhythm: metrics.rhythmStatus,
+    qrsWidth: metrics.qrsWidth,
+    qtc: metrics.qtc ?? metrics.qtcBazett,
+    sdnn: metrics.sdnn,
+    quality: metrics.confidence,
+    warnings: [...(metrics.clinicalWarnings || []), ...fileInfo.warnings]
+  };
+}
+
+/**
+ * Column layout a CSV record was last confirmed with in the import wizard, if any.
+ */
+async function rememberedCSVMapping(file: File) {
+  if ((await detectFileFormat(file)) !== 'csv') return undefined;
+  const preview = await previewCSV(file);
+  return loadCSVMapping(preview.layoutKey) || undefined;
+}
+
+/**
+ * Analyse records with as many in flight as the processing pool has workers.
+ * Failures are recorded per record and do not stop the batch; aborting `signal` cancels
+ * running records and marks the rest as cancelled.
+ */
+export async function runBatch(
+  records: BatchRecord[],
+  config: ProcessingConfig = {},
+  callbacks: BatchCallbacks = {},
+  signal?: AbortSignal
+): Promise<BatchItem[]> {
+  const items: BatchItem[] = records.map(record => ({ name: record.name, status: 'queued', progress: 0 }));
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...changes };
+    callbacks.onItemUpdate?.(index, items[index]);
+  };
+
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < records.length) {
+      const index = next++;
+      const record = records[index];
+
+      if (signal?.aborted) {
+        update(index, { status: 'cancelled', message: 'Cancelled' });
+        continue;
+      }
+
+      update(index, { status: 'running', message: 'Starting...' });
+      try {
+        const csvMapping = await rememberedCSVMapping(record.file);
+        const result = await processECGFile(record.file, {
+          onProgress: (stage, progress, message) => update(index, { progress, message: message || stage })
+        }, record.companions, config, csvMapping, signal);
+
+        saveAnalysis(result).catch(error => console.warn('[Batch] Could not save to history:', error));
+
+        // Only the summary row is kept, so large batches do not hold every signal in memory
+        update(index, { status: 'done', progress: 100, message: 'Complete', summary: summarizeResult(record.name, result) });
+      } catch (error) {
+        if (isAbortError(error)) {
+          update(index, { status: 'cancelled', message: 'Cancelled' });
+        } else {
+          update(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, Math.min(getWorkerPoolSize(), records.length));
+  console.log(`[Batch] Analysing ${records.length} record(s), ${concurrency} at a time`);
+  await Promise.all(Array.from({ length: concurrency }, runNext));
+
+  return items;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ */
+export function csvField(value: string | number | undefined): string {
+  if (value === undefined || (typeof value === 'number' && !Number.isFinite(value))) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 10) / 10) : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Summary table as CSV, including a row per failed record.
+ */
+export function batchToCSV(items: BatchItem[]): string {
+  const header = ['file', 'status', 'format', 'duration_s', 'hr_bpm', 'rhythm', 'qrs_ms', 'qtc_ms', 'sdnn_ms', 'quality_percent', 'warnings', 'error'];
+  const lines = items.map(item => {
+    const s = item.summary;
+    return [
+      item.name,
+      item.status,
+      s?.format,
+      s?.duration,
+      s?.bpm,
+      s?.rhythm,
+      s?.qrsWidth,
+      s?.qtc,
+      s?.sdnn,
+      s?.quality,
+      s?.warnings.join('; '),
+      item.error
+    ].map(csvField).join(',');
+  });
+  return [header.join(','), ...lines].join('\r\n');
+}
@@ -0,0 +1,78 @@
+/**
+ * Agreement between detected R-peaks and reference beat annotations, scored the same way as
+ * scripts/validate_mit_bih.py: each detection is matched to its nearest reference beat, and counts
+ * as a true positive when that beat is within the tolerance and not already matched.
+ */
+
+export interface BeatMatchResult {
+  tp: number;
+  fp: number;
+  fn: number;
+  /** TP / (TP + FN), 0 without reference beats. */
+  sensitivity: number;
+  /** Positive predictive value, TP / (TP + FP), 0 without detections. */
+  ppv: number;
+  /** Harmonic mean of sensitivity and PPV. */
+  f1: number;
+  /** Detected samples matched to a reference beat. */
+  truePositives: Int32Array;
+  /** Detected samples without a reference beat. */
+  falsePositives: Int32Array;
+  /** Reference samples without a detection. */
+  falseNegatives: Int32Array;
+}
+
+/**
+ * Index of the reference beat closest to `sample`; the earlier beat wins a tie, as with
+ * `np.argmin`. `reference` must be sorted and non-empty.
+ */
+function nearestReference(reference: Int32Array, sample: number): number {
+  let low = 0;
+  let high = reference.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (reference[mid] < sample) low = mid + 1;
+    else high = mid;
+  }
+  if (low === reference.length) return low - 1;
+  if (low > 0 && sample - reference[low - 1] <= reference[low] - sample) return low - 1;
+  return low;
+}
+
+/**
+ * Match detected R-peaks against sorted reference beats within `toleranceSamples`.
+ */
+export function matchBeats(detected: Int32Array, reference: Int32Array, toleranceSamples: number): BeatMatchResult {
+  const matched = new Uint8Array(reference.length);
+  const truePositives: number[] = [];
+  const falsePositives: number[] = [];
+
+  for (const sample of detected) {
+    const nearest = reference.length > 0 ? nearestReference(reference, sample) : -1;
+    if (nearest >= 0 && Math.abs(reference[nearest] - sample) <= toleranceSamples && !matched[nearest]) {
+      matched[nearest] = 1;
+      truePositives.push(sample);
+    } else {
+      falsePositives.push(sample);
+    }
+  }
+
+  const falseNegatives = reference.filter((_, i) => !matched[i]);
+  const tp = truePositives.length;
+  const fp = falsePositives.length;
+  const fn = falseNegatives.length;
+  const sensitivity = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const ppv = tp + fp > 0 ? tp / (tp + fp) : 0;
+
+  return {
+    tp,
+    fp,
+    fn,
+    sensitivity,
+    ppv,
+    f1: sensitivity + ppv > 0 ? (2 * sensitivity * ppv) / (sensitivity + ppv) : 0,
+    truePositives: Int32Array.from(truePositives),
+    falsePositives: Int32Array.from(falsePositives),
+    falseNegatives
+  };
+}
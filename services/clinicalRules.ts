@@ -0,0 +1,98 @@
+/**
+ * QTc correction formulas and configurable alert thresholds, applied on the main thread to the
+ * raw measurements of either processing engine.
+ */
+
+import type { AlertThresholds, PatientMetrics, ProcessingConfig, QTcFormula } from '../types';
+import type { PipelineResults } from './ecgAnalysis';
+
+// Limits the pipelines use themselves (AHA rate limits, 120 ms QRS, 470/500 ms QTc, 50 ms SDNN)
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  bradycardiaBpm: 60,
+  tachycardiaBpm: 100,
+  wideQrsMs: 120,
+  prolongedQtcMs: 470,
+  highRiskQtcMs: 500,
+  lowSdnnMs: 50
+};
+
+export const QTC_FORMULA_LABELS: Record<QTcFormula, string> = {
+  bazett: 'Bazett',
+  fridericia: 'Fridericia',
+  framingham: 'Framingham',
+  hodges: 'Hodges'
+};
+
+// Warnings both engines raise from their fixed limits; these are re-evaluated against the thresholds
+const THRESHOLD_WARNINGS = new Set([
+  'Wide QRS with tachycardia requires immediate assessment',
+  'Wide QRS (BBB/Ventricular)',
+  'Prolonged QTc',
+  'High Risk (Long QT)',
+  'Low HRV detected - consider cardiac risk assessment'
+]);
+
+/**
+ * Correct a QT interval (ms) for an RR interval (s).
+ */
+export function correctQT(qtMs: number, rrSeconds: number, formula: QTcFormula): number {
+  if (!(qtMs > 0) || !(rrSeconds > 0)) return 0;
+  switch (formula) {
+    case 'fridericia':
+      return qtMs / Math.cbrt(rrSeconds);
+    case 'framingham':
+      return qtMs + 154 * (1 - rrSeconds);
+    case 'hodges':
+      return qtMs + 1.75 * (60 / rrSeconds - 60);
+    default:
+      return qtMs / Math.sqrt(rrSeconds);
+  }
+}
+
+/**
+ * Recompute QTc, rate-based rhythm class and threshold warnings with the configured formula and
+ * thresholds. Irregular rhythms keep the engine's classification, and the engine's other
+ * warnings are kept.
+ */
+export function interpretMetrics(
+  metrics: PatientMetrics,
+  rawMetrics: Pick<PipelineResults, 'arrhythmia_metrics' | 'qrs_metrics' | 'qt_metrics' | 'hrv_metrics'>,
+  config: ProcessingConfig
+): PatientMetrics {
+  const thresholds = { ...DEFAULT_ALERT_THRESHOLDS, ...config.alertThresholds };
+  const qtcFormula = config.qtcFormula || 'bazett';
+  const { arrhythmia_metrics, qrs_metrics, qt_metrics, hrv_metrics } = rawMetrics;
+
+  const meanRrSeconds = (arrhythmia_metrics?.mean_rr_ms || 0) / 1000;
+  const qtc = correctQT(qt_metrics?.mean_qt_ms || 0, meanRrSeconds, qtcFormula) || undefined;
+  const qrsMs = qrs_metrics?.mean_qrs_ms || 0;
+  const sdnn = hrv_metrics?.sdnn_ms || 0;
+  // Mean of the beat-to-beat rates, used for every rate decision
+  const meanHr = arrhythmia_metrics?.mean_hr || 0;
+
+  let rhythmStatus = metrics.rhythmStatus;
+  const rateBased: PatientMetrics['rhythmStatus'][] = ['Normal Sinus Rhythm', 'Bradycardia', 'Tachycardia', 'Wide-Complex Tachycardia'];
+  if (rateBased.includes(rhythmStatus) && meanHr > 0) {
+    rhythmStatus = meanHr < thresholds.bradycardiaBpm ? 'Bradycardia'
+      : meanHr > thresholds.tachycardiaBpm ? 'Tachycardia'
+      : 'Normal Sinus Rhythm';
+  }
+
+  const warnings = (metrics.clinicalWarnings || []).filter(warning => !THRESHOLD_WARNINGS.has(warning));
+  if (qrsMs > thresholds.wideQrsMs) {
+    if (meanHr > thresholds.tachycardiaBpm) {
+      rhythmStatus = 'Wide-Complex Tachycardia';
+      warnings.push('Wide QRS with tachycardia requires immediate assessment');
+    } else {
+      warnings.push('Wide QRS (BBB/Ventricular)');
+    }
+  }
+  if (qtc !== undefined && qtc > thresholds.prolongedQtcMs) {
+    warnings.push(qtc < thresholds.highRiskQtcMs ? 'Prolonged QTc' : 'High Risk (Long QT)');
+  }
+  if (sdnn > 0 && sdnn < thresholds.lowSdnnMs) {
+    warnings.push('Low HRV detected - consider cardiac risk assessment');
+  }
+
+  return { ...metrics, rhythmStatus, qtc, qtcFormula, clinicalWarnings: warnings };
+}
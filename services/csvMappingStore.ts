@@ -0,0 +1,40 @@
+/**
+ * Remembers confirmed CSV import mappings per file layout in localStorage.
+ */
+
+import type { CSVImportMapping } from './dataParser';
+
+const STORAGE_KEY = 'ecg-analyzer.csvMappings';
+
+/**
+ * Read all stored mappings, tolerating missing or corrupt storage.
+ */
+function readMappings(): Record<string, CSVImportMapping> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn('[CSVMappingStore] Could not read stored mappings:', error);
+    return {};
+  }
+}
+
+/**
+ * Look up the mapping previously confirmed for a layout.
+ */
+export function loadCSVMapping(layoutKey: string): CSVImportMapping | null {
+  return readMappings()[layoutKey] || null;
+}
+
+/**
+ * Store the mapping confirmed for a layout.
+ */
+export function saveCSVMapping(layoutKey: string, mapping: CSVImportMapping): void {
+  try {
+    const mappings = readMappings();
+    mappings[layoutKey] = mapping;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+  } catch (error) {
+    console.warn('[CSVMappingStore] Could not store mapping:', error);
+  }
+}
@@ -1,94 +1,268 @@
 /**
- * ECG file parser supporting MIT-BIH CSV, generic CSV, and Philips XML formats.
+ * ECG file parser supporting MIT-BIH CSV, generic CSV, Philips SierraECG / GE MUSE / HL7 aECG XML, WFDB, EDF/EDF+,
+ * DICOM waveform, and SCP-ECG formats.
  */
 
+import type { ECGLead } from '../types';
+
+export interface ParsedEvent {
+  onset: number;
+  duration?: number;
+  label: string;
+}
+
+export interface ParsedMeasurement {
+  name: string;
+  value: number;
+  unit: string;
+}
+
+/**
+ * Units of stored sample values: millivolts, microvolts, or integer converter counts
+ * (the digital values of WFDB, EDF, aECG, DICOM and the XML and binary formats).
+ */
+export type AmplitudeUnits = 'mV' | 'uV' | 'adc';
+
+/**
+ * How stored sample values map to millivolts: mV = (raw - baseline) / gain.
+ * Describes the primary lead; `clippedSamples` counts samples at the converter limits
+ * when the format declares them.
+ */
+export interface AmplitudeCalibration {
+  gain: number;
+  baseline: number;
+  units: AmplitudeUnits;
+  source: 'file' | 'auto' | 'user';
+  clippedSamples?: number;
+}
+
 export interface ParsedECGData {
-  voltages: number[];
+  voltages: Float32Array;
+  leads: ECGLead[];
+  calibration: AmplitudeCalibration;
+  events?: ParsedEvent[];
+  measurements?: ParsedMeasurement[];
   sampleRate: number;
   duration: number;
-  format: 'mitbih' | 'csv' | 'xml' | 'unknown';
+  format: 'mitbih' | 'csv' | 'sierra' | 'muse' | 'wfdb' | 'edf' | 'aecg' | 'dicom' | 'scp' | 'unknown';
   metadata?: {
     recordName?: string;
     lead?: string;
     units?: string;
+    patientId?: string;
+    patientName?: string;
+    patientBirthDate?: string;
+    patientSex?: string;
+    studyDate?: string;
+    studyDescription?: string;
+    manufacturer?: string;
+    recordingInfo?: string;
+    startTime?: string;
   };
 }
 
 /**
- * Parse MIT-BIH CSV format with automatic header detection and ADC conversion.
+ * Infer whether raw values are millivolts, microvolts or unsigned ADC counts from their range.
+ * Unsigned integers are assumed to be MIT-BIH style counts (200 per mV, mid-scale baseline).
  */
-export async function parseMITBIH_CSV(file: File): Promise<ParsedECGData> {
-  const text = await file.text();
-  const lines = text.trim().split('\n');
-  
-  if (lines.length < 2) {
-    throw new Error('File is empty or has insufficient data');
+export function detectAmplitudeCalibration(values: ArrayLike<number>): AmplitudeCalibration {
+  let min = Infinity;
+  let max = -Infinity;
+  let integral = true;
+
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (isNaN(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+    if (integral && !Number.isInteger(v)) integral = false;
   }
 
-  const voltages: number[] = [];
-  let sampleRate = 360;
-  let hasHeader = false;
-  let leadColumn = 1;
+  // A surface ECG spans a few mV; hundreds or thousands indicate counts or microvolts
+  if (!(Math.max(Math.abs(min), Math.abs(max)) > 100)) {
+    return { gain: 1, baseline: 0, units: 'mV', source: 'auto' };
+  }
 
-  const firstLine = lines[0].trim();
-  const firstLineLower = firstLine.toLowerCase();
-  
-  if (
-    firstLineLower.includes('time') || 
-    firstLineLower.includes('sample') ||
-    firstLineLower.includes('mlii') ||
-    firstLineLower.includes('v1') ||
-    firstLineLower.includes('v5')
-  ) {
-    hasHeader = true;
-    
-    const headers = firstLine.split(',').map(h => h.trim().toLowerCase());
-    const mliiIndex = headers.findIndex(h => h.includes('mlii'));
-    if (mliiIndex !== -1) {
-      leadColumn = mliiIndex;
+  if (integral && min >= 0) {
+    const bits = Math.max(11, Math.ceil(Math.log2(max + 1)));
+    return { gain: 200, baseline: 2 ** (bits - 1), units: 'adc', source: 'auto' };
+  }
+
+  return { gain: 1000, baseline: 0, units: 'uV', source: 'auto' };
+}
+
+/**
+ * Human-readable summary of a calibration for display next to the record.
+ */
+export function describeCalibration(calibration: AmplitudeCalibration): string {
+  const origin = { file: 'from file', auto: 'auto-detected', user: 'set by user' }[calibration.source];
+
+  switch (calibration.units) {
+    case 'mV':
+      return `Millivolts (${origin})`;
+    case 'uV':
+      return `Microvolts (${origin})`;
+    default:
+      return `ADC counts: ${+calibration.gain.toPrecision(6)} per mV, ` +
+        `baseline ${+calibration.baseline.toPrecision(6)} (${origin})`;
+  }
+}
+
+/**
+ * Apply a calibration in place, converting raw values to millivolts.
+ */
+function applyCalibration(values: Float32Array, calibration: AmplitudeCalibration): Float32Array {
+  if (calibration.gain !== 1 || calibration.baseline !== 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] = (values[i] - calibration.baseline) / calibration.gain;
     }
   }
+  return values;
+}
 
-  const startLine = hasHeader ? 1 : 0;
-  
-  for (let i = startLine; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; 
+/**
+ * Progress callback reporting bytes consumed out of the total file size.
+ */
+export type ParseProgressCallback = (loaded: number, total: number) => void;
 
-    const values = line.split(',').map(v => v.trim());
-    
-    if (values.length < 2) {
-      continue;
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Growable Float32Array for streaming samples without intermediate number[] arrays.
+ */
+class SampleBuffer {
+  private data = new Float32Array(64 * 1024);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = value;
+  }
+
+  toArray(): Float32Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+/**
+ * Read a file sequentially in fixed-size chunks via Blob.slice.
+ * Chunk size is rounded down to a multiple of `alignment` bytes.
+ */
+async function readFileChunks(
+  file: Blob,
+  onChunk: (chunk: ArrayBuffer, offset: number) => void,
+  onProgress?: ParseProgressCallback,
+  start = 0,
+  alignment = 1
+): Promise<void> {
+  const chunkSize = Math.max(alignment, READ_CHUNK_BYTES - (READ_CHUNK_BYTES % alignment));
+
+  for (let offset = start; offset < file.size; offset += chunkSize) {
+    const chunk = await file.slice(offset, Math.min(offset + chunkSize, file.size)).arrayBuffer();
+    onChunk(chunk, offset);
+    onProgress?.(Math.min(offset + chunkSize, file.size), file.size);
+  }
+}
+
+/**
+ * Stream a text file line by line, decoding chunk boundaries safely.
+ */
+async function readTextLines(
+  file: File,
+  onLine: (line: string, index: number) => void,
+  onProgress?: ParseProgressCallback
+): Promise<number> {
+  const decoder = new TextDecoder('utf-8');
+  let remainder = '';
+  let index = 0;
+
+  await readFileChunks(file, (chunk) => {
+    const text = remainder + decoder.decode(chunk, { stream: true });
+    const lines = text.split('\n');
+    remainder = lines.pop() || '';
+    for (const line of lines) {
+      onLine(line, index++);
+    }
+  }, onProgress);
+
+  remainder += decoder.decode();
+  if (remainder) {
+    onLine(remainder, index++);
+  }
+
+  return index;
+}
+
+/**
+ * Parse MIT-BIH CSV format with automatic header detection.
+ * Raw ADC counts are recognized by their range and converted with the detected calibration.
+ * The files carry no rate; `sampleRate` defaults to the MIT-BIH Arrhythmia Database's 360 Hz.
+ */
+export async function parseMITBIH_CSV(file: File, onProgress?: ParseProgressCallback, sampleRate = 360): Promise<ParsedECGData> {
+  const buffer = new SampleBuffer();
+  let leadColumn = 1;
+
+  const lineCount = await readTextLines(file, (rawLine, index) => {
+    const line = rawLine.trim();
+
+    if (index === 0) {
+      const firstLineLower = line.toLowerCase();
+      if (
+        firstLineLower.includes('time') || 
+        firstLineLower.includes('sample') ||
+        firstLineLower.includes('mlii') ||
+        firstLineLower.includes('v1') ||
+        firstLineLower.includes('v5')
+      ) {
+        const headers = line.split(',').map(h => h.trim().toLowerCase());
+        const mliiIndex = headers.findIndex(h => h.includes('mlii'));
+        if (mliiIndex !== -1) {
+          leadColumn = mliiIndex;
+        }
+        return;
+      }
     }
 
-    let voltage = parseFloat(values[leadColumn]);
+    if (!line) return;
+
+    const values = line.split(',');
     
-    if (isNaN(voltage)) {
-      continue;
+    if (values.length < 2) {
+      return;
     }
 
-    // ADC to millivolt conversion for raw MIT-BIH data
-    if (voltage > 100) {
-        voltage = (voltage - 1024) / 200;
+    const value = parseFloat(values[leadColumn]);
+    
+    if (isNaN(value)) {
+      return;
     }
 
-    // Clamp outliers
-    if (voltage > 5) voltage = 5;
-    if (voltage < -5) voltage = -5;
+    buffer.push(value);
+  }, onProgress);
 
-    voltages.push(voltage);
+  if (lineCount < 2) {
+    throw new Error('File is empty or has insufficient data');
   }
 
-  if (voltages.length === 0) {
+  if (buffer.length === 0) {
     throw new Error('No valid voltage data found in file');
   }
 
+  const raw = buffer.toArray();
+  const calibration = detectAmplitudeCalibration(raw);
+  const voltages = applyCalibration(raw, calibration);
   const duration = voltages.length / sampleRate;
 
-  console.log(`[Parser] MIT-BIH CSV parsed: ${voltages.length} samples, ${duration.toFixed(1)}s`);
+  console.log(`[Parser] MIT-BIH CSV parsed: ${voltages.length} samples, ${duration.toFixed(1)}s, ${describeCalibration(calibration)}`);
 
   return {
     voltages,
+    leads: [{ name: 'MLII', voltages, units: 'mV' }],
+    calibration,
     sampleRate,
     duration,
     format: 'mitbih',
@@ -102,52 +276,51 @@ export async function parseMITBIH_CSV(file: File): Promise<ParsedECGData> {
 
 /**
  * Parse generic time-series CSV with sample rate estimation.
+ * `defaultSampleRate` is used when there is no usable time column.
  */
-export async function parseGenericCSV(file: File): Promise<ParsedECGData> {
-  const text = await file.text();
-  const lines = text.trim().split('\n');
-
-  if (lines.length < 2) {
-    throw new Error('File is empty or has insufficient data');
-  }
-
-  const voltages: number[] = [];
+export async function parseGenericCSV(file: File, onProgress?: ParseProgressCallback, defaultSampleRate = 250): Promise<ParsedECGData> {
+  const buffer = new SampleBuffer();
   const times: number[] = [];
-  let hasHeader = false;
 
-  const firstLine = lines[0].trim().toLowerCase();
-  if (firstLine.includes('time') || firstLine.includes('voltage') || firstLine.includes('ecg')) {
-    hasHeader = true;
-  }
+  const lineCount = await readTextLines(file, (rawLine, index) => {
+    const line = rawLine.trim();
 
-  const startLine = hasHeader ? 1 : 0;
+    if (index === 0) {
+      const firstLine = line.toLowerCase();
+      if (firstLine.includes('time') || firstLine.includes('voltage') || firstLine.includes('ecg')) {
+        return;
+      }
+    }
 
-  for (let i = startLine; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+    if (!line) return;
 
-    const values = line.split(',').map(v => v.trim());
+    const values = line.split(',');
     
-    if (values.length < 2) continue;
+    if (values.length < 2) return;
 
     const time = parseFloat(values[0]);
     const voltage = parseFloat(values[1]);
 
     if (!isNaN(time) && !isNaN(voltage)) {
-      times.push(time);
-      voltages.push(voltage);
+      // Only the leading timestamps are needed for rate estimation
+      if (times.length < 100) times.push(time);
+      buffer.push(voltage);
     }
+  }, onProgress);
+
+  if (lineCount < 2) {
+    throw new Error('File is empty or has insufficient data');
   }
 
-  if (voltages.length === 0) {
+  if (buffer.length === 0) {
     throw new Error('No valid data found in CSV');
   }
 
   // Estimate sample rate from time intervals
-  let sampleRate = 250;
+  let sampleRate = defaultSampleRate;
   if (times.length > 1) {
     const intervals = [];
-    for (let i = 1; i < Math.min(100, times.length); i++) {
+    for (let i = 1; i < times.length; i++) {
       intervals.push(times[i] - times[i-1]);
     }
     const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
@@ -156,12 +329,17 @@ export async function parseGenericCSV(file: File): Promise<ParsedECGData> {
     }
   }
 
+  const raw = buffer.toArray();
+  const calibration = detectAmplitudeCalibration(raw);
+  const voltages = applyCalibration(raw, calibration);
   const duration = voltages.length / sampleRate;
 
-  console.log(`[Parser] Generic CSV parsed: ${voltages.length} samples @ ${sampleRate}Hz, ${duration.toFixed(1)}s`);
+  console.log(`[Parser] Generic CSV parsed: ${voltages.length} samples @ ${sampleRate}Hz, ${duration.toFixed(1)}s, ${describeCalibration(calibration)}`);
 
   return {
     voltages,
+    leads: [{ name: 'ECG', voltages, units: 'mV' }],
+    calibration,
     sampleRate,
     duration,
     format: 'csv',
@@ -173,110 +351,2067 @@ export async function parseGenericCSV(file: File): Promise<ParsedECGData> {
 }
 
 /**
- * Parse Philips XML format with waveform extraction.
+ * User-confirmed CSV column layout from the import wizard.
+ * ADC counts are converted as (value - baseline) / gain, with gain in counts per mV.
  */
-export async function parsePhilipsXML(file: File): Promise<ParsedECGData> {
-  const text = await file.text();
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(text, 'text/xml');
+export interface CSVImportMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  timeColumn: number | null;
+  leadColumns: { index: number; name: string }[];
+  units: AmplitudeUnits;
+  gain: number;
+  baseline: number;
+  sampleRate: number;
+}
 
-  const parserError = xmlDoc.querySelector('parsererror');
-  if (parserError) {
-    throw new Error('Invalid XML format');
+export interface CSVPreview {
+  lines: string[];
+  layoutKey: string;
+  suggested: CSVImportMapping;
+}
+
+const CSV_DELIMITERS = [',', ';', '\t', ' '];
+const CSV_PREVIEW_BYTES = 64 * 1024;
+
+/**
+ * Split a delimited line; a space delimiter matches any run of whitespace.
+ * Surrounding quotes are removed from each field.
+ */
+export function splitCSVLine(line: string, delimiter: string): string[] {
+  const trimmed = line.trim();
+  const fields = delimiter === ' ' ? trimmed.split(/\s+/) : trimmed.split(delimiter);
+  return fields.map(v => v.trim().replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+/**
+ * Pick the delimiter that splits the sample lines into the same number (> 1) of fields.
+ */
+function guessDelimiter(lines: string[]): string {
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(l => splitCSVLine(l, delimiter).length);
+    if (counts[0] > 1 && counts.every(c => c === counts[0])) {
+      return delimiter;
+    }
   }
+  return ',';
+}
 
-  const waveformNodes = xmlDoc.querySelectorAll('waveformdata, WaveFormData, lead');
-  
-  if (waveformNodes.length === 0) {
-    throw new Error('No waveform data found in XML');
+/**
+ * Key identifying a CSV layout (delimiter plus header names or column count).
+ */
+function csvLayoutKey(delimiter: string, headers: string[] | null, columnCount: number): string {
+  const columns = headers ? headers.map(h => h.toLowerCase()).join('|') : `${columnCount} columns`;
+  return `${JSON.stringify(delimiter)}:${columns}`;
+}
+
+/**
+ * Estimate sample rate from the mean spacing of a time column (seconds).
+ */
+function estimateSampleRate(times: number[]): number | null {
+  if (times.length < 2) return null;
+  const avgInterval = (times[times.length - 1] - times[0]) / (times.length - 1);
+  return avgInterval > 0 ? Math.round(1 / avgInterval) : null;
+}
+
+/**
+ * Read the first rows of a CSV/text file and suggest a column mapping.
+ * Suggestions reproduce the automatic MIT-BIH/generic heuristics so the user can confirm or correct them.
+ * `defaultSampleRate` replaces the per-format fallback rate when the file has no time column.
+ */
+export async function previewCSV(file: File, maxRows = 20, defaultSampleRate?: number): Promise<CSVPreview> {
+  const text = new TextDecoder('utf-8').decode(await file.slice(0, CSV_PREVIEW_BYTES).arrayBuffer());
+  const lines = text.split(/\r?\n/);
+  if (file.size > CSV_PREVIEW_BYTES) lines.pop(); // last line may be cut off
+  const sample = lines.filter(l => l.trim()).slice(0, maxRows + 1);
+
+  if (sample.length === 0) {
+    throw new Error('File is empty or has insufficient data');
   }
 
-  const voltages: number[] = [];
-  let sampleRate = 250;
+  const delimiter = guessDelimiter(sample.slice(0, 10));
+  const firstRow = splitCSVLine(sample[0], delimiter);
+  const hasHeader = firstRow.some(v => v !== '' && isNaN(Number(v)));
+  const headers = hasHeader ? firstRow : null;
+  const rows = sample.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + maxRows).map(l => splitCSVLine(l, delimiter));
+  const columnCount = Math.max(firstRow.length, ...rows.map(r => r.length));
 
-  const sampleRateNode = xmlDoc.querySelector('samplerate, SampleRate');
-  if (sampleRateNode) {
-    const rate = parseFloat(sampleRateNode.textContent || '250');
-    if (!isNaN(rate)) {
-      sampleRate = rate;
-    }
+  const lowerHeaders = (headers || []).map(h => h.toLowerCase());
+  const timeIndex = lowerHeaders.findIndex(h => /time|sec/.test(h));
+  const indexColumns = lowerHeaders
+    .map((h, i) => (/sample|index|^#$/.test(h) ? i : -1))
+    .filter(i => i !== -1);
+
+  // Without a header, a strictly increasing first column is treated as time
+  let timeColumn: number | null = timeIndex !== -1 ? timeIndex : null;
+  if (!headers && columnCount > 1 && rows.length > 1 &&
+      rows.every((r, i) => i === 0 || Number(r[0]) > Number(rows[i - 1][0]))) {
+    timeColumn = 0;
   }
 
-  for (const node of Array.from(waveformNodes)) {
-    const dataText = node.textContent || '';
-    const values = dataText.split(/[\s,]+/).map(v => parseFloat(v.trim())).filter(v => !isNaN(v));
-    voltages.push(...values);
+  const leadIndices = Array.from({ length: columnCount }, (_, i) => i)
+    .filter(i => i !== timeColumn && !indexColumns.includes(i));
+  const mliiIndex = lowerHeaders.findIndex(h => h.includes('mlii'));
+  const leadColumns = leadIndices.map(index => ({
+    index,
+    name: headers?.[index] || (leadIndices.length > 1 ? `Lead ${index + 1}` : 'ECG')
+  }));
+
+  const detected = detectAmplitudeCalibration(rows.flatMap(r => leadColumns.map(c => Number(r[c.index]))));
+  const isADC = detected.units === 'adc';
+
+  const timeValues = timeColumn !== null ? rows.map(r => Number(r[timeColumn!])).filter(t => !isNaN(t)) : [];
+  const isMITBIH = mliiIndex !== -1 || isADC;
+  const sampleRate = (timeColumn !== null && !indexColumns.includes(timeColumn) ? estimateSampleRate(timeValues) : null)
+    || defaultSampleRate
+    || (isMITBIH ? 360 : 250);
+
+  return {
+    lines: sample,
+    layoutKey: csvLayoutKey(delimiter, headers, columnCount),
+    suggested: {
+      delimiter,
+      hasHeader,
+      timeColumn,
+      leadColumns,
+      units: detected.units,
+      gain: isADC ? detected.gain : 200,
+      baseline: isADC ? detected.baseline : 1024,
+      sampleRate
+    }
+  };
+}
+
+/**
+ * Parse a CSV/text file with an explicit column and unit mapping.
+ */
+export async function parseCSVWithMapping(
+  file: File,
+  mapping: CSVImportMapping,
+  onProgress?: ParseProgressCallback
+): Promise<ParsedECGData> {
+  if (mapping.leadColumns.length === 0) {
+    throw new Error('CSV mapping does not select any lead columns');
+  }
+  if (!(mapping.sampleRate > 0)) {
+    throw new Error('CSV mapping requires a positive sample rate');
+  }
+  if (mapping.units === 'adc' && !(mapping.gain > 0)) {
+    throw new Error('ADC gain must be positive');
   }
 
-  if (voltages.length === 0) {
-    throw new Error('No valid waveform data extracted from XML');
+  const calibration: AmplitudeCalibration = {
+    gain: mapping.units === 'adc' ? mapping.gain : mapping.units === 'uV' ? 1000 : 1,
+    baseline: mapping.units === 'adc' ? mapping.baseline : 0,
+    units: mapping.units,
+    source: 'user'
+  };
+
+  const buffers = mapping.leadColumns.map(() => new SampleBuffer());
+  let skippedRows = 0;
+
+  await readTextLines(file, (rawLine, index) => {
+    if (index === 0 && mapping.hasHeader) return;
+    if (!rawLine.trim()) return;
+
+    const values = splitCSVLine(rawLine, mapping.delimiter);
+    const samples = mapping.leadColumns.map(c => parseFloat(values[c.index]));
+
+    // Rows with a missing lead value are dropped so leads stay sample-aligned
+    if (samples.some(v => isNaN(v))) {
+      skippedRows++;
+      return;
+    }
+    samples.forEach((v, c) => buffers[c].push(v));
+  }, onProgress);
+
+  if (buffers[0].length === 0) {
+    throw new Error('No valid voltage data found in file');
+  }
+  if (skippedRows > 0) {
+    console.warn(`[Parser] CSV import skipped ${skippedRows} rows with non-numeric lead values`);
   }
 
-  const duration = voltages.length / sampleRate;
+  const leads: ECGLead[] = mapping.leadColumns.map((c, i) => ({
+    name: c.name,
+    voltages: applyCalibration(buffers[i].toArray(), calibration),
+    units: 'mV'
+  }));
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / mapping.sampleRate;
 
-  console.log(`[Parser] Philips XML parsed: ${voltages.length} samples @ ${sampleRate}Hz`);
+  console.log(`[Parser] Mapped CSV parsed: ${leads.length} leads, ${primary.voltages.length} samples @ ${mapping.sampleRate}Hz`);
 
   return {
-    voltages,
-    sampleRate,
+    voltages: primary.voltages,
+    leads,
+    calibration,
+    sampleRate: mapping.sampleRate,
     duration,
-    format: 'xml',
+    format: 'csv',
     metadata: {
       recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
       units: 'mV'
     }
   };
 }
 
+interface WFDBSignalSpec {
+  fileName: string;
+  format: number;
+  samplesPerFrame: number;
+  byteOffset: number;
+  gain: number;
+  baseline: number;
+  units: string;
+  description: string;
+}
+
+interface WFDBHeader {
+  recordName: string;
+  sampleRate: number;
+  numSamples: number;
+  signals: WFDBSignalSpec[];
+}
+
 /**
- * Auto-detect file format and parse with fallback strategy.
+ * Conversion factor from a voltage unit to millivolts (null for non-voltage channels).
  */
-export async function parseECGFile(file: File): Promise<ParsedECGData> {
-  const fileName = file.name.toLowerCase();
+function voltageUnitScale(units: string): number | null {
+  const normalized = units.trim().toLowerCase();
+  if (normalized === 'mv') return 1;
+  if (normalized === 'uv' || normalized === 'µv' || normalized === 'μv') return 0.001;
+  if (normalized === 'nv') return 0.000001;
+  if (normalized === 'v') return 1000;
+  return null;
+}
 
-  console.log(`[Parser] Parsing file: ${file.name} (${(file.size / 1024).toFixed(1)} KB)`);
+/**
+ * Pick the lead used for single-channel analysis, preferring Lead II / MLII.
+ */
+function selectPrimaryLead(leads: ECGLead[]): ECGLead {
+  const preferred = ['ii', 'mlii', 'ecg ii', 'lead ii'];
+  const voltageLeads = leads.filter(l => l.units === 'mV');
+  const candidates = voltageLeads.length > 0 ? voltageLeads : leads;
 
-  try {
-    if (fileName.endsWith('.xml')) {
-      return await parsePhilipsXML(file);
-    } else if (fileName.endsWith('.csv') || fileName.endsWith('.txt')) {
-      try {
-        return await parseMITBIH_CSV(file);
-      } catch (error) {
-        console.warn('[Parser] MIT-BIH format failed, trying generic CSV...', error);
-        return await parseGenericCSV(file);
+  return candidates.find(l => preferred.includes(l.name.trim().toLowerCase())) || candidates[0];
+}
+
+/**
+ * Parse WFDB header text (record line followed by one line per signal).
+ */
+function parseWFDBHeader(text: string): WFDBHeader {
+  const lines = text
+    .split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith('#'));
+
+  if (lines.length === 0) {
+    throw new Error('WFDB header is empty');
+  }
+
+  const recordFields = lines[0].split(/\s+/);
+  const [recordName, segmentSpec] = recordFields[0].split('/');
+
+  if (segmentSpec) {
+    throw new Error('Multi-segment WFDB records are not supported');
+  }
+
+  const numSignals = parseInt(recordFields[1], 10);
+  if (isNaN(numSignals) || numSignals < 1) {
+    throw new Error('WFDB header does not declare any signals');
+  }
+
+  // Sampling frequency may carry a counter frequency suffix (e.g. "360/1(0)")
+  const sampleRate = recordFields[2] ? parseFloat(recordFields[2]) : 250;
+  const numSamples = recordFields[3] ? parseInt(recordFields[3], 10) : 0;
+
+  if (lines.length < numSignals + 1) {
+    throw new Error(`WFDB header declares ${numSignals} signals but only ${lines.length - 1} are specified`);
+  }
+
+  const signals: WFDBSignalSpec[] = [];
+
+  for (let i = 1; i <= numSignals; i++) {
+    const fields = lines[i].split(/\s+/);
+
+    const formatMatch = /^(\d+)(?:x(\d+))?(?::\d+)?(?:\+(\d+))?$/.exec(fields[1] || '');
+    if (!formatMatch) {
+      throw new Error(`Invalid WFDB format field: ${fields[1]}`);
+    }
+
+    const adcZero = fields[4] ? parseInt(fields[4], 10) : 0;
+    let gain = 200;
+    let baseline = adcZero;
+    let units = 'mV';
+
+    const gainMatch = /^([-+\d.eE]+)(?:\((-?\d+)\))?(?:\/(\S+))?$/.exec(fields[2] || '');
+    if (gainMatch) {
+      const parsedGain = parseFloat(gainMatch[1]);
+      if (parsedGain) gain = parsedGain;
+      if (gainMatch[2] !== undefined) baseline = parseInt(gainMatch[2], 10);
+      if (gainMatch[3]) units = gainMatch[3];
+    }
+
+    signals.push({
+      fileName: fields[0],
+      format: parseInt(formatMatch[1], 10),
+      samplesPerFrame: formatMatch[2] ? parseInt(formatMatch[2], 10) : 1,
+      byteOffset: formatMatch[3] ? parseInt(formatMatch[3], 10) : 0,
+      gain,
+      baseline,
+      units,
+      description: fields.length > 8 ? fields.slice(8).join(' ') : `Signal ${i}`
+    });
+  }
+
+  return { recordName, sampleRate, numSamples, signals };
+}
+
+/**
+ * Byte alignment that keeps a chunk of a WFDB signal file on a whole-frame boundary.
+ */
+function wfdbFrameAlignment(format: number, numChannels: number): number {
+  switch (format) {
+    case 212: return 3 * numChannels; // two frames of 12-bit samples
+    case 16: return 2 * numChannels;
+    case 80: return numChannels;
+    default:
+      throw new Error(`Unsupported WFDB signal format: ${format}`);
+  }
+}
+
+/**
+ * Decode interleaved digital samples from a WFDB signal chunk (formats 212, 16 and 80).
+ * Invalid samples (WFDB "skew" sentinel values) are returned as NaN.
+ */
+function decodeWFDBSamples(bytes: Uint8Array, format: number, numChannels: number): Float64Array[] {
+  let samples: Float64Array;
+
+  switch (format) {
+    case 212: {
+      const total = Math.floor((bytes.length * 2) / 3);
+      samples = new Float64Array(total);
+      // Two 12-bit samples packed into every three bytes
+      for (let i = 0, j = 0; j < total; i += 3, j += 2) {
+        let first = bytes[i] | ((bytes[i + 1] & 0x0f) << 8);
+        if (first > 2047) first -= 4096;
+        samples[j] = first === -2048 ? NaN : first;
+
+        if (j + 1 < total) {
+          let second = bytes[i + 2] | ((bytes[i + 1] & 0xf0) << 4);
+          if (second > 2047) second -= 4096;
+          samples[j + 1] = second === -2048 ? NaN : second;
+        }
       }
-    } else {
-      throw new Error(`Unsupported file format: ${fileName}`);
+      break;
     }
-  } catch (error) {
-    console.error('[Parser] Parsing failed:', error);
-    throw new Error(`Failed to parse ECG file: ${error}`);
+    case 16: {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      samples = new Float64Array(Math.floor(bytes.length / 2));
+      for (let j = 0; j < samples.length; j++) {
+        const value = view.getInt16(j * 2, true);
+        samples[j] = value === -32768 ? NaN : value;
+      }
+      break;
+    }
+    case 80: {
+      samples = new Float64Array(bytes.length);
+      for (let j = 0; j < samples.length; j++) {
+        const value = bytes[j] - 128;
+        samples[j] = value === -128 ? NaN : value;
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unsupported WFDB signal format: ${format}`);
+  }
+
+  // De-interleave frames into per-channel arrays
+  const frames = Math.floor(samples.length / numChannels);
+  const channels: Float64Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    const channel = new Float64Array(frames);
+    for (let f = 0; f < frames; f++) {
+      channel[f] = samples[f * numChannels + c];
+    }
+    channels.push(channel);
   }
+
+  return channels;
 }
 
 /**
- * Validate parsed ECG data for quality and completeness.
+ * Parse WFDB record from its header (.hea) and signal (.dat) files.
+ * Signal files are decoded in frame-aligned chunks so long Holter records never sit in memory twice.
  */
-export function validateECGData(data: ParsedECGData): { valid: boolean; warnings: string[] } {
-  const warnings: string[] = [];
+export async function parseWFDB(
+  headerFile: File,
+  signalFiles: File[],
+  onProgress?: ParseProgressCallback
+): Promise<ParsedECGData> {
+  const header = parseWFDBHeader(await headerFile.text());
+  const signals = header.signals.filter(s => s.format !== 0);
 
-  if (data.voltages.length < 100) {
-    warnings.push('Very short signal (< 100 samples). Results may be unreliable.');
+  if (signals.length === 0) {
+    throw new Error('WFDB record contains no stored signals');
   }
 
-  // Compute amplitude range
-  let max = -Infinity;
-  let min = Infinity;
-  
-  for (let i = 0; i < data.voltages.length; i++) {
-    const v = data.voltages[i];
-    if (v > max) max = v;
-    if (v < min) min = v;
+  // Signals stored in the same file are interleaved frame by frame
+  const fileGroups = new Map<string, WFDBSignalSpec[]>();
+  for (const spec of signals) {
+    const group = fileGroups.get(spec.fileName) || [];
+    group.push(spec);
+    fileGroups.set(spec.fileName, group);
   }
-  
-  if (max > 100 || min < -100) {
-    warnings.push('Voltage values seem unusually large. Data might be in raw ADC units instead of mV.');
+
+  const groupFiles = new Map<string, File>();
+  for (const [fileName, group] of fileGroups) {
+    if (group.some(s => s.format !== group[0].format)) {
+      throw new Error(`Mixed signal formats in ${fileName} are not supported`);
+    }
+    if (group.some(s => s.samplesPerFrame !== 1)) {
+      throw new Error(`Multi-frequency WFDB signals in ${fileName} are not supported`);
+    }
+
+    const signalFile = signalFiles.find(f => f.name.toLowerCase() === fileName.toLowerCase());
+    if (!signalFile) {
+      throw new Error(`Missing WFDB signal file: ${fileName}`);
+    }
+    groupFiles.set(fileName, signalFile);
+  }
+
+  const totalBytes = Array.from(groupFiles.values()).reduce((sum, f) => sum + f.size, 0);
+  let bytesBefore = 0;
+  const leads: ECGLead[] = [];
+  const calibrations = new Map<ECGLead, AmplitudeCalibration>();
+
+  for (const [fileName, group] of fileGroups) {
+    const signalFile = groupFiles.get(fileName)!;
+    const format = group[0].format;
+    const byteOffset = group[0].byteOffset;
+    const alignment = wfdbFrameAlignment(format, group.length);
+    const framesPerAlignment = format === 212 ? 2 : 1;
+    const sampleLimit = format === 212 ? 2047 : format === 16 ? 32767 : 127;
+
+    const bytesPerFrame = alignment / framesPerAlignment;
+    const availableFrames = Math.floor(Math.max(0, signalFile.size - byteOffset) / bytesPerFrame);
+    const frames = header.numSamples > 0 ? Math.min(header.numSamples, availableFrames) : availableFrames;
+
+    const scales = group.map(spec => voltageUnitScale(spec.units));
+    const outputs = group.map(() => new Float32Array(frames));
+    const lastValid = group.map(() => 0);
+    const invalidCounts = group.map(() => 0);
+    const clippedCounts = group.map(() => 0);
+
+    await readFileChunks(signalFile, (chunk, offset) => {
+      const channels = decodeWFDBSamples(new Uint8Array(chunk), format, group.length);
+      const frameStart = ((offset - byteOffset) / alignment) * framesPerAlignment;
+
+      group.forEach((spec, c) => {
+        const digital = channels[c];
+        const voltages = outputs[c];
+        const count = Math.min(digital.length, frames - frameStart);
+
+        for (let f = 0; f < count; f++) {
+          if (isNaN(digital[f])) {
+            voltages[frameStart + f] = lastValid[c];
+            invalidCounts[c]++;
+            continue;
+          }
+          if (Math.abs(digital[f]) >= sampleLimit) clippedCounts[c]++;
+          const physical = (digital[f] - spec.baseline) / spec.gain;
+          lastValid[c] = scales[c] !== null ? physical * scales[c]! : physical;
+          voltages[frameStart + f] = lastValid[c];
+        }
+      });
+    }, (loaded) => onProgress?.(bytesBefore + loaded, totalBytes), byteOffset, alignment);
+
+    bytesBefore += signalFile.size;
+
+    group.forEach((spec, c) => {
+      if (invalidCounts[c] > 0) {
+        console.warn(`[Parser] WFDB ${spec.description}: ${invalidCounts[c]} invalid samples held at previous value`);
+      }
+
+      const lead: ECGLead = {
+        name: spec.description,
+        voltages: outputs[c],
+        units: scales[c] !== null ? 'mV' : spec.units,
+        clippedSamples: clippedCounts[c]
+      };
+      leads.push(lead);
+      calibrations.set(lead, {
+        gain: scales[c] !== null ? spec.gain / scales[c]! : spec.gain,
+        baseline: spec.baseline,
+        units: 'adc',
+        source: 'file',
+        clippedSamples: clippedCounts[c]
+      });
+    });
+  }
+
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / header.sampleRate;
+
+  console.log(`[Parser] WFDB record parsed: ${leads.length} signals, ${primary.voltages.length} samples @ ${header.sampleRate}Hz`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: calibrations.get(primary)!,
+    sampleRate: header.sampleRate,
+    duration,
+    format: 'wfdb',
+    metadata: {
+      recordName: header.recordName,
+      lead: primary.name,
+      units: primary.units
+    }
+  };
+}
+
+interface EDFSignalHeader {
+  label: string;
+  physicalDimension: string;
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin: number;
+  digitalMax: number;
+  samplesPerRecord: number;
+}
+
+const STANDARD_LEAD_NAMES = ['i', 'ii', 'iii', 'avr', 'avl', 'avf', 'v1', 'v2', 'v3', 'v4', 'v5', 'v6', 'mlii'];
+
+/**
+ * Check whether an EDF signal label describes an ECG channel.
+ */
+function isECGLabel(label: string): boolean {
+  const normalized = label.trim().toLowerCase();
+  if (/\b(ecg|ekg)\b/.test(normalized)) return true;
+  return STANDARD_LEAD_NAMES.includes(normalized.replace(/^lead\s+/, ''));
+}
+
+/**
+ * Parse Time-stamped Annotation Lists from an EDF+ "EDF Annotations" record block.
+ */
+function parseEDFAnnotations(bytes: Uint8Array, events: ParsedEvent[]): void {
+  const text = new TextDecoder('utf-8').decode(bytes);
+
+  for (const tal of text.split('\x00')) {
+    if (!tal) continue;
+
+    const parts = tal.split('\x14');
+    const [onsetText, durationText] = parts[0].split('\x15');
+    const onset = parseFloat(onsetText);
+    if (isNaN(onset)) continue;
+
+    const duration = durationText ? parseFloat(durationText) : undefined;
+
+    // The first TAL of each record only carries the record timestamp (empty labels)
+    for (const label of parts.slice(1)) {
+      if (label.trim()) {
+        events.push({ onset, duration, label: label.trim() });
+      }
+    }
+  }
+}
+
+/**
+ * Parse EDF/EDF+ recording with per-signal scaling and annotation extraction.
+ */
+export async function parseEDF(file: File, onProgress?: ParseProgressCallback): Promise<ParsedECGData> {
+  let bytes = new Uint8Array(await file.slice(0, 256).arrayBuffer());
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length)).trim();
+
+  if (bytes.length < 256 || ascii(0, 8) !== '0') {
+    throw new Error('Invalid EDF header');
+  }
+
+  const patientField = ascii(8, 80);
+  const recordingField = ascii(88, 80);
+  const startDate = ascii(168, 8);
+  const startTime = ascii(176, 8);
+  const headerBytes = parseInt(ascii(184, 8), 10);
+  const reserved = ascii(192, 44);
+  const declaredRecords = parseInt(ascii(236, 8), 10);
+  const recordDuration = parseFloat(ascii(244, 8));
+  const numSignals = parseInt(ascii(252, 4), 10);
+
+  if (isNaN(numSignals) || numSignals < 1 || file.size < 256 + numSignals * 256) {
+    throw new Error('EDF header does not declare any signals');
+  }
+
+  bytes = new Uint8Array(await file.slice(0, 256 + numSignals * 256).arrayBuffer());
+
+  if (!(recordDuration > 0)) {
+    throw new Error('EDF data record duration must be positive');
+  }
+
+  const isEDFPlus = reserved.startsWith('EDF+');
+  if (reserved.startsWith('EDF+D')) {
+    console.warn('[Parser] Discontinuous EDF+ recording; data records are concatenated');
+  }
+
+  // Signal header fields are stored field-by-field for all signals
+  let offset = 256;
+  const readFields = (width: number) => {
+    const values: string[] = [];
+    for (let i = 0; i < numSignals; i++) {
+      values.push(ascii(offset + i * width, width));
+    }
+    offset += numSignals * width;
+    return values;
+  };
+
+  const labels = readFields(16);
+  readFields(80); // transducer type
+  const dimensions = readFields(8);
+  const physicalMins = readFields(8);
+  const physicalMaxs = readFields(8);
+  const digitalMins = readFields(8);
+  const digitalMaxs = readFields(8);
+  readFields(80); // prefiltering
+  const samplesPerRecord = readFields(8);
+
+  const signalHeaders: EDFSignalHeader[] = labels.map((label, i) => ({
+    label,
+    physicalDimension: dimensions[i],
+    physicalMin: parseFloat(physicalMins[i]),
+    physicalMax: parseFloat(physicalMaxs[i]),
+    digitalMin: parseFloat(digitalMins[i]),
+    digitalMax: parseFloat(digitalMaxs[i]),
+    samplesPerRecord: parseInt(samplesPerRecord[i], 10)
+  }));
+
+  const badSignal = signalHeaders.find(s => !(s.samplesPerRecord >= 0));
+  if (badSignal) {
+    throw new Error(`EDF signal ${badSignal.label || '(unnamed)'} has an invalid samples-per-record count`);
+  }
+
+  const recordSamples = signalHeaders.reduce((sum, s) => sum + s.samplesPerRecord, 0);
+  const recordSize = recordSamples * 2;
+  if (!(recordSize > 0) || !isFinite(recordSize)) {
+    throw new Error('EDF data records are empty');
+  }
+  const dataStart = isNaN(headerBytes) ? 256 + numSignals * 256 : headerBytes;
+
+  // Record count may be -1 when the recorder did not finalize the header
+  let numRecords = declaredRecords;
+  const availableRecords = Math.floor((file.size - dataStart) / recordSize);
+  if (isNaN(numRecords) || numRecords < 0 || numRecords > availableRecords) {
+    numRecords = availableRecords;
+  }
+
+  const ecgIndices = signalHeaders
+    .map((s, i) => (s.label !== 'EDF Annotations' && isECGLabel(s.label) ? i : -1))
+    .filter(i => i !== -1);
+  const annotationIndices = signalHeaders
+    .map((s, i) => (s.label === 'EDF Annotations' ? i : -1))
+    .filter(i => i !== -1);
+
+  if (ecgIndices.length === 0) {
+    throw new Error(`No ECG channel found in EDF file (signals: ${labels.join(', ')})`);
+  }
+
+  const sampleRateOf = (i: number) => signalHeaders[i].samplesPerRecord / recordDuration;
+  const sampleRate = sampleRateOf(ecgIndices[0]);
+  if (!(sampleRate > 0)) {
+    throw new Error(`EDF channel ${signalHeaders[ecgIndices[0]].label} has no samples`);
+  }
+
+  // Leads must share one time base; channels at other rates are skipped
+  const selected = ecgIndices.filter(i => {
+    if (sampleRateOf(i) === sampleRate) return true;
+    console.warn(`[Parser] EDF channel ${signalHeaders[i].label} skipped (${sampleRateOf(i)} Hz vs ${sampleRate} Hz)`);
+    return false;
+  });
+
+  const signalOffsets: number[] = [];
+  let cumulative = 0;
+  for (const s of signalHeaders) {
+    signalOffsets.push(cumulative);
+    cumulative += s.samplesPerRecord;
+  }
+
+  const leadSpecs = selected.map(i => {
+    const s = signalHeaders[i];
+    const scale = voltageUnitScale(s.physicalDimension);
+    return {
+      index: i,
+      scale,
+      gain: (s.physicalMax - s.physicalMin) / (s.digitalMax - s.digitalMin),
+      voltages: new Float32Array(numRecords * s.samplesPerRecord),
+      clipped: 0
+    };
+  });
+
+  const events: ParsedEvent[] = [];
+  const dataEnd = dataStart + numRecords * recordSize;
+
+  // Chunks hold whole data records, so record boundaries never straddle a read
+  await readFileChunks(file.slice(0, dataEnd), (chunk, offset) => {
+    const view = new DataView(chunk);
+    const chunkBytes = new Uint8Array(chunk);
+    const firstRecord = (offset - dataStart) / recordSize;
+    const recordsInChunk = Math.floor(chunk.byteLength / recordSize);
+
+    for (let r = 0; r < recordsInChunk; r++) {
+      const recordBase = r * recordSize;
+
+      for (const lead of leadSpecs) {
+        const s = signalHeaders[lead.index];
+        const base = recordBase + signalOffsets[lead.index] * 2;
+        const outBase = (firstRecord + r) * s.samplesPerRecord;
+        for (let k = 0; k < s.samplesPerRecord; k++) {
+          const digital = view.getInt16(base + k * 2, true);
+          if (digital <= s.digitalMin || digital >= s.digitalMax) lead.clipped++;
+          const physical = s.physicalMin + (digital - s.digitalMin) * lead.gain;
+          lead.voltages[outBase + k] = lead.scale !== null ? physical * lead.scale : physical;
+        }
+      }
+
+      for (const i of annotationIndices) {
+        const base = recordBase + signalOffsets[i] * 2;
+        parseEDFAnnotations(chunkBytes.subarray(base, base + signalHeaders[i].samplesPerRecord * 2), events);
+      }
+    }
+  }, (loaded) => onProgress?.(loaded, dataEnd), dataStart, recordSize);
+
+  const calibrations = new Map<ECGLead, AmplitudeCalibration>();
+  const leads: ECGLead[] = leadSpecs.map(lead => {
+    const s = signalHeaders[lead.index];
+    const ecgLead: ECGLead = {
+      name: s.label,
+      voltages: lead.voltages,
+      units: lead.scale !== null ? 'mV' : s.physicalDimension,
+      clippedSamples: lead.clipped
+    };
+    calibrations.set(ecgLead, {
+      gain: 1 / (lead.gain * (lead.scale ?? 1)),
+      baseline: s.digitalMin - s.physicalMin / lead.gain,
+      units: 'adc',
+      source: 'file',
+      clippedSamples: lead.clipped
+    });
+    return ecgLead;
+  });
+
+  events.sort((a, b) => a.onset - b.onset);
+
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / sampleRate;
+
+  console.log(`[Parser] ${isEDFPlus ? 'EDF+' : 'EDF'} parsed: ${leads.length} ECG channels @ ${sampleRate}Hz, ${duration.toFixed(1)}s, ${events.length} annotations`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: calibrations.get(primary)!,
+    events,
+    sampleRate,
+    duration,
+    format: 'edf',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      patientId: patientField || undefined,
+      recordingInfo: recordingField || undefined,
+      startTime: `${startDate} ${startTime}`
+    }
+  };
+}
+
+const AECG_LEAD_NAMES: Record<string, string> = {
+  MDC_ECG_LEAD_I: 'I',
+  MDC_ECG_LEAD_II: 'II',
+  MDC_ECG_LEAD_III: 'III',
+  MDC_ECG_LEAD_AVR: 'aVR',
+  MDC_ECG_LEAD_AVL: 'aVL',
+  MDC_ECG_LEAD_AVF: 'aVF',
+  MDC_ECG_LEAD_V1: 'V1',
+  MDC_ECG_LEAD_V2: 'V2',
+  MDC_ECG_LEAD_V3: 'V3',
+  MDC_ECG_LEAD_V4: 'V4',
+  MDC_ECG_LEAD_V5: 'V5',
+  MDC_ECG_LEAD_V6: 'V6'
+};
+
+/**
+ * Direct child elements matching a local name (namespace-agnostic).
+ */
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName);
+}
+
+function childElement(parent: Element, localName: string): Element | undefined {
+  return childElements(parent, localName)[0];
+}
+
+/**
+ * Convert an HL7 TS value (YYYYMMDDHHMMSS.sss) to milliseconds, ignoring timezone.
+ */
+function parseHL7Timestamp(value: string): number {
+  const match = /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2}(?:\.\d+)?)?/.exec(value);
+  if (!match) return NaN;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '0'] = match;
+  return Date.UTC(+year, +month - 1, +day, +hour, +minute) + parseFloat(second) * 1000;
+}
+
+/**
+ * Convert an HL7 physical quantity to seconds (s or ms).
+ */
+function hl7DurationToSeconds(value: number, unit: string | null): number {
+  return unit === 'ms' ? value / 1000 : value;
+}
+
+/**
+ * Read a parsed XML document from file, rejecting malformed XML.
+ */
+async function readXMLDocument(file: File): Promise<Document> {
+  const text = await file.text();
+  const xmlDoc = new DOMParser().parseFromString(text, 'text/xml');
+
+  if (xmlDoc.querySelector('parsererror')) {
+    throw new Error('Invalid XML format');
+  }
+
+  return xmlDoc;
+}
+
+/**
+ * Parse HL7 aECG (FDA annotated ECG) XML following series/component/sequenceSet structure.
+ */
+export async function parseHL7aECG(file: File): Promise<ParsedECGData> {
+  const xmlDoc = await readXMLDocument(file);
+  const root = xmlDoc.documentElement;
+
+  if (root.localName !== 'AnnotatedECG') {
+    throw new Error('Not an HL7 aECG document');
+  }
+
+  const seriesList = childElements(root, 'component')
+    .map(c => childElement(c, 'series'))
+    .filter((s): s is Element => !!s);
+
+  const series = seriesList.find(s => childElement(s, 'code')?.getAttribute('code') === 'RHYTHM') || seriesList[0];
+  if (!series) {
+    throw new Error('No ECG series found in aECG document');
+  }
+
+  const sequenceSet = childElements(series, 'component')
+    .map(c => childElement(c, 'sequenceSet'))
+    .find((s): s is Element => !!s);
+  if (!sequenceSet) {
+    throw new Error('No sequenceSet found in aECG series');
+  }
+
+  let sampleRate = 0;
+  let startTimestamp = NaN;
+  let startTimeText: string | undefined;
+  const leads: ECGLead[] = [];
+  const calibrations = new Map<ECGLead, AmplitudeCalibration>();
+
+  for (const component of childElements(sequenceSet, 'component')) {
+    const sequence = childElement(component, 'sequence');
+    const value = sequence && childElement(sequence, 'value');
+    if (!sequence || !value) continue;
+
+    const code = childElement(sequence, 'code')?.getAttribute('code') || '';
+
+    if (code === 'TIME_ABSOLUTE' || code === 'TIME_RELATIVE') {
+      const increment = childElement(value, 'increment');
+      const head = childElement(value, 'head');
+      const step = hl7DurationToSeconds(
+        parseFloat(increment?.getAttribute('value') || ''),
+        increment?.getAttribute('unit') || 's'
+      );
+      if (step > 0) sampleRate = 1 / step;
+      if (code === 'TIME_ABSOLUTE' && head?.getAttribute('value')) {
+        startTimeText = head.getAttribute('value')!;
+        startTimestamp = parseHL7Timestamp(startTimeText);
+      }
+      continue;
+    }
+
+    const digits = childElement(value, 'digits');
+    if (!digits) continue;
+
+    const origin = childElement(value, 'origin');
+    const scale = childElement(value, 'scale');
+    const originValue = parseFloat(origin?.getAttribute('value') || '0');
+    const scaleValue = parseFloat(scale?.getAttribute('value') || '1');
+    const units = scale?.getAttribute('unit') || origin?.getAttribute('unit') || 'uV';
+    const unitScale = voltageUnitScale(units);
+
+    const voltages = Float32Array.from(
+      (digits.textContent || '')
+        .trim()
+        .split(/\s+/)
+        .map(d => {
+          const physical = originValue + scaleValue * parseFloat(d);
+          return unitScale !== null ? physical * unitScale : physical;
+        })
+        .filter(v => !isNaN(v))
+    );
+
+    const lead: ECGLead = {
+      name: AECG_LEAD_NAMES[code] || code.replace(/^MDC_ECG_LEAD_/, ''),
+      voltages,
+      units: unitScale !== null ? 'mV' : units
+    };
+    leads.push(lead);
+    calibrations.set(lead, {
+      gain: 1 / (scaleValue * (unitScale ?? 1)),
+      baseline: -originValue / scaleValue,
+      units: 'adc',
+      source: 'file'
+    });
+  }
+
+  if (leads.length === 0) {
+    throw new Error('No lead sequences found in aECG document');
+  }
+  if (!sampleRate) {
+    throw new Error('aECG document has no time sequence increment');
+  }
+
+  // Beat/wave annotations become events; annotations carrying a quantity become measurements
+  const events: ParsedEvent[] = [];
+  const measurements: ParsedMeasurement[] = [];
+
+  for (const subjectOf of childElements(series, 'subjectOf')) {
+    for (const annotation of Array.from(subjectOf.getElementsByTagNameNS('*', 'annotation'))) {
+      const code = childElement(annotation, 'code')?.getAttribute('code') || '';
+      const value = childElement(annotation, 'value');
+      const label = (value?.getAttribute('code') || code).replace(/^MDC_ECG_/, '');
+
+      const quantity = value?.getAttribute('value');
+      if (quantity !== null && quantity !== undefined && !isNaN(parseFloat(quantity))) {
+        measurements.push({
+          name: label,
+          value: parseFloat(quantity),
+          unit: value?.getAttribute('unit') || ''
+        });
+        continue;
+      }
+
+      const roi = childElement(annotation, 'support')?.getElementsByTagNameNS('*', 'boundary');
+      const boundary = roi && Array.from(roi).find(b => {
+        const boundaryCode = childElement(b, 'code')?.getAttribute('code');
+        return boundaryCode === 'TIME_ABSOLUTE' || boundaryCode === 'TIME_RELATIVE';
+      });
+      const range = boundary && childElement(boundary, 'value');
+      if (!range || !label) continue;
+
+      const isAbsolute = childElement(boundary!, 'code')?.getAttribute('code') === 'TIME_ABSOLUTE';
+      const toSeconds = (el?: Element) => {
+        const raw = el?.getAttribute('value');
+        if (!raw) return NaN;
+        return isAbsolute
+          ? (parseHL7Timestamp(raw) - startTimestamp) / 1000
+          : hl7DurationToSeconds(parseFloat(raw), el!.getAttribute('unit'));
+      };
+
+      const onset = toSeconds(childElement(range, 'low'));
+      const end = toSeconds(childElement(range, 'high'));
+      if (isNaN(onset)) continue;
+
+      events.push({
+        onset,
+        duration: isNaN(end) ? undefined : end - onset,
+        label
+      });
+    }
+  }
+  events.sort((a, b) => a.onset - b.onset);
+
+  const subjectId = root.getElementsByTagNameNS('*', 'trialSubject')[0];
+  const patientId = subjectId && childElement(subjectId, 'id')?.getAttribute('extension');
+
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / sampleRate;
+
+  console.log(`[Parser] HL7 aECG parsed: ${leads.length} leads @ ${sampleRate}Hz, ${events.length} annotations, ${measurements.length} measurements`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: calibrations.get(primary)!,
+    events,
+    measurements,
+    sampleRate,
+    duration,
+    format: 'aecg',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      patientId: patientId || undefined,
+      startTime: startTimeText
+    }
+  };
+}
+
+/**
+ * First descendant element matching a local name (namespace-agnostic).
+ */
+function findElement(root: Element | Document, localName: string): Element | undefined {
+  return root.getElementsByTagNameNS('*', localName)[0];
+}
+
+function elementText(root: Element | Document | undefined, localName: string): string | undefined {
+  const text = root && findElement(root, localName)?.textContent?.trim();
+  return text || undefined;
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode LZW stream with fixed-width code points (MSB-first), as used by Philips XLI.
+ */
+function decodeLZW(input: Uint8Array, bits: number): number[] {
+  const maxCode = (1 << bits) - 2;
+  const dictionary: number[][] = [];
+  for (let i = 0; i < 256; i++) dictionary.push([i]);
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let offset = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  while (true) {
+    while (bitCount <= 24 && offset < input.length) {
+      bitBuffer = (bitBuffer | (input[offset++] << (24 - bitCount))) >>> 0;
+      bitCount += 8;
+    }
+    if (bitCount < bits) break;
+
+    const code = (bitBuffer >>> (32 - bits)) & 0xffff;
+    bitBuffer = (bitBuffer << bits) >>> 0;
+    bitCount -= bits;
+
+    let entry: number[];
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error('Corrupt XLI stream');
+    }
+
+    output.push(...entry);
+
+    if (previous && dictionary.length <= maxCode) {
+      dictionary.push([...previous, entry[0]]);
+    }
+    previous = entry;
+  }
+
+  return output;
+}
+
+/**
+ * Decompress Philips XLI waveform data into one sample array per lead.
+ * Each lead is a chunk: 8-byte header (size, code, start value) followed by LZW data
+ * holding split high/low bytes of second-order delta codes.
+ */
+function decompressXLI(data: Uint8Array, numLeads: number): Int16Array[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const leads: Int16Array[] = [];
+  let offset = 0;
+
+  for (let lead = 0; lead < numLeads && offset + 8 <= data.length; lead++) {
+    const size = view.getInt32(offset, true);
+    const start = view.getInt16(offset + 6, true);
+    offset += 8;
+
+    const bytes = decodeLZW(data.subarray(offset, offset + size), 10);
+    offset += size;
+    if (bytes.length % 2 === 1) bytes.push(0);
+
+    // Unpack: high bytes in the first half, low bytes in the second
+    const half = bytes.length / 2;
+    const deltas = new Int16Array(half);
+    for (let i = 0; i < half; i++) {
+      deltas[i] = (bytes[i] << 8) | bytes[half + i];
+    }
+
+    // Second-order delta decoding
+    let x = deltas[0];
+    let y = deltas[1];
+    let last = start;
+    for (let i = 2; i < half; i++) {
+      const z = y * 2 - x - last;
+      last = deltas[i] - 64;
+      deltas[i] = z;
+      x = y;
+      y = z;
+    }
+
+    leads.push(deltas);
+  }
+
+  return leads;
+}
+
+/** Samples of one XML lead with the units they are stored in. */
+interface XMLLeadSamples {
+  voltages: number[];
+  units: string;
+}
+
+/**
+ * Fill in limb leads III, aVR, aVL and aVF from leads I and II when the recorder omits them.
+ * Leads are only derived when I and II share units; derived leads take those units.
+ */
+function deriveMissingLimbLeads(byName: Map<string, XMLLeadSamples>): void {
+  const leadI = byName.get('I');
+  const leadII = byName.get('II');
+  if (!leadI || !leadII || leadI.units !== leadII.units) return;
+
+  const formulas: [string, (i: number, ii: number) => number][] = [
+    ['III', (i, ii) => ii - i],
+    ['aVR', (i, ii) => -(i + ii) / 2],
+    ['aVL', (i, ii) => i - ii / 2],
+    ['aVF', (i, ii) => ii - i / 2]
+  ];
+
+  for (const [name, formula] of formulas) {
+    if (!byName.has(name)) {
+      byName.set(name, { voltages: leadI.voltages.map((v, k) => formula(v, leadII.voltages[k])), units: leadI.units });
+    }
+  }
+}
+
+/**
+ * Philips XLI stores III, aVR, aVL and aVF as residuals against values derived from I and II.
+ */
+function restoreXLIResidualLeads(byName: Map<string, number[]>): void {
+  const leadI = byName.get('I');
+  const leadII = byName.get('II');
+  const iii = byName.get('III');
+  if (!leadI || !leadII || !iii) return;
+
+  const leadIII = iii.map((v, k) => leadII[k] - leadI[k] - v);
+  byName.set('III', leadIII);
+
+  const aVR = byName.get('aVR');
+  if (aVR) byName.set('aVR', aVR.map((v, k) => -v - Math.trunc((leadI[k] + leadII[k]) / 2)));
+  const aVL = byName.get('aVL');
+  if (aVL) byName.set('aVL', aVL.map((v, k) => Math.trunc((leadI[k] - leadIII[k]) / 2) - v));
+  const aVF = byName.get('aVF');
+  if (aVF) byName.set('aVF', aVF.map((v, k) => Math.trunc((leadII[k] + leadIII[k]) / 2) - v));
+}
+
+/**
+ * Order leads in standard 12-lead sequence, keeping any extra leads afterwards.
+ */
+function orderLeads(byName: Map<string, XMLLeadSamples>): ECGLead[] {
+  const standard = ['I', 'II', 'III', 'aVR', 'aVL', 'aVF', 'V1', 'V2', 'V3', 'V4', 'V5', 'V6'];
+  const names = [
+    ...standard.filter(n => byName.has(n)),
+    ...Array.from(byName.keys()).filter(n => !standard.includes(n))
+  ];
+  return names.map(name => {
+    const { voltages, units } = byName.get(name)!;
+    return { name, voltages: Float32Array.from(voltages), units };
+  });
+}
+
+/**
+ * Parse Philips SierraECG XML (restingecgdata) with Base64/XLI waveform decoding.
+ */
+export async function parseSierraECG(file: File): Promise<ParsedECGData> {
+  const xmlDoc = await readXMLDocument(file);
+  const waveforms = findElement(xmlDoc, 'parsedwaveforms');
+
+  if (!waveforms) {
+    throw new Error('No parsedwaveforms element found in SierraECG XML');
+  }
+
+  const signalCharacteristics = findElement(xmlDoc, 'signalcharacteristics');
+  const sampleRate = parseFloat(
+    waveforms.getAttribute('samplespersecond') || elementText(signalCharacteristics, 'samplingrate') || ''
+  );
+  if (!(sampleRate > 0)) {
+    throw new Error('SierraECG XML does not specify a sampling rate');
+  }
+
+  // Resolution is expressed in microvolts per LSB
+  const resolution = parseFloat(elementText(signalCharacteristics, 'resolution') || '5');
+  const unitScale = voltageUnitScale('uV')! * resolution;
+
+  const labels = (waveforms.getAttribute('leadlabels') || 'I II III aVR aVL aVF V1 V2 V3 V4 V5 V6')
+    .trim()
+    .split(/\s+/);
+  const numLeads = parseInt(waveforms.getAttribute('numberofleads') || String(labels.length), 10);
+  const durationMs = parseFloat(waveforms.getAttribute('durationperchannel') || '0');
+  const encoding = (waveforms.getAttribute('dataencoding') || 'Base64').toLowerCase();
+  const compression = (waveforms.getAttribute('compression') || waveforms.getAttribute('compressmethod') || '').toLowerCase();
+  const text = waveforms.textContent || '';
+
+  let raw: ArrayLike<number>[];
+
+  if (compression === 'xli') {
+    raw = decompressXLI(decodeBase64(text), numLeads);
+  } else {
+    const samples: ArrayLike<number> = encoding === 'base64'
+      ? (() => {
+          const bytes = decodeBase64(text);
+          return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+        })()
+      : text.trim().split(/[\s,]+/).map(Number);
+    const perLead = Math.floor(samples.length / numLeads);
+    raw = Array.from({ length: numLeads }, (_, l) => Array.prototype.slice.call(samples, l * perLead, (l + 1) * perLead));
+  }
+
+  const samplesPerLead = durationMs > 0 ? Math.round((durationMs / 1000) * sampleRate) : Infinity;
+  const byName = new Map<string, number[]>();
+  raw.forEach((values, i) => {
+    const count = Math.min(values.length, samplesPerLead);
+    byName.set(normalizeLeadName(labels[i] || `Lead ${i + 1}`), Array.from({ length: count }, (_, k) => values[k]));
+  });
+
+  if (compression === 'xli') {
+    restoreXLIResidualLeads(byName);
+  }
+
+  const leads = orderLeads(new Map(Array.from(byName, ([name, values]) => [
+    name,
+    { voltages: values.map(v => v * unitScale), units: 'mV' }
+  ])));
+
+  if (leads.length === 0 || leads[0].voltages.length === 0) {
+    throw new Error('No valid waveform data extracted from SierraECG XML');
+  }
+
+  const patient = findElement(xmlDoc, 'generalpatientdata');
+  const acquisition = findElement(xmlDoc, 'dataacquisition');
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / sampleRate;
+
+  console.log(`[Parser] Philips SierraECG parsed: ${leads.length} leads @ ${sampleRate}Hz, ${duration.toFixed(1)}s (${compression || encoding})`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: { gain: 1 / unitScale, baseline: 0, units: 'adc', source: 'file' },
+    sampleRate,
+    duration,
+    format: 'sierra',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      patientId: elementText(patient, 'patientid'),
+      patientName: [elementText(patient, 'firstname'), elementText(patient, 'lastname')].filter(Boolean).join(' ') || undefined,
+      patientBirthDate: elementText(patient, 'dateofbirth'),
+      patientSex: elementText(patient, 'sex'),
+      manufacturer: 'Philips',
+      startTime: acquisition
+        ? [acquisition.getAttribute('date'), acquisition.getAttribute('time')].filter(Boolean).join(' ') || undefined
+        : undefined
+    }
+  };
+}
+
+/**
+ * Parse GE MUSE XML (RestingECG) rhythm waveform with per-lead Base64 data.
+ */
+export async function parseMUSEXML(file: File): Promise<ParsedECGData> {
+  const xmlDoc = await readXMLDocument(file);
+  const waveforms = Array.from(xmlDoc.getElementsByTagNameNS('*', 'Waveform'));
+  const rhythm = waveforms.find(w => elementText(w, 'WaveformType')?.toLowerCase() === 'rhythm') || waveforms[0];
+
+  if (!rhythm) {
+    throw new Error('No Waveform element found in MUSE XML');
+  }
+
+  const sampleBase = parseFloat(elementText(rhythm, 'SampleBase') || '');
+  const sampleExponent = parseFloat(elementText(rhythm, 'SampleExponent') || '0');
+  const sampleRate = sampleBase * Math.pow(10, sampleExponent);
+  if (!(sampleRate > 0)) {
+    throw new Error('MUSE XML does not specify a sample base');
+  }
+
+  const byName = new Map<string, XMLLeadSamples>();
+  const calibrations = new Map<string, AmplitudeCalibration>();
+
+  for (const leadData of Array.from(rhythm.getElementsByTagNameNS('*', 'LeadData'))) {
+    const leadId = elementText(leadData, 'LeadID');
+    const data = elementText(leadData, 'WaveFormData');
+    if (!leadId || !data) continue;
+
+    const unitsPerBit = parseFloat(elementText(leadData, 'LeadAmplitudeUnitsPerBit') || '1');
+    const unitsText = (elementText(leadData, 'LeadAmplitudeUnits') || 'MICROVOLTS').toUpperCase();
+    const units = unitsText.startsWith('MILLI') ? 'mV' : unitsText.startsWith('MICRO') ? 'uV' : unitsText;
+    const unitScale = voltageUnitScale(units);
+    if (unitScale === null) {
+      console.warn(`[Parser] MUSE lead ${leadId} has unrecognized amplitude units ${unitsText}`);
+    }
+
+    const bytes = decodeBase64(data);
+    const samples = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const declaredCount = parseInt(elementText(leadData, 'LeadSampleCountTotal') || '0', 10);
+    const count = Math.min(Math.floor(bytes.length / 2), declaredCount || Infinity);
+
+    const voltages: number[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      voltages[i] = samples.getInt16(i * 2, true) * unitsPerBit * (unitScale ?? 1);
+    }
+
+    // Leads in units that are not a voltage keep their values unconverted, and their declared units
+    byName.set(normalizeLeadName(leadId), { voltages, units: unitScale === null ? unitsText : 'mV' });
+    calibrations.set(normalizeLeadName(leadId), {
+      gain: 1 / (unitsPerBit * (unitScale ?? 1)),
+      baseline: 0,
+      units: 'adc',
+      source: 'file'
+    });
+  }
+
+  if (byName.size === 0) {
+    throw new Error('No lead data found in MUSE XML');
+  }
+
+  // MUSE stores I, II and V1-V6; the remaining limb leads are derived
+  deriveMissingLimbLeads(byName);
+
+  const leads = orderLeads(byName);
+  const demographics = findElement(xmlDoc, 'PatientDemographics');
+  const test = findElement(xmlDoc, 'TestDemographics');
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / sampleRate;
+
+  console.log(`[Parser] GE MUSE XML parsed: ${leads.length} leads @ ${sampleRate}Hz, ${duration.toFixed(1)}s`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    // Derived limb leads share the scaling of the stored leads
+    calibration: calibrations.get(primary.name) || calibrations.values().next().value!,
+    sampleRate,
+    duration,
+    format: 'muse',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      patientId: elementText(demographics, 'PatientID'),
+      patientName: [elementText(demographics, 'PatientFirstName'), elementText(demographics, 'PatientLastName')].filter(Boolean).join(' ') || undefined,
+      patientBirthDate: elementText(demographics, 'DateofBirth'),
+      patientSex: elementText(demographics, 'Gender'),
+      manufacturer: 'GE',
+      startTime: [elementText(test, 'AcquisitionDate'), elementText(test, 'AcquisitionTime')].filter(Boolean).join(' ') || undefined
+    }
+  };
+}
+
+interface DicomElement {
+  vr: string;
+  offset: number;
+  length: number;
+  items?: DicomDataset[];
+}
+
+type DicomDataset = Map<string, DicomElement>;
+
+interface DicomReader {
+  view: DataView;
+  littleEndian: boolean;
+  explicitVR: boolean;
+}
+
+const DICOM_ECG_SOP_CLASSES: Record<string, string> = {
+  '1.2.840.10008.5.1.4.1.1.9.1.1': '12-Lead ECG',
+  '1.2.840.10008.5.1.4.1.1.9.1.2': 'General ECG',
+  '1.2.840.10008.5.1.4.1.1.9.1.3': 'Ambulatory ECG'
+};
+
+// Sequence tags needed to walk implicit VR datasets with defined lengths
+const DICOM_SEQUENCE_TAGS = new Set(['54000100', '003A0200', '003A0208', '003A0211']);
+const DICOM_LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+const DICOM_UNDEFINED_LENGTH = 0xffffffff;
+
+function dicomTag(group: number, element: number): string {
+  return (group.toString(16).padStart(4, '0') + element.toString(16).padStart(4, '0')).toUpperCase();
+}
+
+/**
+ * Read data elements from offset until end (or until an item delimiter for undefined-length items).
+ * Returns the dataset and the offset just past the last consumed byte.
+ */
+function readDicomDataset(reader: DicomReader, offset: number, end: number): { dataset: DicomDataset; offset: number } {
+  const { view, littleEndian, explicitVR } = reader;
+  const dataset: DicomDataset = new Map();
+
+  while (offset + 8 <= end) {
+    const group = view.getUint16(offset, littleEndian);
+    const element = view.getUint16(offset + 2, littleEndian);
+    const tag = dicomTag(group, element);
+
+    // Item delimitation item closes an undefined-length item
+    if (tag === 'FFFEE00D') {
+      return { dataset, offset: offset + 8 };
+    }
+
+    let vr: string;
+    let length: number;
+    let valueOffset: number;
+
+    if (explicitVR && group !== 0xfffe) {
+      vr = String.fromCharCode(view.getUint8(offset + 4), view.getUint8(offset + 5));
+      if (DICOM_LONG_VRS.has(vr)) {
+        length = view.getUint32(offset + 8, littleEndian);
+        valueOffset = offset + 12;
+      } else {
+        length = view.getUint16(offset + 6, littleEndian);
+        valueOffset = offset + 8;
+      }
+    } else {
+      vr = DICOM_SEQUENCE_TAGS.has(tag) ? 'SQ' : 'UN';
+      length = view.getUint32(offset + 4, littleEndian);
+      valueOffset = offset + 8;
+    }
+
+    if (vr === 'SQ' || length === DICOM_UNDEFINED_LENGTH) {
+      const sequence = readDicomSequence(reader, valueOffset, length, end);
+      dataset.set(tag, { vr: 'SQ', offset: valueOffset, length, items: sequence.items });
+      offset = sequence.offset;
+      continue;
+    }
+
+    dataset.set(tag, { vr, offset: valueOffset, length });
+    offset = valueOffset + length;
+  }
+
+  return { dataset, offset };
+}
+
+/**
+ * Read sequence items, handling both defined and undefined lengths.
+ */
+function readDicomSequence(
+  reader: DicomReader,
+  offset: number,
+  length: number,
+  end: number
+): { items: DicomDataset[]; offset: number } {
+  const { view, littleEndian } = reader;
+  const items: DicomDataset[] = [];
+  const sequenceEnd = length === DICOM_UNDEFINED_LENGTH ? end : offset + length;
+
+  while (offset + 8 <= sequenceEnd) {
+    const tag = dicomTag(view.getUint16(offset, littleEndian), view.getUint16(offset + 2, littleEndian));
+    const itemLength = view.getUint32(offset + 4, littleEndian);
+    offset += 8;
+
+    if (tag === 'FFFEE0DD') {
+      break;
+    }
+    if (tag !== 'FFFEE000') {
+      throw new Error(`Malformed DICOM sequence (unexpected tag ${tag})`);
+    }
+
+    const itemEnd = itemLength === DICOM_UNDEFINED_LENGTH ? sequenceEnd : offset + itemLength;
+    const item = readDicomDataset(reader, offset, itemEnd);
+    items.push(item.dataset);
+    offset = itemLength === DICOM_UNDEFINED_LENGTH ? item.offset : itemEnd;
+  }
+
+  return { items, offset: length === DICOM_UNDEFINED_LENGTH ? offset : sequenceEnd };
+}
+
+function dicomString(reader: DicomReader, dataset: DicomDataset, tag: string): string | undefined {
+  const el = dataset.get(tag);
+  if (!el || el.items) return undefined;
+
+  let text = '';
+  for (let i = 0; i < el.length; i++) {
+    text += String.fromCharCode(reader.view.getUint8(el.offset + i));
+  }
+  return text.replace(/[\0\s]+$/, '').trim() || undefined;
+}
+
+/**
+ * Read a numeric value stored as a string (DS/IS) or binary (US/UL/SS/SL/FL/FD).
+ */
+function dicomNumber(reader: DicomReader, dataset: DicomDataset, tag: string, binaryVR?: string): number | undefined {
+  const el = dataset.get(tag);
+  if (!el) return undefined;
+
+  const vr = el.vr !== 'UN' ? el.vr : binaryVR || 'DS';
+  const { view, littleEndian } = reader;
+
+  switch (vr) {
+    case 'US': return view.getUint16(el.offset, littleEndian);
+    case 'SS': return view.getInt16(el.offset, littleEndian);
+    case 'UL': return view.getUint32(el.offset, littleEndian);
+    case 'SL': return view.getInt32(el.offset, littleEndian);
+    case 'FL': return view.getFloat32(el.offset, littleEndian);
+    case 'FD': return view.getFloat64(el.offset, littleEndian);
+    default: {
+      const value = parseFloat((dicomString(reader, dataset, tag) || '').split('\\')[0]);
+      return isNaN(value) ? undefined : value;
+    }
+  }
+}
+
+/**
+ * Normalize coded lead descriptions such as "Lead I (Einthoven)" or "Lead aVR".
+ */
+function normalizeLeadName(raw: string): string {
+  const match = /^lead\s+(\S+)/i.exec(raw.trim());
+  const name = match ? match[1] : raw.trim();
+  const lower = name.toLowerCase();
+
+  if (lower === 'avr' || lower === 'avl' || lower === 'avf') return 'aV' + lower.charAt(2).toUpperCase();
+  if (/^(i{1,3}|v\d+)$/i.test(name)) return name.toUpperCase();
+  return name;
+}
+
+/**
+ * Parse DICOM ECG Waveform object (12-Lead / General / Ambulatory ECG SOP classes).
+ */
+export async function parseDICOM(file: File): Promise<ParsedECGData> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < 132 || String.fromCharCode(...new Uint8Array(buffer, 128, 4)) !== 'DICM') {
+    throw new Error('Not a DICOM Part 10 file (missing DICM prefix)');
+  }
+
+  // File meta information is always explicit VR little endian
+  const metaReader: DicomReader = { view, littleEndian: true, explicitVR: true };
+  const groupLengthElement = readDicomDataset(metaReader, 132, 132 + 12).dataset.get('00020000');
+  const metaEnd = groupLengthElement
+    ? 132 + 12 + view.getUint32(groupLengthElement.offset, true)
+    : buffer.byteLength;
+  const meta = readDicomDataset(metaReader, 132, metaEnd);
+
+  const transferSyntax = dicomString(metaReader, meta.dataset, '00020010') || '1.2.840.10008.1.2.1';
+  let reader: DicomReader;
+  switch (transferSyntax) {
+    case '1.2.840.10008.1.2':
+      reader = { view, littleEndian: true, explicitVR: false };
+      break;
+    case '1.2.840.10008.1.2.1':
+      reader = { view, littleEndian: true, explicitVR: true };
+      break;
+    case '1.2.840.10008.1.2.2':
+      reader = { view, littleEndian: false, explicitVR: true };
+      break;
+    default:
+      throw new Error(`Unsupported DICOM transfer syntax: ${transferSyntax}`);
+  }
+
+  const { dataset } = readDicomDataset(reader, meta.offset, buffer.byteLength);
+
+  const sopClass = dicomString(reader, dataset, '00080016') || '';
+  if (!DICOM_ECG_SOP_CLASSES[sopClass]) {
+    console.warn(`[Parser] DICOM SOP class ${sopClass} is not an ECG waveform class; attempting to read waveform anyway`);
+  }
+
+  const waveformGroups = dataset.get('54000100')?.items || [];
+  if (waveformGroups.length === 0) {
+    throw new Error('No WaveformSequence found in DICOM file');
+  }
+
+  // Prefer the rhythm multiplex group (longest) over median-beat groups
+  const group = waveformGroups.reduce((best, g) =>
+    (dicomNumber(reader, g, '003A0010', 'UL') || 0) > (dicomNumber(reader, best, '003A0010', 'UL') || 0) ? g : best
+  );
+
+  const numChannels = dicomNumber(reader, group, '003A0005', 'US') || 0;
+  const numSamples = dicomNumber(reader, group, '003A0010', 'UL') || 0;
+  const sampleRate = dicomNumber(reader, group, '003A001A') || 0;
+  const bitsAllocated = dicomNumber(reader, group, '54001004', 'US') || 16;
+  const interpretation = dicomString(reader, group, '54001006') || 'SS';
+  const waveformData = group.get('54001010');
+
+  if (!numChannels || !numSamples || !sampleRate || !waveformData) {
+    throw new Error('Incomplete DICOM waveform multiplex group');
+  }
+
+  const readSample = (index: number): number => {
+    const offset = waveformData.offset + index * (bitsAllocated / 8);
+    switch (interpretation) {
+      case 'SS': return view.getInt16(offset, reader.littleEndian);
+      case 'US': return view.getUint16(offset, reader.littleEndian);
+      case 'SB': return view.getInt8(offset);
+      case 'UB': return view.getUint8(offset);
+      default: throw new Error(`Unsupported DICOM waveform sample interpretation: ${interpretation}`);
+    }
+  };
+
+  const sampleLimits: Record<string, [number, number]> = {
+    SS: [-32768, 32767], US: [0, 65535], SB: [-128, 127], UB: [0, 255]
+  };
+  const [sampleMin, sampleMax] = sampleLimits[interpretation] || [-Infinity, Infinity];
+
+  const channelDefinitions = group.get('003A0200')?.items || [];
+  const leads: ECGLead[] = [];
+  const calibrations = new Map<ECGLead, AmplitudeCalibration>();
+
+  for (let c = 0; c < numChannels; c++) {
+    const channel = channelDefinitions[c] || new Map();
+    const source = channel.get('003A0208')?.items?.[0];
+    const rawName = (source && dicomString(reader, source, '00080104')) || dicomString(reader, channel, '003A0203') || `Channel ${c + 1}`;
+
+    const sensitivity = dicomNumber(reader, channel, '003A0210') ?? 1;
+    const correction = dicomNumber(reader, channel, '003A0212') ?? 1;
+    const baseline = dicomNumber(reader, channel, '003A0213') ?? 0;
+    const unitsItem = channel.get('003A0211')?.items?.[0];
+    const units = (unitsItem && dicomString(reader, unitsItem, '00080100')) || 'uV';
+    const unitScale = voltageUnitScale(units);
+
+    // Same convention as pydicom: sample * sensitivity * correction + baseline * correction
+    const voltages = new Float32Array(numSamples);
+    let clipped = 0;
+    for (let i = 0; i < numSamples; i++) {
+      const sample = readSample(i * numChannels + c);
+      if (sample <= sampleMin || sample >= sampleMax) clipped++;
+      const physical = (sample * sensitivity + baseline) * correction;
+      voltages[i] = unitScale !== null ? physical * unitScale : physical;
+    }
+
+    const lead: ECGLead = {
+      name: normalizeLeadName(rawName),
+      voltages,
+      units: unitScale !== null ? 'mV' : units,
+      clippedSamples: clipped
+    };
+    leads.push(lead);
+    calibrations.set(lead, {
+      gain: 1 / (sensitivity * correction * (unitScale ?? 1)),
+      baseline: -baseline / sensitivity,
+      units: 'adc',
+      source: 'file',
+      clippedSamples: clipped
+    });
+  }
+
+  const primary = selectPrimaryLead(leads);
+  const duration = numSamples / sampleRate;
+  const patientName = dicomString(reader, dataset, '00100010');
+
+  console.log(`[Parser] DICOM ${DICOM_ECG_SOP_CLASSES[sopClass] || 'waveform'} parsed: ${leads.length} channels @ ${sampleRate}Hz, ${duration.toFixed(1)}s`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: calibrations.get(primary)!,
+    sampleRate,
+    duration,
+    format: 'dicom',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      patientId: dicomString(reader, dataset, '00100020'),
+      patientName: patientName?.replace(/\^+/g, ' ').trim(),
+      patientBirthDate: dicomString(reader, dataset, '00100030'),
+      patientSex: dicomString(reader, dataset, '00100040'),
+      studyDate: dicomString(reader, dataset, '00080020'),
+      studyDescription: dicomString(reader, dataset, '00081030'),
+      manufacturer: dicomString(reader, dataset, '00080070'),
+      startTime: dicomString(reader, dataset, '0008002A')
+    }
+  };
+}
+
+// SCP-ECG lead identifiers (EN 1064 section 3 lead dictionary)
+const SCP_LEAD_NAMES: Record<number, string> = {
+  1: 'I', 2: 'II', 3: 'V1', 4: 'V2', 5: 'V3', 6: 'V4', 7: 'V5', 8: 'V6',
+  9: 'V7', 10: 'V2R', 11: 'V3R', 12: 'V4R', 13: 'V5R', 14: 'V6R', 15: 'V7R',
+  16: 'X', 17: 'Y', 18: 'Z', 19: 'CC5', 20: 'CM5',
+  61: 'III', 62: 'aVR', 63: 'aVL', 64: 'aVF', 65: '-aVR'
+};
+
+interface SCPSection {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Locate SCP-ECG sections via the section 0 pointer table.
+ */
+function readSCPSections(view: DataView): Map<number, SCPSection> {
+  const sections = new Map<number, SCPSection>();
+
+  // Section 0 starts right after the record CRC (2 bytes) and size (4 bytes)
+  const section0Offset = 6;
+  const section0Length = view.getUint32(section0Offset + 4, true);
+
+  for (let p = section0Offset + 16; p + 10 <= section0Offset + section0Length; p += 10) {
+    const id = view.getUint16(p, true);
+    const length = view.getUint32(p + 2, true);
+    const index = view.getUint32(p + 6, true);
+    if (length > 0 && index > 0) {
+      sections.set(id, { offset: index - 1, length });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Read SCP-ECG section 1 (patient data) tagged fields.
+ */
+function readSCPPatientData(view: DataView, section: SCPSection): Partial<NonNullable<ParsedECGData['metadata']>> {
+  const text = (offset: number, length: number) => {
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      const code = view.getUint8(offset + i);
+      if (code === 0) break;
+      value += String.fromCharCode(code);
+    }
+    return value.trim();
+  };
+  const date = (offset: number) =>
+    `${view.getUint16(offset, true)}-${String(view.getUint8(offset + 2)).padStart(2, '0')}-${String(view.getUint8(offset + 3)).padStart(2, '0')}`;
+
+  const fields: Record<number, { offset: number; length: number }> = {};
+  const end = section.offset + section.length;
+
+  for (let p = section.offset + 16; p + 3 <= end; ) {
+    const tag = view.getUint8(p);
+    const length = view.getUint16(p + 1, true);
+    if (tag === 255) break;
+    fields[tag] = { offset: p + 3, length };
+    p += 3 + length;
+  }
+
+  const sexCodes: Record<number, string> = { 1: 'M', 2: 'F' };
+  const lastName = fields[0] ? text(fields[0].offset, fields[0].length) : '';
+  const firstName = fields[1] ? text(fields[1].offset, fields[1].length) : '';
+  const acquisitionTime = fields[26]
+    ? [0, 1, 2].map(i => String(view.getUint8(fields[26].offset + i)).padStart(2, '0')).join(':')
+    : '';
+
+  return {
+    patientName: [firstName, lastName].filter(Boolean).join(' ') || undefined,
+    patientId: fields[2] ? text(fields[2].offset, fields[2].length) || undefined : undefined,
+    patientBirthDate: fields[5]?.length >= 4 ? date(fields[5].offset) : undefined,
+    patientSex: fields[8] ? sexCodes[view.getUint8(fields[8].offset)] : undefined,
+    startTime: fields[25]?.length >= 4 ? `${date(fields[25].offset)} ${acquisitionTime}`.trim() : undefined
+  };
+}
+
+/**
+ * Parse SCP-ECG (EN 1064) file: patient data, lead definition and rhythm data sections.
+ * Supports uncompressed rhythm data with optional first/second-difference encoding.
+ */
+export async function parseSCP(file: File): Promise<ParsedECGData> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < 22 || view.getUint16(8, true) !== 0) {
+    throw new Error('Invalid SCP-ECG file (missing section 0)');
+  }
+
+  const sections = readSCPSections(view);
+  const leadSection = sections.get(3);
+  const rhythmSection = sections.get(6);
+
+  if (!leadSection || !rhythmSection) {
+    throw new Error('SCP-ECG file is missing lead definition (3) or rhythm data (6) section');
+  }
+
+  // Section 2 holds Huffman tables; only the unencoded 16-bit representation is supported
+  if (sections.has(2)) {
+    throw new Error('Huffman-encoded SCP-ECG rhythm data is not supported');
+  }
+
+  const numLeads = view.getUint8(leadSection.offset + 16);
+  const leadFlags = view.getUint8(leadSection.offset + 17);
+  if (leadFlags & 0x01) {
+    throw new Error('SCP-ECG reference beat subtraction is not supported');
+  }
+
+  const leadIds: number[] = [];
+  for (let i = 0; i < numLeads; i++) {
+    leadIds.push(view.getUint8(leadSection.offset + 18 + i * 9 + 8));
+  }
+
+  const r = rhythmSection.offset + 16;
+  const amplitudeMultiplier = view.getUint16(r, true); // nV per unit
+  const sampleInterval = view.getUint16(r + 2, true); // microseconds
+  const differenceEncoding = view.getUint8(r + 4);
+
+  if (!sampleInterval) {
+    throw new Error('SCP-ECG rhythm section has no sample interval');
+  }
+
+  const sampleRate = 1e6 / sampleInterval;
+  let dataOffset = r + 6 + numLeads * 2;
+  const leads: ECGLead[] = [];
+
+  for (let i = 0; i < numLeads; i++) {
+    const byteLength = view.getUint16(r + 6 + i * 2, true);
+    const numSamples = Math.floor(byteLength / 2);
+    const values = new Float64Array(numSamples);
+
+    for (let n = 0; n < numSamples; n++) {
+      values[n] = view.getInt16(dataOffset + n * 2, true);
+    }
+    dataOffset += byteLength;
+
+    // Reconstruct from first or second differences
+    if (differenceEncoding === 1) {
+      for (let n = 1; n < numSamples; n++) {
+        values[n] += values[n - 1];
+      }
+    } else if (differenceEncoding === 2) {
+      for (let n = 2; n < numSamples; n++) {
+        values[n] += 2 * values[n - 1] - values[n - 2];
+      }
+    } else if (differenceEncoding !== 0) {
+      throw new Error(`Unsupported SCP-ECG difference encoding: ${differenceEncoding}`);
+    }
+
+    leads.push({
+      name: SCP_LEAD_NAMES[leadIds[i]] || `Lead ${leadIds[i]}`,
+      voltages: Float32Array.from(values, v => (v * amplitudeMultiplier) / 1e6),
+      units: 'mV'
+    });
+  }
+
+  if (leads.length === 0) {
+    throw new Error('SCP-ECG file contains no leads');
+  }
+
+  const patient = sections.has(1) ? readSCPPatientData(view, sections.get(1)!) : {};
+  const primary = selectPrimaryLead(leads);
+  const duration = primary.voltages.length / sampleRate;
+
+  console.log(`[Parser] SCP-ECG parsed: ${leads.length} leads @ ${sampleRate}Hz, ${duration.toFixed(1)}s`);
+
+  return {
+    voltages: primary.voltages,
+    leads,
+    calibration: { gain: 1e6 / amplitudeMultiplier, baseline: 0, units: 'adc', source: 'file' },
+    sampleRate,
+    duration,
+    format: 'scp',
+    metadata: {
+      recordName: file.name.replace(/\.[^/.]+$/, ''),
+      lead: primary.name,
+      units: primary.units,
+      ...patient
+    }
+  };
+}
+
+export type DetectedFormat = 'wfdb' | 'dicom' | 'edf' | 'scp' | 'xml' | 'csv' | 'unknown';
+
+/**
+ * Identify file format from its leading bytes, falling back to the extension.
+ */
+export async function detectFileFormat(file: File): Promise<DetectedFormat> {
+  const fileName = file.name.toLowerCase();
+  const head = new Uint8Array(await file.slice(0, 256).arrayBuffer());
+  const view = new DataView(head.buffer);
+  const ascii = (offset: number, length: number) => String.fromCharCode(...head.subarray(offset, offset + length));
+
+  if (fileName.endsWith('.hea')) return 'wfdb';
+  if (head.length >= 132 && ascii(128, 4) === 'DICM') return 'dicom';
+  if (head.length >= 256 && ascii(0, 8) === '0       ') return 'edf';
+
+  // SCP-ECG: record size matches the file and section 0 follows the 6-byte preamble
+  if (head.length >= 22 && view.getUint16(8, true) === 0 &&
+      (ascii(16, 6) === 'SCPECG' || view.getUint32(2, true) === file.size)) {
+    return 'scp';
+  }
+
+  const text = ascii(0, Math.min(head.length, 64)).replace(/^\xEF\xBB\xBF/, '').trimStart();
+  if (text.startsWith('<')) return 'xml';
+
+  if (fileName.endsWith('.dcm')) return 'dicom';
+  if (fileName.endsWith('.edf')) return 'edf';
+  if (fileName.endsWith('.scp')) return 'scp';
+  if (fileName.endsWith('.xml')) return 'xml';
+  if (fileName.endsWith('.csv') || fileName.endsWith('.txt')) return 'csv';
+  return 'unknown';
+}
+
+/**
+ * Split a multi-file selection into the file to parse and its companion files.
+ * WFDB records are opened through their header; the signal files travel alongside.
+ */
+export function groupRecordFiles(files: File[]): { primary: File; companions: File[] } {
+  const primary = files.find(f => f.name.toLowerCase().endsWith('.hea')) || files[0];
+  return {
+    primary,
+    companions: files.filter(f => f !== primary)
+  };
+}
+
+/**
+ * Number repeated lead names, e.g. unlabeled EDF channels or duplicate DICOM channel labels,
+ * so every lead keeps its own entry where leads are looked up by name. The first lead of a name
+ * keeps it; blank names become "Channel <n>".
+ */
+function uniqueLeadNames(data: ParsedECGData): ParsedECGData {
+  const used = new Set<string>();
+  data.leads.forEach((lead, i) => {
+    const base = lead.name.trim() || `Channel ${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base} (${n})`;
+    if (name !== lead.name) {
+      console.warn(`[Parser] Lead ${i + 1} "${lead.name}" renamed to "${name}" to keep lead names unique`);
+      lead.name = name;
+    }
+    used.add(name);
+  });
+  if (data.metadata && data.leads.length > 0) {
+    data.metadata.lead = data.leads.find(lead => lead.voltages === data.voltages)?.name ?? data.metadata.lead;
+  }
+  return data;
+}
+
+/**
+ * Auto-detect file format from content (magic bytes) and extension, then parse.
+ * `onProgress` reports bytes read for the streamed formats (CSV, WFDB, EDF).
+ * `csvMapping` replaces the CSV header/unit heuristics with a layout confirmed in the import wizard.
+ * `defaultSampleRate` replaces the per-format fallback rate for CSV files that do not imply one.
+ */
+export async function parseECGFile(
+  file: File,
+  companionFiles: File[] = [],
+  onProgress?: ParseProgressCallback,
+  csvMapping?: CSVImportMapping,
+  defaultSampleRate?: number
+): Promise<ParsedECGData> {
+  return uniqueLeadNames(await parseDetectedFormat(file, companionFiles, onProgress, csvMapping, defaultSampleRate));
+}
+
+async function parseDetectedFormat(
+  file: File,
+  companionFiles: File[],
+  onProgress?: ParseProgressCallback,
+  csvMapping?: CSVImportMapping,
+  defaultSampleRate?: number
+): Promise<ParsedECGData> {
+  const fileName = file.name.toLowerCase();
+
+  console.log(`[Parser] Parsing file: ${file.name} (${(file.size / 1024).toFixed(1)} KB)`);
+
+  try {
+    if (fileName.endsWith('.dat')) {
+      throw new Error('WFDB signal files must be loaded together with their .hea header');
+    }
+
+    const format = await detectFileFormat(file);
+
+    switch (format) {
+      case 'wfdb':
+        return await parseWFDB(file, companionFiles, onProgress);
+      case 'dicom':
+        return await parseDICOM(file);
+      case 'edf':
+        return await parseEDF(file, onProgress);
+      case 'scp':
+        return await parseSCP(file);
+      case 'xml': {
+        const root = (await readXMLDocument(file)).documentElement.localName;
+        switch (root) {
+          case 'AnnotatedECG':
+            return await parseHL7aECG(file);
+          case 'restingecgdata':
+            return await parseSierraECG(file);
+          case 'RestingECG':
+            return await parseMUSEXML(file);
+          default:
+            throw new Error(`Unrecognized XML ECG format (root element <${root}>)`);
+        }
+      }
+      case 'csv':
+        if (csvMapping) {
+          return await parseCSVWithMapping(file, csvMapping, onProgress);
+        }
+        try {
+          return await parseMITBIH_CSV(file, onProgress, defaultSampleRate);
+        } catch (error) {
+          console.warn('[Parser] MIT-BIH format failed, trying generic CSV...', error);
+          return await parseGenericCSV(file, onProgress, defaultSampleRate);
+        }
+      default:
+        throw new Error(`Unsupported file format: ${fileName}`);
+    }
+  } catch (error) {
+    console.error('[Parser] Parsing failed:', error);
+    throw new Error(`Failed to parse ECG file: ${error}`);
+  }
+}
+
+// Surface ECG amplitudes rarely exceed a few millivolts
+const PHYSIOLOGICAL_LIMIT_MV = 5;
+
+/**
+ * Validate parsed ECG data for quality and completeness.
+ */
+export function validateECGData(data: ParsedECGData): { valid: boolean; warnings: string[] } {
+  const warnings: string[] = [];
+
+  if (data.voltages.length < 100) {
+    warnings.push('Very short signal (< 100 samples). Results may be unreliable.');
+  }
+
+  // Compute the analysis lead's amplitude range
+  let max = -Infinity;
+  let min = Infinity;
+  
+  for (let i = 0; i < data.voltages.length; i++) {
+    const v = data.voltages[i];
+    if (v > max) max = v;
+    if (v < min) min = v;
+  }
+  
+  // Parsers keep a lead's values unconverted when its declared units are not a voltage
+  const unconverted = data.leads.filter(lead => lead.units !== 'mV');
+  if (unconverted.length > 0) {
+    const list = unconverted.map(lead => `${lead.name} (${lead.units})`).join(', ');
+    warnings.push(`Unrecognized amplitude units, values not converted to mV: ${list}.`);
+  }
+
+  if (max > 100 || min < -100) {
+    warnings.push('Voltage values seem unusually large. Data might be in raw ADC units instead of mV.');
+  }
+
+  // Out-of-range and clipped samples are counted in every lead, so a saturated lead other than
+  // the analysed one is reported too
+  for (const lead of data.leads) {
+    const prefix = data.leads.length > 1 ? `Lead ${lead.name}: ` : '';
+    const percentOf = (count: number) => ((count / lead.voltages.length) * 100).toFixed(2);
+
+    if (lead.units === 'mV') {
+      let outOfRange = 0;
+      for (let i = 0; i < lead.voltages.length; i++) {
+        if (Math.abs(lead.voltages[i]) > PHYSIOLOGICAL_LIMIT_MV) outOfRange++;
+      }
+      if (outOfRange > 0) {
+        warnings.push(`${prefix}${outOfRange} samples (${percentOf(outOfRange)}%) exceed ±${PHYSIOLOGICAL_LIMIT_MV} mV. Check the amplitude calibration.`);
+      }
+    }
+
+    const clipped = lead.clippedSamples || 0;
+    if (clipped > 0) {
+      warnings.push(`${prefix}${clipped} samples (${percentOf(clipped)}%) are clipped at the ADC limits (signal saturated).`);
+    }
   }
 
   if (max < 0.1 && min > -0.1 && max !== min) {
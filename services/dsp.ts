@@ -0,0 +1,535 @@
+/**
+ * Signal processing primitives for the TypeScript engine.
+ * Each routine reproduces the SciPy / NumPy function named in its comment, including edge handling,
+ * so results line up with the Pyodide pipeline in ecg_processor.py.
+ */
+
+export type FilterBand = 'lowpass' | 'highpass' | 'bandpass';
+
+/** Second-order section: [b0, b1, b2, a0, a1, a2] (scipy `sos` row layout). */
+export type SOSSection = [number, number, number, number, number, number];
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const complex = (re: number, im = 0): Complex => ({ re, im });
+const cAdd = (a: Complex, b: Complex): Complex => complex(a.re + b.re, a.im + b.im);
+const cSub = (a: Complex, b: Complex): Complex => complex(a.re - b.re, a.im - b.im);
+const cMul = (a: Complex, b: Complex): Complex => complex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const cScale = (a: Complex, s: number): Complex => complex(a.re * s, a.im * s);
+
+function cDiv(a: Complex, b: Complex): Complex {
+  const d = b.re * b.re + b.im * b.im;
+  return complex((a.re * b.re + a.im * b.im) / d, (a.im * b.re - a.re * b.im) / d);
+}
+
+function cSqrt(a: Complex): Complex {
+  const r = Math.hypot(a.re, a.im);
+  const re = Math.sqrt((r + a.re) / 2);
+  const im = Math.sqrt(Math.max(0, (r - a.re) / 2));
+  return complex(re, a.im < 0 ? -im : im);
+}
+
+function cProd(values: Complex[]): Complex {
+  return values.reduce(cMul, complex(1));
+}
+
+interface ZPK {
+  z: Complex[];
+  p: Complex[];
+  k: number;
+}
+
+/**
+ * Digital Butterworth design in zero-pole-gain form (scipy.signal.butter, output='zpk').
+ * `wn` is normalized to Nyquist, as in scipy when `fs` is not given.
+ */
+function butterZPK(order: number, wn: number | [number, number], btype: FilterBand): ZPK {
+  // Analog prototype (scipy.signal.buttap)
+  let p: Complex[] = [];
+  for (let m = -order + 1; m < order; m += 2) {
+    const theta = (Math.PI * m) / (2 * order);
+    p.push(complex(-Math.cos(theta), -Math.sin(theta)));
+  }
+  let z: Complex[] = [];
+  let k = 1;
+
+  // Pre-warp for the bilinear transform with fs = 2
+  const warp = (w: number) => 4 * Math.tan((Math.PI * w) / 2);
+
+  if (btype === 'bandpass') {
+    const [low, high] = (wn as [number, number]).map(warp);
+    const bw = high - low;
+    const wo = Math.sqrt(low * high);
+    // scipy.signal.lp2bp_zpk
+    const scaled = p.map(pole => cScale(pole, bw / 2));
+    const shift = scaled.map(pole => cSqrt(cSub(cMul(pole, pole), complex(wo * wo))));
+    p = [...scaled.map((pole, i) => cAdd(pole, shift[i])), ...scaled.map((pole, i) => cSub(pole, shift[i]))];
+    z = Array.from({ length: order }, () => complex(0));
+    k = Math.pow(bw, order);
+  } else if (btype === 'highpass') {
+    const wo = warp(wn as number);
+    // scipy.signal.lp2hp_zpk
+    k = cDiv(complex(1), cProd(p.map(pole => cScale(pole, -1)))).re;
+    p = p.map(pole => cDiv(complex(wo), pole));
+    z = Array.from({ length: order }, () => complex(0));
+  } else {
+    const wo = warp(wn as number);
+    // scipy.signal.lp2lp_zpk
+    p = p.map(pole => cScale(pole, wo));
+    k = Math.pow(wo, order);
+  }
+
+  // scipy.signal.bilinear_zpk with fs = 2
+  const fs2 = complex(4);
+  const zDigital = z.map(zero => cDiv(cAdd(fs2, zero), cSub(fs2, zero)));
+  const pDigital = p.map(pole => cDiv(cAdd(fs2, pole), cSub(fs2, pole)));
+  while (zDigital.length < pDigital.length) {
+    zDigital.push(complex(-1));
+  }
+  const kDigital = k * cDiv(cProd(z.map(zero => cSub(fs2, zero))), cProd(p.map(pole => cSub(fs2, pole)))).re;
+
+  return { z: zDigital, p: pDigital, k: kDigital };
+}
+
+/**
+ * Expand roots into real polynomial coefficients, highest power first (numpy.poly).
+ */
+function poly(roots: Complex[]): number[] {
+  let coeffs: Complex[] = [complex(1)];
+  for (const root of roots) {
+    const next: Complex[] = [...coeffs, complex(0)];
+    for (let i = 1; i < next.length; i++) {
+      next[i] = cSub(next[i], cMul(root, coeffs[i - 1]));
+    }
+    coeffs = next;
+  }
+  return coeffs.map(c => c.re);
+}
+
+/**
+ * Butterworth design as transfer-function coefficients (scipy.signal.butter, output='ba').
+ */
+export function butterBA(order: number, wn: number | [number, number], btype: FilterBand): { b: number[]; a: number[] } {
+  const { z, p, k } = butterZPK(order, wn, btype);
+  return { b: poly(z).map(c => c * k), a: poly(p) };
+}
+
+/**
+ * Butterworth design as second-order sections (scipy.signal.butter, output='sos').
+ * Butterworth zeros are all real (at +1 or -1), so each pole pair takes its nearest real zeros.
+ */
+export function butterSOS(order: number, wn: number | [number, number], btype: FilterBand): SOSSection[] {
+  const { z, p, k } = butterZPK(order, wn, btype);
+  const EPS = 1e-10;
+
+  // One representative per conjugate pair, then the real poles; poles nearest the unit circle first
+  const pairs = p.filter(pole => pole.im > EPS);
+  const reals = p.filter(pole => Math.abs(pole.im) <= EPS).map(pole => pole.re);
+  const groups: Complex[][] = pairs.map(pole => [pole, complex(pole.re, -pole.im)]);
+  reals.sort((a, b) => Math.abs(b) - Math.abs(a));
+  for (let i = 0; i < reals.length; i += 2) {
+    groups.push(reals.slice(i, i + 2).map(re => complex(re)));
+  }
+  groups.sort((a, b) => (1 - Math.hypot(a[0].re, a[0].im)) - (1 - Math.hypot(b[0].re, b[0].im)));
+
+  const zeros = z.map(zero => zero.re);
+  const sections: SOSSection[] = groups.map(group => {
+    const taken: number[] = [];
+    for (let n = 0; n < group.length; n++) {
+      let best = 0;
+      for (let i = 1; i < zeros.length; i++) {
+        if (Math.abs(zeros[i] - group[0].re) < Math.abs(zeros[best] - group[0].re)) best = i;
+      }
+      taken.push(zeros.splice(best, 1)[0]);
+    }
+
+    if (group.length === 2) {
+      const [p1, p2] = group;
+      const a1 = -(p1.re + p2.re);
+      const a2 = cMul(p1, p2).re;
+      return [1, -(taken[0] + taken[1]), taken[0] * taken[1], 1, a1, a2];
+    }
+    return [1, -taken[0], 0, 1, -group[0].re, 0];
+  });
+
+  sections[0] = [sections[0][0] * k, sections[0][1] * k, sections[0][2] * k, 1, sections[0][4], sections[0][5]];
+  return sections;
+}
+
+/**
+ * Second-order IIR notch filter (scipy.signal.iirnotch with fs = 2).
+ */
+export function iirNotch(w0: number, Q: number): { b: number[]; a: number[] } {
+  const bw = (w0 / Q) * Math.PI;
+  const w = w0 * Math.PI;
+  // With a -3 dB bandwidth the scipy beta term reduces to tan(bw / 2)
+  const beta = Math.tan(bw / 2);
+  const gain = 1 / (1 + beta);
+  return {
+    b: [gain, -2 * gain * Math.cos(w), gain],
+    a: [1, -2 * gain * Math.cos(w), 2 * gain - 1]
+  };
+}
+
+/**
+ * Direct form II transposed filter with initial state (scipy.signal.lfilter). Assumes a[0] = 1.
+ */
+export function lfilter(b: number[], a: number[], x: Float64Array, zi?: number[]): Float64Array {
+  const n = Math.max(a.length, b.length);
+  const bb = [...b, ...new Array(n - b.length).fill(0)];
+  const aa = [...a, ...new Array(n - a.length).fill(0)];
+  const z = zi ? [...zi, 0] : new Array(n).fill(0);
+  const y = new Float64Array(x.length);
+
+  for (let i = 0; i < x.length; i++) {
+    const xi = x[i];
+    const yi = bb[0] * xi + z[0];
+    for (let j = 1; j < n; j++) {
+      z[j - 1] = bb[j] * xi - aa[j] * yi + z[j];
+    }
+    y[i] = yi;
+  }
+  return y;
+}
+
+/**
+ * Steady-state initial conditions for a step input (scipy.signal.lfilter_zi).
+ */
+export function lfilterZi(b: number[], a: number[]): number[] {
+  const n = Math.max(a.length, b.length);
+  const bb = [...b, ...new Array(n - b.length).fill(0)];
+  const aa = [...a, ...new Array(n - a.length).fill(0)];
+  const size = n - 1;
+
+  // Solve (I - companion(a).T) zi = b[1:] - a[1:] * b[0] by Gaussian elimination
+  const m: number[][] = [];
+  for (let i = 0; i < size; i++) {
+    const row = new Array(size + 1).fill(0);
+    row[i] += 1;
+    row[0] += aa[i + 1];
+    if (i + 1 < size) row[i + 1] -= 1;
+    row[size] = bb[i + 1] - aa[i + 1] * bb[0];
+    m.push(row);
+  }
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= size; c++) {
+        m[r][c] -= factor * m[col][c];
+      }
+    }
+  }
+
+  return m.map((row, i) => row[size] / row[i]);
+}
+
+/**
+ * Odd extension of a signal by `padlen` samples at each end (scipy.signal._arraytools.odd_ext).
+ */
+function oddExtend(x: Float64Array, padlen: number): Float64Array {
+  const n = x.length;
+  const ext = new Float64Array(n + 2 * padlen);
+  for (let i = 0; i < padlen; i++) {
+    ext[i] = 2 * x[0] - x[padlen - i];
+    ext[padlen + n + i] = 2 * x[n - 1] - x[n - 2 - i];
+  }
+  ext.set(x, padlen);
+  return ext;
+}
+
+function reversed(x: Float64Array): Float64Array {
+  return x.slice().reverse();
+}
+
+function checkPadLength(x: Float64Array, padlen: number): void {
+  if (x.length <= padlen) {
+    throw new Error(`The length of the input vector x must be greater than padlen, which is ${padlen}.`);
+  }
+}
+
+/**
+ * Zero-phase forward-backward filtering with odd padding (scipy.signal.filtfilt).
+ */
+export function filtfilt(b: number[], a: number[], x: Float64Array): Float64Array {
+  const padlen = 3 * Math.max(a.length, b.length);
+  checkPadLength(x, padlen);
+
+  const zi = lfilterZi(b, a);
+  const ext = oddExtend(x, padlen);
+  const forward = lfilter(b, a, ext, zi.map(v => v * ext[0]));
+  const backward = lfilter(b, a, reversed(forward), zi.map(v => v * forward[forward.length - 1]));
+  return reversed(backward).slice(padlen, padlen + x.length);
+}
+
+/**
+ * Cascade of second-order sections with per-section state (scipy.signal.sosfilt).
+ */
+function sosfilt(sos: SOSSection[], x: Float64Array, zi: number[][]): Float64Array {
+  let y = x;
+  sos.forEach((section, s) => {
+    y = lfilter(section.slice(0, 3), section.slice(3), y, zi[s]);
+  });
+  return y;
+}
+
+/**
+ * Steady-state initial conditions for each section (scipy.signal.sosfilt_zi).
+ */
+function sosfiltZi(sos: SOSSection[]): number[][] {
+  let scale = 1;
+  return sos.map(section => {
+    const b = section.slice(0, 3);
+    const a = section.slice(3);
+    const zi = lfilterZi(b, a).map(v => v * scale);
+    scale *= (b[0] + b[1] + b[2]) / (a[0] + a[1] + a[2]);
+    return zi;
+  });
+}
+
+/**
+ * Zero-phase forward-backward filtering with second-order sections (scipy.signal.sosfiltfilt).
+ */
+export function sosfiltfilt(sos: SOSSection[], x: Float64Array): Float64Array {
+  const b2Zeros = sos.filter(s => s[2] === 0).length;
+  const a2Zeros = sos.filter(s => s[5] === 0).length;
+  const padlen = 3 * (2 * sos.length + 1 - Math.min(b2Zeros, a2Zeros));
+  checkPadLength(x, padlen);
+
+  const zi = sosfiltZi(sos);
+  const ext = oddExtend(x, padlen);
+  const forward = sosfilt(sos, ext, zi.map(z => z.map(v => v * ext[0])));
+  const backward = sosfilt(sos, reversed(forward), zi.map(z => z.map(v => v * forward[forward.length - 1])));
+  return reversed(backward).slice(padlen, padlen + x.length);
+}
+
+/**
+ * Clamp an index into the signal, i.e. 'nearest' edge mode of scipy.ndimage.
+ */
+const nearest = (i: number, n: number) => (i < 0 ? 0 : i >= n ? n - 1 : i);
+
+/**
+ * Moving average with edge replication (scipy.ndimage.uniform_filter1d, mode='nearest').
+ */
+export function uniformFilter1d(x: Float64Array, size: number): Float64Array {
+  const n = x.length;
+  const before = Math.floor(size / 2);
+  const y = new Float64Array(n);
+
+  let sum = 0;
+  for (let j = -before; j < size - before; j++) {
+    sum += x[nearest(j, n)];
+  }
+  for (let i = 0; i < n; i++) {
+    y[i] = sum / size;
+    sum += x[nearest(i + size - before, n)] - x[nearest(i - before, n)];
+  }
+  return y;
+}
+
+/**
+ * Index of the first value in a sorted array that is not less than `value`.
+ */
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Running median over an odd window with edge replication (scipy.ndimage.median_filter, mode='nearest').
+ */
+export function medianFilter(x: Float64Array, size: number): Float64Array {
+  const n = x.length;
+  const half = Math.floor(size / 2);
+  const y = new Float64Array(n);
+
+  const window: number[] = [];
+  for (let j = -half; j <= half; j++) {
+    window.splice(lowerBound(window, x[nearest(j, n)]), 0, x[nearest(j, n)]);
+  }
+  for (let i = 0; i < n; i++) {
+    y[i] = window[half];
+    const outgoing = x[nearest(i - half, n)];
+    window.splice(lowerBound(window, outgoing), 1);
+    const incoming = x[nearest(i + half + 1, n)];
+    window.splice(lowerBound(window, incoming), 0, incoming);
+  }
+  return y;
+}
+
+/**
+ * Evaluate a not-a-knot cubic spline through evenly spaced knots at 0..length-1
+ * (scipy.interpolate.CubicSpline with default boundary conditions, extrapolate=True).
+ * Requires at least four knots.
+ */
+export function evenCubicSpline(knotX: number[], knotY: number[], length: number): Float64Array {
+  const n = knotX.length;
+  const h = knotX[1] - knotX[0];
+
+  // Second derivatives M: interior rows M[i-1] + 4M[i] + M[i+1] = d[i]; not-a-knot gives
+  // M[0] = 2M[1] - M[2] and M[n-1] = 2M[n-2] - M[n-3], which folds into the first and last rows
+  const d = new Float64Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    d[i] = (6 * (knotY[i + 1] - 2 * knotY[i] + knotY[i - 1])) / (h * h);
+  }
+
+  const size = n - 2;
+  const lower = new Float64Array(size).fill(1);
+  const diag = new Float64Array(size).fill(4);
+  const upper = new Float64Array(size).fill(1);
+  diag[0] = 6;
+  upper[0] = 0;
+  diag[size - 1] = 6;
+  lower[size - 1] = 0;
+
+  // Thomas algorithm
+  const rhs = d.slice(1, n - 1);
+  for (let i = 1; i < size; i++) {
+    const w = lower[i] / diag[i - 1];
+    diag[i] -= w * upper[i - 1];
+    rhs[i] -= w * rhs[i - 1];
+  }
+  const M = new Float64Array(n);
+  M[size] = rhs[size - 1] / diag[size - 1];
+  for (let i = size - 2; i >= 0; i--) {
+    M[i + 1] = (rhs[i] - upper[i] * M[i + 2]) / diag[i];
+  }
+  M[0] = 2 * M[1] - M[2];
+  M[n - 1] = 2 * M[n - 2] - M[n - 3];
+
+  const y = new Float64Array(length);
+  for (let t = 0; t < length; t++) {
+    const seg = Math.min(n - 2, Math.max(0, Math.floor((t - knotX[0]) / h)));
+    const a = knotX[seg + 1] - t;
+    const b = t - knotX[seg];
+    y[t] =
+      (M[seg] * a * a * a + M[seg + 1] * b * b * b) / (6 * h) +
+      (knotY[seg] / h - (M[seg] * h) / 6) * a +
+      (knotY[seg + 1] / h - (M[seg + 1] * h) / 6) * b;
+  }
+  return y;
+}
+
+/**
+ * Discrete convolution trimmed to the input length (numpy.convolve, mode='same').
+ */
+export function convolveSame(x: Float64Array, h: number[]): Float64Array {
+  const n = x.length;
+  const m = h.length;
+  const offset = Math.floor((m - 1) / 2);
+  const y = new Float64Array(Math.max(n, m));
+
+  for (let i = 0; i < y.length; i++) {
+    const full = i + offset;
+    let sum = 0;
+    for (let k = Math.max(0, full - n + 1); k < m && k <= full; k++) {
+      sum += h[k] * x[full - k];
+    }
+    y[i] = sum;
+  }
+  return y;
+}
+
+/**
+ * Moving sum over a fixed window centred like numpy.convolve(x, ones(size) / size, mode='same').
+ */
+export function movingAverageSame(x: Float64Array, size: number): Float64Array {
+  const n = x.length;
+  const offset = Math.floor((size - 1) / 2);
+  const y = new Float64Array(n);
+
+  // y[i] averages x[i + offset - size + 1 .. i + offset], zero outside the signal
+  let sum = 0;
+  for (let j = offset - size + 1; j <= offset; j++) {
+    if (j >= 0 && j < n) sum += x[j];
+  }
+  for (let i = 0; i < n; i++) {
+    y[i] = sum / size;
+    const incoming = i + offset + 1;
+    const outgoing = i + offset - size + 1;
+    if (incoming < n) sum += x[incoming];
+    if (outgoing >= 0 && outgoing < n) sum -= x[outgoing];
+  }
+  return y;
+}
+
+export function mean(x: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) sum += x[i];
+  return x.length > 0 ? sum / x.length : NaN;
+}
+
+/**
+ * Variance with `ddof` delta degrees of freedom (numpy.var).
+ */
+export function variance(x: ArrayLike<number>, ddof = 0): number {
+  const m = mean(x);
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) sum += (x[i] - m) * (x[i] - m);
+  return sum / (x.length - ddof);
+}
+
+export function std(x: ArrayLike<number>, ddof = 0): number {
+  return Math.sqrt(variance(x, ddof));
+}
+
+/**
+ * Percentile with linear interpolation (numpy.percentile default method).
+ */
+export function percentile(x: ArrayLike<number>, q: number): number {
+  const sorted = Float64Array.from(x).sort();
+  const pos = (q / 100) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function median(x: ArrayLike<number>): number {
+  return percentile(x, 50);
+}
+
+/**
+ * Index of the first maximum (numpy.argmax).
+ */
+export function argmax(x: ArrayLike<number>, start = 0, end = x.length): number {
+  let best = start;
+  for (let i = start + 1; i < end; i++) {
+    if (x[i] > x[best]) best = i;
+  }
+  return best;
+}
+
+/**
+ * Index of the first minimum (numpy.argmin).
+ */
+export function argmin(x: ArrayLike<number>, start = 0, end = x.length): number {
+  let best = start;
+  for (let i = start + 1; i < end; i++) {
+    if (x[i] < x[best]) best = i;
+  }
+  return best;
+}
+
+/**
+ * First differences (numpy.diff).
+ */
+export function diff(x: ArrayLike<number>): number[] {
+  const out: number[] = [];
+  for (let i = 1; i < x.length; i++) out.push(x[i] - x[i - 1]);
+  return out;
+}
@@ -0,0 +1,127 @@
+/**
+ * Web Worker for the TypeScript processing engine.
+ * Speaks the processing half of the Pyodide worker protocol, so results match message for message.
+ */
+
+import type { FilterConfig, ProcessingConfig } from '../types';
+import { analyzePeaks, preprocessECG, processECGMultilead } from './ecgAnalysis';
+import { installNetworkMonitor } from './networkMonitor';
+import type { WorkerRequest } from './ecgProcessor';
+import { WorkerInbox } from './workerInbox';
+
+type DSPMainThreadMessageType =
+  | 'ECG_PROCESSED'
+  | 'PREPROCESSING_COMPLETE'
+  | 'PEAKS_ANALYZED'
+  | 'NETWORK_REQUEST'
+  | 'REQUEST_CANCELLED'
+  | 'ERROR';
+
+type DSPRequestMessage = WorkerRequest & { requestId?: string };
+
+type DSPWorkerMessage = DSPRequestMessage | { type: 'CANCEL'; data?: undefined; requestId?: string };
+
+interface DSPMainThreadMessage {
+  type: DSPMainThreadMessageType;
+  data?: any;
+  requestId?: string;
+  error?: string;
+}
+
+// Filter settings arrive already resolved against their preset
+type WorkerProcessingConfig = Omit<ProcessingConfig, 'filter'> & { filter?: FilterConfig };
+
+installNetworkMonitor('DSP worker', record => {
+  self.postMessage({ type: 'NETWORK_REQUEST', data: record } as DSPMainThreadMessage);
+});
+
+// Requests that have not started when their CANCEL arrives are dropped
+const inbox = new WorkerInbox<DSPRequestMessage>(handleRequest, requestId => {
+  self.postMessage({ type: 'REQUEST_CANCELLED', requestId } as DSPMainThreadMessage);
+});
+
+/**
+ * Run one processing request taken from the inbox.
+ */
+function handleRequest({ type, data, requestId }: DSPRequestMessage): void {
+  try {
+    switch (type) {
+      case 'PROCESS_ECG': {
+        const leads: { name: string; voltages: Float32Array }[] = data.leads;
+        const config: WorkerProcessingConfig = data.config || {};
+        console.log(`[DSPWorker] Processing ${leads.length} lead(s), ${leads[0]?.voltages.length || 0} samples...`);
+
+        const results = processECGMultilead(
+          leads.map(l => l.voltages),
+          leads.map(l => l.name),
+          config.sampleRate || 250,
+          config.lead,
+          config.leadFusion || false,
+          config.verbose || false,
+          config.filter
+        );
+
+        inbox.reply(requestId, () => self.postMessage(
+          { type: 'ECG_PROCESSED', data: results, requestId } as DSPMainThreadMessage,
+          { transfer: [...Object.values(results.cleaned_leads || {}).map(lead => lead.buffer), results.r_peak_indices.buffer] }
+        ));
+        break;
+      }
+
+      case 'PREPROCESS_ONLY': {
+        const config: WorkerProcessingConfig = data.config || {};
+        const { cleaned, filterMetrics } = preprocessECG(data.rawVoltages, config.sampleRate || 250, false, config.filter);
+
+        const cleanedSignal = Float32Array.from(cleaned);
+        inbox.reply(requestId, () => self.postMessage(
+          { type: 'PREPROCESSING_COMPLETE', data: { cleaned_signal: cleanedSignal, metrics: filterMetrics }, requestId } as DSPMainThreadMessage,
+          { transfer: [cleanedSignal.buffer] }
+        ));
+        break;
+      }
+
+      case 'ANALYZE_PEAKS': {
+        const config: WorkerProcessingConfig = data.config || {};
+        const results = analyzePeaks(data.cleanedSignal, data.peaks, data.filterMetrics, config.sampleRate || 250, config.verbose || false);
+
+        // The page already holds the cleaned signal
+        const { cleaned_signal, ...beatResults } = results;
+        inbox.reply(requestId, () => self.postMessage(
+          { type: 'PEAKS_ANALYZED', data: beatResults, requestId } as DSPMainThreadMessage,
+          { transfer: [beatResults.r_peak_indices.buffer] }
+        ));
+        break;
+      }
+
+    }
+  } catch (error) {
+    console.error('[DSPWorker] Processing error:', error);
+    inbox.reply(requestId, () => self.postMessage({
+      type: 'ERROR',
+      error: `Processing failed: ${error instanceof Error ? error.message : error}`,
+      requestId
+    } as DSPMainThreadMessage));
+  }
+}
+
+/**
+ * Main message handler for DSP Worker communication.
+ */
+self.addEventListener('message', (e: MessageEvent<DSPWorkerMessage>) => {
+  const message = e.data;
+
+  switch (message.type) {
+    case 'PROCESS_ECG':
+    case 'PREPROCESS_ONLY':
+    case 'ANALYZE_PEAKS':
+      inbox.push(message);
+      break;
+
+    case 'CANCEL':
+      if (message.requestId) inbox.cancel(message.requestId);
+      break;
+
+    default:
+      console.warn(`[DSPWorker] Unknown message type: ${(message as { type: string }).type}`);
+  }
+});
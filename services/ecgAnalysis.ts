@@ -0,0 +1,772 @@
+/**
+ * TypeScript port of the ecg_processor.py pipeline.
+ * Functions mirror their Python counterparts one to one and return the same snake_case result
+ * dictionaries, so either engine's output feeds the same result transformation.
+ */
+
+import type { BaselineMethod, FilterConfig } from '../types';
+import {
+  argmax,
+  argmin,
+  butterBA,
+  butterSOS,
+  diff,
+  evenCubicSpline,
+  filtfilt,
+  iirNotch,
+  mean,
+  median,
+  medianFilter,
+  movingAverageSame,
+  convolveSame,
+  percentile,
+  sosfiltfilt,
+  std,
+  uniformFilter1d,
+  variance,
+  type SOSSection
+} from './dsp';
+
+export type Signal = ArrayLike<number>;
+
+/** `arrhythmia_metrics`; the R-R statistics are missing with fewer than three beats. */
+export interface ArrhythmiaMetrics {
+  cv: number;
+  mean_hr: number;
+  mean_rr_ms?: number;
+  std_rr_ms?: number;
+}
+
+/** `qrs_metrics` */
+export interface QrsMetrics {
+  mean_qrs_ms: number;
+  std_qrs_ms: number;
+  qrs_interpretation: string;
+}
+
+/** `qt_metrics`; QTc is Bazett-corrected, other formulas are applied in clinicalRules.ts. */
+export interface QtMetrics {
+  mean_qt_ms: number;
+  mean_qtc_bazett_ms: number;
+  qt_risk_flag: boolean;
+  qt_interpretation: string;
+}
+
+/** `hrv_metrics`; only the first four fields are present when there are too few NN intervals. */
+export interface HrvMetrics {
+  sdnn_ms: number;
+  rmssd_ms: number;
+  pnn50_percent: number;
+  hrv_interpretation: string;
+  sdsd_ms?: number;
+  pnn20_percent?: number;
+  mean_nn_ms?: number;
+  cv_percent?: number;
+  nn_count?: number;
+  ectopic_removed?: number;
+}
+
+/** Result dictionary of `process_ecg_multilead` / `processECGMultilead`. */
+export interface PipelineResults {
+  cleaned_signal: Float32Array;
+  r_peak_indices: Int32Array;
+  metrics: Record<string, any>;
+  filter_metrics: Record<string, any>;
+  detection_metrics: Record<string, any>;
+  arrhythmia_metrics: ArrhythmiaMetrics;
+  qrs_metrics: QrsMetrics;
+  qt_metrics: QtMetrics;
+  hrv_metrics: HrvMetrics;
+  rhythm_status: string;
+  clinical_warnings: string[];
+  sample_rate: number;
+  num_samples: number;
+  analysis_lead?: string;
+  fused?: boolean;
+  cleaned_leads?: Record<string, Float32Array>;
+}
+
+// Monitoring preset; matches DEFAULT_FILTER_CONFIG in ecg_processor.py
+const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  notchFrequency: 60,
+  notchHarmonics: 0,
+  highPass: 0.5,
+  lowPass: 40,
+  order: 4,
+  baselineMethod: 'moving-average'
+};
+
+// ============================================================================
+// ECG PREPROCESSING
+// ============================================================================
+
+/**
+ * Estimate baseline wander with a moving average, two-stage median or cubic spline.
+ */
+export function estimateBaseline(ecgSignal: Float64Array, fs: number, method: BaselineMethod): Float64Array {
+  if (method === 'moving-average') {
+    return uniformFilter1d(ecgSignal, Math.max(1, Math.trunc(0.2 * fs)));
+  }
+
+  if (method === 'median') {
+    // 200 ms window removes QRS, 600 ms window removes P and T waves
+    const stage1 = medianFilter(ecgSignal, Math.trunc(0.2 * fs) | 1);
+    return medianFilter(stage1, Math.trunc(0.6 * fs) | 1);
+  }
+
+  if (method === 'spline') {
+    // Cubic spline through the median of each 1 s segment
+    const segment = Math.trunc(fs);
+    if (ecgSignal.length < 4 * segment) {
+      return new Float64Array(ecgSignal.length).fill(median(ecgSignal));
+    }
+    const knotX: number[] = [];
+    const knotY: number[] = [];
+    for (let s = 0; s + segment <= ecgSignal.length; s += segment) {
+      knotX.push(s + segment / 2);
+      knotY.push(median(ecgSignal.subarray(s, s + segment)));
+    }
+    return evenCubicSpline(knotX, knotY, ecgSignal.length);
+  }
+
+  return new Float64Array(ecgSignal.length);
+}
+
+/**
+ * Apply bandpass, notch, and baseline wander removal to raw ECG signal.
+ */
+export function preprocessECG(
+  rawSignal: Signal,
+  fs = 250,
+  verbose = false,
+  filterConfig?: FilterConfig
+): { cleaned: Float64Array; filterMetrics: Record<string, any> } {
+  const config = { ...DEFAULT_FILTER_CONFIG, ...filterConfig };
+
+  if (verbose) {
+    console.log(`[Preprocessing] Input signal: ${rawSignal.length} samples @ ${fs} Hz, filter`, config);
+  }
+
+  const signalArray = Float64Array.from(rawSignal);
+  const nyquist = fs / 2;
+
+  // Band limits; a low-pass edge at or above Nyquist leaves only the high-pass stage
+  let sos: SOSSection[] | null;
+  if (config.lowPass >= 0.95 * nyquist) {
+    sos = config.highPass > 0 ? butterSOS(config.order, config.highPass / nyquist, 'highpass') : null;
+  } else if (config.highPass > 0) {
+    sos = butterSOS(config.order, [config.highPass / nyquist, config.lowPass / nyquist], 'bandpass');
+  } else {
+    sos = butterSOS(config.order, config.lowPass / nyquist, 'lowpass');
+  }
+  const filtered = sos ? sosfiltfilt(sos, signalArray) : signalArray;
+
+  // Notch filter at the mains frequency and requested harmonics (powerline interference)
+  let notched = filtered;
+  if (config.notchFrequency) {
+    for (let harmonic = 1; harmonic <= config.notchHarmonics + 1; harmonic++) {
+      const freq = config.notchFrequency * harmonic;
+      if (freq >= nyquist) break;
+      const { b, a } = iirNotch(freq / nyquist, 30);
+      notched = filtfilt(b, a, notched);
+    }
+  }
+
+  // Baseline wander removal
+  const baseline = estimateBaseline(notched, fs, config.baselineMethod);
+  const cleaned = notched.map((v, i) => v - baseline[i]);
+
+  // Signal quality estimation via SNR
+  const signalPower = variance(cleaned);
+  const noisePower = variance(signalArray.map((v, i) => v - cleaned[i]));
+  const snrDb = noisePower === 0 ? 100 : 10 * Math.log10(signalPower / noisePower);
+
+  // Map SNR (typical range: 5-25 dB) to confidence percentage
+  const qualityPercent = Math.max(0, Math.min(100, (snrDb - 5) * 5));
+
+  return {
+    cleaned,
+    filterMetrics: {
+      snr_db: snrDb,
+      confidence_score: qualityPercent,
+      signal_std: std(cleaned),
+      filter_config: {
+        notch_frequency: config.notchFrequency,
+        notch_harmonics: config.notchHarmonics,
+        high_pass: config.highPass,
+        low_pass: config.lowPass,
+        order: config.order,
+        baseline_method: config.baselineMethod
+      }
+    }
+  };
+}
+
+/**
+ * Adaptive QRS detection using Pan-Tompkins algorithm with enhanced peak localization.
+ */
+export function panTompkinsDetector(
+  ecgSignal: Signal,
+  fs = 250,
+  verbose = false
+): { rPeaks: number[]; detectionMetrics: Record<string, any> } {
+  if (verbose) {
+    console.log(`[Pan-Tompkins] Starting QRS detection on ${ecgSignal.length} samples`);
+  }
+
+  const signalArray = Float64Array.from(ecgSignal);
+
+  // Bandpass filter: 5-15 Hz (optimized for QRS complex)
+  const nyquist = fs / 2;
+  const { b: bQrs, a: aQrs } = butterBA(2, [5 / nyquist, 15 / nyquist], 'bandpass');
+  const filteredQrs = filtfilt(bQrs, aQrs, signalArray);
+
+  // Five-point derivative
+  const h = [-1, -2, 0, 2, 1].map(v => v / (8 / fs));
+  const derivative = convolveSame(filteredQrs, h);
+
+  // Squaring function (emphasizes high frequencies)
+  const squared = derivative.map(v => v * v);
+
+  // Moving window integration (120 ms window)
+  const integrated = movingAverageSame(squared, Math.trunc(0.12 * fs));
+
+  // Adaptive thresholding with refractory period
+  const rPeaks: number[] = [];
+  const signalPeaks: number[] = [];
+  const noisePeaks: number[] = [];
+
+  let threshold = 0.6 * percentile(integrated, 98);
+  const refractorySamples = Math.trunc(0.2 * fs);
+  const searchWindow = Math.trunc(0.08 * fs);
+  const amplitudeFloor = std(signalArray) * 0.5;
+
+  let i = 1;
+  while (i < integrated.length - 1) {
+    // Detect local maxima in integrated signal
+    if (integrated[i] > integrated[i - 1] && integrated[i] > integrated[i + 1]) {
+      if (integrated[i] > threshold) {
+        // Enforce refractory period
+        if (rPeaks.length === 0 || i - rPeaks[rPeaks.length - 1] > refractorySamples) {
+          // Localize actual R-peak in original signal
+          const startIdx = Math.max(0, i - searchWindow);
+          const endIdx = Math.min(signalArray.length, i + searchWindow);
+
+          if (endIdx > startIdx) {
+            const actualPeakIdx = argmax(signalArray, startIdx, endIdx);
+
+            // Amplitude validation (reject low-amplitude detections)
+            if (signalArray[actualPeakIdx] > amplitudeFloor) {
+              rPeaks.push(actualPeakIdx);
+              signalPeaks.push(integrated[i]);
+
+              // Update adaptive threshold
+              const avgSignalPeak = mean(signalPeaks.slice(-8));
+              const avgNoisePeak = noisePeaks.length > 0 ? mean(noisePeaks.slice(-8)) : 0;
+              threshold = avgNoisePeak + 0.4 * (avgSignalPeak - avgNoisePeak);
+
+              i += refractorySamples;
+              continue;
+            }
+          }
+        }
+      } else {
+        noisePeaks.push(integrated[i]);
+      }
+    }
+    i++;
+  }
+
+  // Calculate heart rate metrics
+  let detectionMetrics: Record<string, any>;
+  if (rPeaks.length >= 2) {
+    const rrIntervals = diff(rPeaks).map(v => v / fs);
+    const avgRr = mean(rrIntervals);
+    detectionMetrics = {
+      num_peaks: rPeaks.length,
+      avg_heart_rate_bpm: avgRr > 0 ? 60 / avgRr : 0,
+      avg_rr_interval_s: avgRr,
+      rr_std_s: std(rrIntervals),
+      final_threshold: threshold
+    };
+  } else {
+    detectionMetrics = { num_peaks: rPeaks.length, avg_heart_rate_bpm: 0, final_threshold: threshold };
+  }
+
+  return { rPeaks, detectionMetrics };
+}
+
+// ============================================================================
+// RHYTHM ANALYSIS
+// ============================================================================
+
+/**
+ * Classify cardiac rhythm based on heart rate and RR interval variability.
+ */
+export function detectArrhythmia(rPeaks: number[], fs = 250): { rhythmStatus: string; metrics: ArrhythmiaMetrics } {
+  if (rPeaks.length < 3) {
+    return { rhythmStatus: 'Insufficient data', metrics: { cv: 0, mean_hr: 0 } };
+  }
+
+  // Calculate RR interval statistics
+  const rrIntervals = diff(rPeaks).map(v => v / fs);
+  const meanRr = mean(rrIntervals);
+  const stdRr = std(rrIntervals);
+  const cv = meanRr > 0 ? stdRr / meanRr : 0;
+  const meanHr = mean(rrIntervals.map(rr => 60 / rr));
+
+  // Rate-based classification
+  let rhythmStatus: string;
+  if (meanHr < 60) {
+    rhythmStatus = 'Bradycardia';
+  } else if (meanHr > 100) {
+    rhythmStatus = 'Tachycardia';
+  } else {
+    rhythmStatus = 'Normal Sinus Rhythm';
+  }
+
+  // Override with irregularity assessment (higher priority)
+  if (cv >= 0.15) {
+    rhythmStatus = 'Flagged: Irregular Rhythm';
+  } else if (cv >= 0.08 && rhythmStatus.includes('Normal')) {
+    rhythmStatus = 'Borderline: Mild Irregularity';
+  }
+
+  return {
+    rhythmStatus,
+    metrics: {
+      cv,
+      mean_hr: meanHr,
+      mean_rr_ms: meanRr * 1000,
+      std_rr_ms: stdRr * 1000
+    }
+  };
+}
+
+// ============================================================================
+// WAVEFORM MORPHOLOGY
+// ============================================================================
+
+/**
+ * Measure QRS complex duration using onset-to-offset detection.
+ */
+export function measureQrsWidth(ecgSignal: Signal, rPeaks: number[], fs = 250): QrsMetrics {
+  if (rPeaks.length < 2) {
+    return { mean_qrs_ms: 0, std_qrs_ms: 0, qrs_interpretation: 'Insufficient data' };
+  }
+
+  const signalArray = Float64Array.from(ecgSignal);
+  const qrsWidths: number[] = [];
+  const preWindow = Math.trunc(0.05 * fs);
+  const postWindow = Math.trunc(0.08 * fs);
+
+  for (const rIdx of rPeaks) {
+    // Define search window around R-peak
+    const startSearch = Math.max(0, rIdx - preWindow);
+    const endSearch = Math.min(signalArray.length, rIdx + postWindow);
+
+    const segment = signalArray.subarray(startSearch, endSearch);
+    if (segment.length < 5) continue;
+
+    const rLocal = rIdx - startSearch;
+
+    // Q-wave onset detection (backward slope analysis)
+    let qOnset = 0;
+    for (let i = rLocal; i > 0; i--) {
+      if (i < rLocal - 2 && Math.abs(segment[i] - segment[i - 1]) < 0.005) {
+        qOnset = i;
+        break;
+      }
+    }
+
+    // S-wave offset detection (forward from S-wave minimum)
+    const sPointGlobal = argmin(segment, rLocal, segment.length);
+
+    let sOffset = segment.length - 1;
+    for (let i = sPointGlobal; i < segment.length - 1; i++) {
+      if (Math.abs(segment[i + 1] - segment[i]) < 0.005) {
+        sOffset = i;
+        break;
+      }
+    }
+
+    const widthMs = ((sOffset - qOnset) * 1000) / fs;
+
+    // Physiological range filter
+    if (widthMs > 40 && widthMs < 200) {
+      qrsWidths.push(widthMs);
+    }
+  }
+
+  if (qrsWidths.length === 0) {
+    return { mean_qrs_ms: 80, std_qrs_ms: 0, qrs_interpretation: 'Could not detect' };
+  }
+
+  const meanQrs = mean(qrsWidths);
+
+  // Clinical interpretation
+  let status = 'Normal';
+  if (meanQrs >= 120) status = 'Wide QRS (BBB/Ventricular)';
+  else if (meanQrs <= 60) status = 'Narrow (Normal)';
+
+  return {
+    mean_qrs_ms: meanQrs,
+    std_qrs_ms: std(qrsWidths),
+    qrs_interpretation: status
+  };
+}
+
+/**
+ * Calculate QT interval using tangent method for T-wave offset detection.
+ */
+export function calculateQtInterval(ecgSignal: Signal, rPeaks: number[], fs = 250): QtMetrics {
+  if (rPeaks.length < 3) {
+    return { mean_qt_ms: 0, mean_qtc_bazett_ms: 0, qt_risk_flag: false, qt_interpretation: 'N/A' };
+  }
+
+  const signalArray = Float64Array.from(ecgSignal);
+  const qtMsList: number[] = [];
+
+  for (let i = 0; i < rPeaks.length - 1; i++) {
+    const rIdx = rPeaks[i];
+
+    // Define T-wave search window
+    const tStart = rIdx + Math.trunc(0.04 * fs);
+    const tEndWindow = rIdx + Math.trunc(0.45 * fs);
+
+    if (tEndWindow >= signalArray.length) continue;
+    if (tEndWindow <= tStart) continue;
+
+    // Locate T-wave peak
+    const tPeakIdx = argmax(signalArray, tStart, tEndWindow);
+
+    // Find maximum downslope (tangent method)
+    const slopeSearch = signalArray.subarray(tPeakIdx, tPeakIdx + Math.trunc(0.1 * fs));
+    if (slopeSearch.length < 2) continue;
+
+    const slopes = diff(slopeSearch);
+    const minSlopeIdx = argmin(slopes);
+    const maxSlope = slopes[minSlopeIdx];
+
+    if (maxSlope === 0) continue;
+
+    // Calculate tangent-baseline intersection
+    const slopePointIdx = tPeakIdx + minSlopeIdx;
+    const tEndIdx = slopePointIdx - signalArray[slopePointIdx] / maxSlope;
+    const qStartIdx = rIdx - Math.trunc(0.03 * fs);
+
+    const qtMs = ((tEndIdx - qStartIdx) / fs) * 1000;
+
+    // Physiological range filter
+    if (qtMs > 200 && qtMs < 600) {
+      qtMsList.push(qtMs);
+    }
+  }
+
+  const meanQt = qtMsList.length > 0 ? mean(qtMsList) : 0;
+
+  const rrIntervals = diff(rPeaks).map(v => v / fs);
+  const meanRr = rrIntervals.length > 0 ? mean(rrIntervals) : 1;
+
+  // Bazett's correction
+  const qtcBazett = meanRr > 0 ? meanQt / Math.sqrt(meanRr) : 0;
+
+  return {
+    mean_qt_ms: meanQt,
+    mean_qtc_bazett_ms: qtcBazett,
+    qt_risk_flag: qtcBazett > 470,
+    qt_interpretation: qtcBazett < 450 ? 'Normal' : qtcBazett < 500 ? 'Prolonged QTc' : 'High Risk (Long QT)'
+  };
+}
+
+/**
+ * Calculate time-domain heart rate variability metrics with artifact rejection.
+ */
+export function calculateHrvMetrics(rPeaks: number[], fs = 250): HrvMetrics {
+  if (rPeaks.length < 3) {
+    return {
+      sdnn_ms: 0, rmssd_ms: 0, pnn50_percent: 0,
+      mean_nn_ms: 0, cv_percent: 0,
+      hrv_interpretation: 'Insufficient data'
+    };
+  }
+
+  const rrMs = diff(rPeaks).map(v => (v / fs) * 1000);
+
+  // Apply physiological filter (40-200 bpm range)
+  const nnIntervals = rrMs.filter(rr => rr > 300 && rr < 1500);
+
+  if (nnIntervals.length < 2) {
+    return {
+      sdnn_ms: 0, rmssd_ms: 0, pnn50_percent: 0,
+      hrv_interpretation: 'High noise level - unstable RR'
+    };
+  }
+
+  // Standard deviation of NN intervals
+  const sdnn = std(nnIntervals, 1);
+
+  // Root mean square of successive differences
+  const diffNn = diff(nnIntervals);
+  const rmssd = Math.sqrt(mean(diffNn.map(d => d * d)));
+
+  // Percentage of successive differences > 50 ms
+  const nn50 = diffNn.filter(d => Math.abs(d) > 50).length;
+  const pnn50 = diffNn.length > 0 ? (nn50 / diffNn.length) * 100 : 0;
+
+  const meanNn = mean(nnIntervals);
+  const cv = (sdnn / meanNn) * 100;
+
+  // Clinical interpretation (adjusted for short-term recordings)
+  let interpretation: string;
+  if (sdnn < 20) {
+    interpretation = 'Low HRV (Reduced variability)';
+  } else if (sdnn < 100) {
+    interpretation = 'Normal range for short-term recording';
+  } else {
+    interpretation = 'High Variability';
+  }
+
+  return {
+    sdnn_ms: sdnn,
+    rmssd_ms: rmssd,
+    sdsd_ms: diffNn.length > 0 ? std(diffNn) : 0,
+    pnn50_percent: pnn50,
+    pnn20_percent: 0,
+    mean_nn_ms: meanNn,
+    cv_percent: cv,
+    nn_count: nnIntervals.length,
+    ectopic_removed: rrMs.length - nnIntervals.length,
+    hrv_interpretation: interpretation
+  };
+}
+
+// ============================================================================
+// COMPLETE PIPELINE
+// ============================================================================
+
+/**
+ * Merge per-lead R-peak detections by majority vote (default: half of the leads must agree).
+ */
+export function fuseRPeaks(peakLists: number[][], fs = 250, toleranceS = 0.1, minVotes?: number): number[] {
+  const votes = minVotes ?? Math.max(1, Math.ceil(peakLists.length / 2));
+  const detections = peakLists
+    .flatMap((peaks, lead) => peaks.map(peak => [Math.trunc(peak), lead] as [number, number]))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const tolerance = Math.trunc(toleranceS * fs);
+
+  const fused: number[] = [];
+  let cluster: [number, number][] = [];
+  const closeCluster = () => {
+    if (cluster.length > 0 && new Set(cluster.map(([, lead]) => lead)).size >= votes) {
+      fused.push(Math.trunc(median(cluster.map(([peak]) => peak))));
+    }
+    cluster = [];
+  };
+
+  for (const detection of detections) {
+    if (cluster.length > 0 && detection[0] - cluster[0][0] > tolerance) {
+      closeCluster();
+    }
+    cluster.push(detection);
+  }
+  closeCluster();
+
+  return fused;
+}
+
+/**
+ * Snap approximate beat positions to the local maximum of the analysis lead.
+ */
+export function localizeRPeaks(ecgSignal: Signal, approxPeaks: number[], fs = 250, windowS = 0.05): number[] {
+  const signalArray = Float64Array.from(ecgSignal);
+  const window = Math.trunc(windowS * fs);
+  const localized: number[] = [];
+
+  for (const idx of approxPeaks) {
+    const start = Math.max(0, idx - window);
+    const end = Math.min(signalArray.length, idx + window + 1);
+    const peak = argmax(signalArray, start, end);
+    if (localized.length === 0 || peak - localized[localized.length - 1] > Math.trunc(0.2 * fs)) {
+      localized.push(peak);
+    }
+  }
+
+  return localized;
+}
+
+/**
+ * Heart rate summary for an R-peak series (same keys as panTompkinsDetector).
+ */
+export function rrDetectionMetrics(rPeaks: number[], fs = 250): Record<string, any> {
+  if (rPeaks.length < 2) {
+    return { num_peaks: rPeaks.length, avg_heart_rate_bpm: 0 };
+  }
+
+  const rrIntervals = diff(rPeaks).map(v => v / fs);
+  const avgRr = mean(rrIntervals);
+  return {
+    num_peaks: rPeaks.length,
+    avg_heart_rate_bpm: avgRr > 0 ? 60 / avgRr : 0,
+    avg_rr_interval_s: avgRr,
+    rr_std_s: std(rrIntervals)
+  };
+}
+
+/**
+ * Run rhythm, morphology and HRV analysis on a cleaned signal with known R-peaks.
+ */
+export function analyzeBeats(
+  cleanedSignal: Signal,
+  rPeaks: number[],
+  filterMetrics: Record<string, any>,
+  detectionMetrics: Record<string, any>,
+  sampleRate = 250,
+  verbose = true
+): PipelineResults {
+  // Rhythm classification
+  const { rhythmStatus, metrics: arrhythmiaMetrics } = detectArrhythmia(rPeaks, sampleRate);
+
+  // Morphology analysis
+  const qrsMetrics = measureQrsWidth(cleanedSignal, rPeaks, sampleRate);
+  const qtMetrics = calculateQtInterval(cleanedSignal, rPeaks, sampleRate);
+  const hrvMetrics = calculateHrvMetrics(rPeaks, sampleRate);
+
+  // Clinical interpretation
+  let enhancedRhythm = rhythmStatus;
+  const warnings: string[] = [];
+
+  if (qrsMetrics.mean_qrs_ms > 120) {
+    if (detectionMetrics.avg_heart_rate_bpm > 100) {
+      enhancedRhythm = 'Wide-Complex Tachycardia - URGENT EVALUATION';
+      warnings.push('Wide QRS with tachycardia requires immediate assessment');
+    } else {
+      warnings.push(qrsMetrics.qrs_interpretation);
+    }
+  }
+
+  if (qtMetrics.qt_risk_flag) {
+    warnings.push(qtMetrics.qt_interpretation);
+  }
+
+  if (hrvMetrics.sdnn_ms > 0 && hrvMetrics.sdnn_ms < 50) {
+    warnings.push('Low HRV detected - consider cardiac risk assessment');
+  }
+
+  // Format for UI consumption
+  const uiMetrics = {
+    bpm: detectionMetrics.avg_heart_rate_bpm,
+    rhythmStatus: enhancedRhythm,
+    confidence: filterMetrics.confidence_score,
+    sdnn: hrvMetrics.sdnn_ms,
+    rmssd: hrvMetrics.rmssd_ms,
+    qtcBazett: qtMetrics.mean_qtc_bazett_ms,
+    qrsWidth: qrsMetrics.mean_qrs_ms,
+    pnn50: hrvMetrics.pnn50_percent,
+    clinicalWarnings: warnings
+  };
+
+  if (verbose) {
+    console.log(`[Analysis] ${rPeaks.length} R-peaks, ${uiMetrics.bpm.toFixed(1)} BPM, ${uiMetrics.rhythmStatus}, confidence ${uiMetrics.confidence.toFixed(1)}%`);
+  }
+
+  return {
+    cleaned_signal: Float32Array.from(cleanedSignal),
+    r_peak_indices: Int32Array.from(rPeaks),
+    metrics: uiMetrics,
+    filter_metrics: filterMetrics,
+    detection_metrics: detectionMetrics,
+    arrhythmia_metrics: arrhythmiaMetrics,
+    qrs_metrics: qrsMetrics,
+    qt_metrics: qtMetrics,
+    hrv_metrics: hrvMetrics,
+    rhythm_status: enhancedRhythm,
+    clinical_warnings: warnings,
+    sample_rate: sampleRate,
+    num_samples: cleanedSignal.length
+  };
+}
+
+/**
+ * Re-run the beat analysis on user-supplied R-peaks (manual over-read).
+ * Peaks are sorted and de-duplicated; detection metrics come from the corrected R-R series.
+ */
+export function analyzePeaks(
+  cleanedSignal: Signal,
+  rPeaks: ArrayLike<number>,
+  filterMetrics: Record<string, any>,
+  sampleRate = 250,
+  verbose = false
+): PipelineResults {
+  const peaks = [...new Set(Array.from(rPeaks))]
+    .filter(p => p >= 0 && p < cleanedSignal.length)
+    .sort((a, b) => a - b);
+  const detectionMetrics = { ...rrDetectionMetrics(peaks, sampleRate), manual: true };
+  return analyzeBeats(cleanedSignal, peaks, filterMetrics, detectionMetrics, sampleRate, verbose);
+}
+
+/**
+ * Execute complete ECG analysis pipeline with clinical interpretation.
+ */
+export function processECGComplete(
+  rawVoltages: Signal,
+  sampleRate = 250,
+  verbose = true,
+  filterConfig?: FilterConfig
+): PipelineResults {
+  const { cleaned, filterMetrics } = preprocessECG(rawVoltages, sampleRate, verbose, filterConfig);
+  const { rPeaks, detectionMetrics } = panTompkinsDetector(cleaned, sampleRate, verbose);
+  return analyzeBeats(cleaned, rPeaks, filterMetrics, detectionMetrics, sampleRate, verbose);
+}
+
+/**
+ * Execute the analysis pipeline on a multi-lead recording.
+ * Every lead is preprocessed for display. R-peaks come from the analysis lead, or from a
+ * majority vote across all leads when `fuseLeads` is set; morphology is measured on the analysis lead.
+ */
+export function processECGMultilead(
+  leadSignals: Signal[],
+  leadNames: string[],
+  sampleRate = 250,
+  analysisLead?: string | null,
+  fuseLeads = false,
+  verbose = true,
+  filterConfig?: FilterConfig
+): PipelineResults {
+  if (verbose) {
+    console.log(`[Analysis] Multi-lead processing: ${leadNames.length} leads, analysis lead ${analysisLead || leadNames[0]}`);
+  }
+
+  const lead = analysisLead && leadNames.includes(analysisLead) ? analysisLead : leadNames[0];
+  const primaryIdx = leadNames.indexOf(lead);
+
+  const processed = leadSignals.map(raw => preprocessECG(raw, sampleRate, false, filterConfig));
+  const cleanedLeads = processed.map(p => p.cleaned);
+  const primarySignal = cleanedLeads[primaryIdx];
+  const filterMetrics = processed[primaryIdx].filterMetrics;
+
+  let rPeaks: number[];
+  let detectionMetrics: Record<string, any>;
+  const fused = fuseLeads && cleanedLeads.length > 1;
+
+  if (fused) {
+    const leadPeaks = cleanedLeads.map(sig => panTompkinsDetector(sig, sampleRate, false).rPeaks);
+    rPeaks = localizeRPeaks(primarySignal, fuseRPeaks(leadPeaks, sampleRate), sampleRate);
+    detectionMetrics = {
+      ...rrDetectionMetrics(rPeaks, sampleRate),
+      fused_leads: cleanedLeads.length,
+      lead_peak_counts: Object.fromEntries(leadNames.map((name, i) => [name, leadPeaks[i].length]))
+    };
+  } else {
+    ({ rPeaks, detectionMetrics } = panTompkinsDetector(primarySignal, sampleRate, verbose));
+  }
+
+  const results = analyzeBeats(primarySignal, rPeaks, filterMetrics, detectionMetrics, sampleRate, verbose);
+  results.analysis_lead = lead;
+  results.fused = fused;
+  results.cleaned_leads = Object.fromEntries(leadNames.map((name, i) => [name, Float32Array.from(cleanedLeads[i])]));
+  // The analysis lead shares one buffer between both fields
+  results.cleaned_signal = results.cleaned_leads[lead];
+
+  return results;
+}
@@ -1,47 +1,167 @@
 /**
- * Main thread interface for Web Worker-based ECG processing using Pyodide.
+ * Main thread interface for ECG processing engines.
+ * The Pyodide engine runs ecg_processor.py in a Web Worker, or on the calling thread where a
+ * runtime loader is set (Node); the TypeScript engine runs the ecgAnalysis.ts port of the same
+ * pipeline without the Python runtime.
  */
 
-import type { ECGPoint, PatientMetrics, ProcessingConfig } from '../../types';
+import type { ECGLead, ECGSignal, PatientMetrics, ProcessingConfig, ProcessingEngine } from '../types';
+import { resolveFilterConfig } from './filterPresets';
+import { interpretMetrics } from './clinicalRules';
+import { recordNetworkRequest } from './networkMonitor';
+import {
+  analyzePeaks,
+  processECGMultilead,
+  preprocessECG,
+  type ArrhythmiaMetrics,
+  type HrvMetrics,
+  type QrsMetrics,
+  type QtMetrics
+} from './ecgAnalysis';
+import { RequestQueue, type RequestOptions } from './requestQueue';
+import type { PipelineConfig } from './pyodidePipeline';
+
+/** Payloads of the processing requests posted to the Pyodide and DSP workers, by message type. */
+export interface WorkerRequestData {
+  PROCESS_ECG: { leads: { name: string; voltages: Float32Array }[]; config: PipelineConfig };
+  PREPROCESS_ONLY: { rawVoltages: Float32Array; config: PipelineConfig };
+  ANALYZE_PEAKS: { cleanedSignal: Float32Array; peaks: Int32Array; filterMetrics: Record<string, unknown>; config: PipelineConfig };
+}
+
+type WorkerRequestType = keyof WorkerRequestData;
+
+/** A processing request as posted to a worker, without its request id. */
+export type WorkerRequest = { [K in WorkerRequestType]: { type: K; data: WorkerRequestData[K] } }[WorkerRequestType];
 
 type WorkerStatus = 'uninitialized' | 'initializing' | 'ready' | 'processing' | 'error';
 
-interface ProcessingProgress {
+export interface ProcessingProgress {
   stage: 'loading_runtime' | 'loading_packages' | 'initializing_code' | 'processing';
   progress: number;
   message?: string;
 }
 
-interface ProcessingCallbacks {
+export interface ProcessingCallbacks {
   onProgress?: (progress: ProcessingProgress) => void;
   onComplete?: (result: ProcessingResult) => void;
   onError?: (error: string) => void;
 }
 
-interface ProcessingResult {
-  data: ECGPoint[];
+export interface ProcessingResult {
+  signal: ECGSignal;
   metrics: PatientMetrics;
+  analysisLead: string;
+  leadNames: string[];
+  fused: boolean;
   rawMetrics: {
     filter_metrics: any;
     detection_metrics: any;
-    arrhythmia_metrics: any;
-    qrs_metrics: any;
-    qt_metrics: any;
-    hrv_metrics: any;
+    arrhythmia_metrics: ArrhythmiaMetrics;
+    qrs_metrics: QrsMetrics;
+    qt_metrics: QtMetrics;
+    hrv_metrics: HrvMetrics;
   };
 }
 
+/** Metrics recomputed from user-edited R-peaks. */
+export interface PeakAnalysisResult {
+  /** Corrected R-peaks, sorted and de-duplicated. */
+  peaks: Int32Array;
+  metrics: PatientMetrics;
+  rawMetrics: ProcessingResult['rawMetrics'];
+}
+
+/** Loads a Pyodide runtime on the calling thread, for hosts without Web Workers. */
+export type PyodideRuntimeLoader = () => Promise<any>;
+
+/** State of one pooled worker as shown in the UI. */
+export type PoolWorkerState = 'uninitialized' | 'initializing' | 'idle' | 'busy' | 'error';
+
+export interface PoolWorkerStatus {
+  id: number;
+  state: PoolWorkerState;
+}
+
+/**
+ * Common surface of the processing engines; callers pick one with `getECGProcessor(engine)`.
+ * Requests are dispatched in arrival order to idle pool workers; `options.signal` cancels and
+ * `options.timeoutMs` bounds a request.
+ */
+export interface ECGProcessor {
+  readonly engine: ProcessingEngine;
+  initialize(onProgress?: (progress: ProcessingProgress) => void): Promise<void>;
+  processECG(
+    input: number[] | Float32Array | ECGLead[],
+    config?: ProcessingConfig,
+    callbacks?: ProcessingCallbacks,
+    options?: RequestOptions
+  ): Promise<ProcessingResult>;
+  preprocessOnly(
+    rawVoltages: number[] | Float32Array,
+    config?: ProcessingConfig,
+    options?: RequestOptions
+  ): Promise<{ cleaned_signal: Float32Array; metrics: any }>;
+  /**
+   * Recompute rhythm, HRV, QRS and QT metrics for user-supplied R-peaks on an analysed signal.
+   * `filterMetrics` are the analysis lead's preprocessing metrics from the original result.
+   */
+  analyzePeaks(
+    signal: ECGSignal,
+    peaks: Int32Array,
+    filterMetrics: any,
+    config?: ProcessingConfig,
+    options?: RequestOptions
+  ): Promise<PeakAnalysisResult>;
+  getStatus(): WorkerStatus;
+  getPoolStatus(): PoolWorkerStatus[];
+  /** Subscribe to pool status changes; returns the unsubscribe function. */
+  onPoolStatusChange(listener: (status: PoolWorkerStatus[]) => void): () => void;
+  isReady(): boolean;
+  shutdown(): void;
+}
+
+// Each Pyodide worker holds its own NumPy/SciPy heap, so the pool stays small
+const MAX_POOL_SIZE = 4;
+
 /**
- * Manages ECG processing pipeline in Web Worker environment.
+ * Pool size from the number of logical cores, leaving one for the UI thread.
  */
-export class ECGProcessor {
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+/**
+ * Combine per-worker states into the processor status.
+ */
+function aggregateStatus(pool: PoolWorkerStatus[]): WorkerStatus {
+  const states = pool.map(worker => worker.state);
+  if (states.includes('busy')) return 'processing';
+  if (states.includes('idle')) return 'ready';
+  if (states.includes('initializing')) return 'initializing';
+  if (states.includes('error')) return 'error';
+  return 'uninitialized';
+}
+
+/**
+ * One Pyodide worker of the pool: its runtime lifecycle and in-flight requests.
+ * With `loadRuntime` the runtime lives on the calling thread instead of a Web Worker.
+ */
+class PyodideWorkerSlot {
+  // Whether a request is running is tracked by the pool's queue
+  status: Exclude<WorkerStatus, 'processing'> = 'uninitialized';
   private worker: Worker | null = null;
-  private status: WorkerStatus = 'uninitialized';
+  private runtime: any = null;
+  // Loaded with the in-process runtime only, so pages do not carry the Python source twice
+  private pipeline: typeof import('./pyodidePipeline') | null = null;
   private pendingRequests: Map<string, ProcessingCallbacks> = new Map();
   private initializationPromise: Promise<void> | null = null;
 
-  constructor() {
-    console.log('[ECGProcessor] Initializing...');
+  constructor(readonly id: number, private onStatusChange: () => void, private loadRuntime?: PyodideRuntimeLoader) {}
+
+  private setStatus(status: PyodideWorkerSlot['status']): void {
+    this.status = status;
+    this.onStatusChange();
   }
 
   /**
@@ -53,38 +173,47 @@ export class ECGProcessor {
     }
 
     if (this.status === 'ready') {
-      console.log('[ECGProcessor] Already initialized');
       return Promise.resolve();
     }
 
+    if (this.loadRuntime) {
+      this.initializationPromise = this.initializeInline(this.loadRuntime, onProgress);
+      return this.initializationPromise;
+    }
+
     this.initializationPromise = new Promise((resolve, reject) => {
       try {
-        this.status = 'initializing';
+        this.setStatus('initializing');
 
-        this.worker = new Worker(
+        const worker = new Worker(
           new URL('./ecgWorker.ts', import.meta.url),
           { type: 'module' }
         );
+        this.worker = worker;
 
-        this.worker.addEventListener('message', (e) => {
+        worker.addEventListener('message', (e) => {
           this.handleWorkerMessage(e, onProgress);
         });
 
-        this.worker.addEventListener('error', (e) => {
-          console.error('[ECGProcessor] Worker error:', e);
-          this.status = 'error';
+        // A crashed worker is dropped like a recycled one; the next request starts a fresh one
+        worker.addEventListener('error', (e) => {
+          if (this.worker !== worker) return;
+          console.error(`[ECGProcessor] Worker ${this.id} error:`, e);
+          this.terminate(`Worker error: ${e.message}`);
+          this.setStatus('error');
           reject(new Error(`Worker error: ${e.message}`));
         });
 
         this.pendingRequests.set('__init__', {
           onProgress,
           onComplete: () => {
-            this.status = 'ready';
-            console.log('[ECGProcessor] Ready to process ECG data');
+            this.setStatus('ready');
+            console.log(`[ECGProcessor] Worker ${this.id} ready to process ECG data`);
             resolve();
           },
           onError: (error) => {
-            this.status = 'error';
+            this.setStatus('error');
+            this.initializationPromise = null;
             reject(new Error(error));
           }
         });
@@ -92,7 +221,8 @@ export class ECGProcessor {
         this.worker.postMessage({ type: 'INIT_PYODIDE' });
 
       } catch (error) {
-        this.status = 'error';
+        this.setStatus('error');
+        this.initializationPromise = null;
         reject(error);
       }
     });
@@ -100,6 +230,27 @@ export class ECGProcessor {
     return this.initializationPromise;
   }
 
+  /**
+   * Load the runtime and ECG modules on the calling thread.
+   */
+  private async initializeInline(loadRuntime: PyodideRuntimeLoader, onProgress?: (progress: ProcessingProgress) => void): Promise<void> {
+    this.setStatus('initializing');
+    try {
+      onProgress?.({ stage: 'loading_runtime', progress: 0 });
+      const pipeline = await import('./pyodidePipeline');
+      const runtime = await loadRuntime();
+      await pipeline.loadECGModules(runtime, onProgress);
+      this.pipeline = pipeline;
+      this.runtime = runtime;
+      this.setStatus('ready');
+      console.log(`[ECGProcessor] In-process Pyodide runtime ${this.id} ready`);
+    } catch (error) {
+      this.setStatus('error');
+      this.initializationPromise = null;
+      throw error;
+    }
+  }
+
   /**
    * Route incoming Worker messages to appropriate handlers.
    */
@@ -132,13 +283,12 @@ export class ECGProcessor {
       case 'ECG_PROCESSED':
         const processCallbacks = this.pendingRequests.get(requestId || '');
         if (processCallbacks) {
-          const result = this.transformResults(data);
+          const result = transformResults(data);
           if (processCallbacks.onComplete) {
             processCallbacks.onComplete(result);
           }
           this.pendingRequests.delete(requestId || '');
         }
-        this.status = 'ready';
         break;
 
       case 'PREPROCESSING_COMPLETE':
@@ -147,11 +297,28 @@ export class ECGProcessor {
           preprocessCallbacks.onComplete(data);
         }
         this.pendingRequests.delete(requestId || '');
-        this.status = 'ready';
+        break;
+
+      case 'PEAKS_ANALYZED':
+        const peakCallbacks = this.pendingRequests.get(requestId || '');
+        if (peakCallbacks?.onComplete) {
+          peakCallbacks.onComplete(data);
+        }
+        this.pendingRequests.delete(requestId || '');
+        break;
+
+      case 'REQUEST_CANCELLED':
+        // The caller was already rejected by the queue; this only frees the slot
+        this.pendingRequests.get(requestId || '')?.onError?.('Processing cancelled');
+        this.pendingRequests.delete(requestId || '');
+        break;
+
+      case 'NETWORK_REQUEST':
+        recordNetworkRequest(data);
         break;
 
       case 'ERROR':
-        console.error('[ECGProcessor] Worker reported error:', error);
+        console.error(`[ECGProcessor] Worker ${this.id} reported error:`, error);
 
         if (requestId) {
           const errorCallbacks = this.pendingRequests.get(requestId);
@@ -159,15 +326,17 @@ export class ECGProcessor {
             errorCallbacks.onError(error);
           }
           this.pendingRequests.delete(requestId);
+          break;
         }
 
+        // Errors without a request id come from initialization
         const initErrorCallbacks = this.pendingRequests.get('__init__');
         if (initErrorCallbacks?.onError) {
           initErrorCallbacks.onError(error);
           this.pendingRequests.delete('__init__');
         }
 
-        this.status = 'error';
+        this.setStatus('error');
         break;
 
       default:
@@ -176,223 +345,705 @@ export class ECGProcessor {
   }
 
   /**
-   * Transform Python results to application data structures.
+   * Post one request to the worker once it is ready.
    */
-  private transformResults(pythonResults: any): ProcessingResult {
-    const {
-      cleaned_signal,
-      r_peak_indices,
-      filter_metrics,
-      detection_metrics,
-      arrhythmia_metrics,
-      qrs_metrics,
-      qt_metrics,
-      hrv_metrics,
-      clinical_warnings,
-      rhythm_status,
-      sample_rate
-    } = pythonResults;
-
-    // Build ECGPoint array
-    const data: ECGPoint[] = [];
-    const peakSet = new Set(r_peak_indices);
-
-    for (let i = 0; i < cleaned_signal.length; i++) {
-      data.push({
-        time: parseFloat((i / sample_rate).toFixed(3)),
-        voltage: cleaned_signal[i],
-        clean: cleaned_signal[i],
-        isPeak: peakSet.has(i)
+  async send<T>(request: WorkerRequest, transfer: ArrayBuffer[], requestId: string): Promise<T> {
+    // The queue dispatches once the worker is ready; this covers a recycle in between
+    await this.initialize();
+
+    if (this.runtime && this.pipeline) {
+      return this.runInline(this.pipeline, request) as Promise<T>;
+    }
+
+    if (!this.worker) {
+      throw new Error('Worker not available');
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(requestId, {
+        onComplete: (result: any) => resolve(result),
+        onError: (error: string) => reject(new Error(error))
       });
+      this.worker!.postMessage({ ...request, requestId }, transfer);
+    });
+  }
+
+  /**
+   * Run a request on the in-process runtime; the same Python calls the worker makes.
+   */
+  private async runInline(pipeline: typeof import('./pyodidePipeline'), { type, data }: WorkerRequest): Promise<unknown> {
+    switch (type) {
+      case 'PROCESS_ECG':
+        return transformResults(await pipeline.runProcessECG(this.runtime, data.leads, data.config));
+      case 'PREPROCESS_ONLY':
+        return pipeline.runPreprocessOnly(this.runtime, data.rawVoltages, data.config);
+      case 'ANALYZE_PEAKS':
+        return pipeline.runAnalyzePeaks(this.runtime, data.cleanedSignal, data.peaks, data.filterMetrics, data.config);
     }
+  }
 
-    // Format metrics
-    const metrics: PatientMetrics = {
-      bpm: detection_metrics.avg_heart_rate_bpm,
-      rhythmStatus: this.normalizeRhythmStatus(rhythm_status),
-      confidence: this.calculateConfidence(filter_metrics),
-      lastScanDate: new Date().toISOString(),
-      qrsWidth: qrs_metrics?.mean_qrs_ms || undefined,
-      qtcBazett: qt_metrics?.mean_qtc_bazett_ms || undefined,
-      sdnn: hrv_metrics?.sdnn_ms || undefined,
-      rmssd: hrv_metrics?.rmssd_ms || undefined,
-      pnn50: hrv_metrics?.pnn50_percent || undefined,
-      clinicalWarnings: clinical_warnings || []
-    };
+  cancel(requestId: string): void {
+    this.worker?.postMessage({ type: 'CANCEL', requestId });
+  }
 
-    return {
-      data,
-      metrics,
-      rawMetrics: {
-        filter_metrics,
-        detection_metrics,
-        arrhythmia_metrics,
-        qrs_metrics,
-        qt_metrics,
-        hrv_metrics
-      }
-    };
+  /**
+   * Replace a worker stuck in a Python call; its pending requests fail and Pyodide reloads from cache.
+   */
+  async recycle(): Promise<void> {
+    console.warn(`[ECGProcessor] Recycling Pyodide worker ${this.id}...`);
+    this.terminate('Worker recycled');
+    await this.initialize();
   }
 
   /**
-   * Map Python rhythm status to type-safe enum.
+   * Terminate worker and release resources.
    */
-  private normalizeRhythmStatus(
-    status: string
-  ): PatientMetrics['rhythmStatus'] {
-    if (status.includes('Wide-Complex')) return 'Wide-Complex Tachycardia';
-    if (status.includes('Normal Sinus')) return 'Normal Sinus Rhythm';
-    if (status.includes('Bradycardia')) return 'Bradycardia';
-    if (status.includes('Tachycardia')) return 'Tachycardia';
-    if (status.includes('Irregular') || status.includes('Flagged')) return 'Flagged: Irregular Rhythm';
-    return 'Analyzing...';
+  shutdown(): void {
+    if (this.worker) {
+      console.log(`[ECGProcessor] Shutting down worker ${this.id}...`);
+      this.worker.postMessage({ type: 'SHUTDOWN' });
+    }
+    this.terminate('Processor shut down');
+  }
+
+  private terminate(reason: string): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.runtime = null;
+
+    for (const [requestId, callbacks] of this.pendingRequests) {
+      if (requestId !== '__init__') callbacks.onError?.(reason);
+    }
+    this.pendingRequests.clear();
+    this.initializationPromise = null;
+    this.setStatus('uninitialized');
+  }
+}
+
+/**
+ * Manages a pool of Pyodide workers running the ECG processing pipeline.
+ * The first worker downloads the runtime and packages; the others start afterwards and load
+ * them from the browser cache.
+ */
+export class PyodideECGProcessor implements ECGProcessor {
+  readonly engine = 'pyodide';
+  private slots: PyodideWorkerSlot[];
+  private queue: RequestQueue;
+  private listeners = new Set<(status: PoolWorkerStatus[]) => void>();
+  private initializationPromise: Promise<void> | null = null;
+
+  constructor(poolSize = defaultPoolSize(), loadRuntime?: PyodideRuntimeLoader) {
+    // An in-process runtime blocks the calling thread, so there is only one
+    const size = loadRuntime ? 1 : Math.max(1, poolSize);
+    console.log(`[ECGProcessor] Initializing Pyodide engine with ${size} ${loadRuntime ? 'in-process runtime' : 'worker(s)'}...`);
+    this.slots = Array.from({ length: size }, (_, id) => new PyodideWorkerSlot(id, () => this.notify(), loadRuntime));
+    this.queue = new RequestQueue({
+      cancel: (requestId, slot) => this.slots[slot].cancel(requestId),
+      recycle: (slot) => this.slots[slot].recycle(),
+      isReady: (slot) => this.slots[slot].status === 'ready',
+      prepare: (slot) => this.slots[slot].initialize(),
+      onChange: () => this.notify()
+    }, this.slots.length);
   }
 
   /**
-   * Convert SNR to confidence percentage (60-98%).
+   * Initialize the first worker (reporting progress), then start the rest of the pool in the background.
    */
-  private calculateConfidence(filterMetrics: any): number {
-    const { snr_db } = filterMetrics;
+  async initialize(onProgress?: (progress: ProcessingProgress) => void): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = this.slots[0].initialize(onProgress).then(
+        () => {
+          for (const slot of this.slots.slice(1)) {
+            slot.initialize().catch(error => console.warn(`[ECGProcessor] Worker ${slot.id} failed to start:`, error));
+          }
+        },
+        (error) => {
+          this.initializationPromise = null;
+          throw error;
+        }
+      );
+    }
+    return this.initializationPromise;
+  }
 
-    if (snr_db >= 30) return 98;
-    if (snr_db >= 25) return 95;
-    if (snr_db >= 20) return 92;
-    if (snr_db >= 15) return 87;
-    if (snr_db >= 10) return 80;
-    return Math.max(60, Math.min(95, 60 + snr_db * 2));
+  /** Whether any worker has been started; requests wait for it to become ready. */
+  private get started(): boolean {
+    return this.slots.some(slot => slot.status === 'ready' || slot.status === 'initializing');
   }
 
   /**
    * Execute complete ECG processing pipeline.
+   * Accepts a single voltage array or named leads; `config.lead` selects the analysis lead
+   * and `config.leadFusion` fuses R-peak detections across all leads.
+   * `config.filterPreset` / `config.filter` choose the preprocessing filters.
    */
   async processECG(
-    rawVoltages: number[],
+    input: number[] | Float32Array | ECGLead[],
     config: ProcessingConfig = {},
-    callbacks: ProcessingCallbacks = {}
+    callbacks: ProcessingCallbacks = {},
+    options: RequestOptions = {}
   ): Promise<ProcessingResult> {
-    if (this.status !== 'ready') {
+    if (!this.started) {
       throw new Error('ECGProcessor not initialized. Call initialize() first.');
     }
 
-    if (!this.worker) {
-      throw new Error('Worker not available');
-    }
+    const filter = resolveFilterConfig(config);
+    const leads = toNamedLeads(input, config);
+    const data = {
+      leads,
+      config: {
+        sampleRate: config.sampleRate || config.defaultSampleRate || 250,
+        verbose: config.verbose || false,
+        lead: config.lead,
+        leadFusion: config.leadFusion || false,
+        filter
+      }
+    };
 
-    return new Promise((resolve, reject) => {
-      const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    try {
+      const result = applyClinicalRules(await this.queue.run(
+        (requestId, slot) => this.slots[slot].send<ProcessingResult>({ type: 'PROCESS_ECG', data }, leads.map(l => l.voltages.buffer), requestId),
+        options
+      ), config);
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
 
-      this.status = 'processing';
+  /**
+   * Execute preprocessing only (no peak detection).
+   */
+  async preprocessOnly(
+    rawVoltages: number[] | Float32Array,
+    config: ProcessingConfig = {},
+    options: RequestOptions = {}
+  ): Promise<{ cleaned_signal: Float32Array; metrics: any }> {
+    if (!this.started) {
+      throw new Error('ECGProcessor not initialized');
+    }
 
-      this.pendingRequests.set(requestId, {
-        onProgress: callbacks.onProgress,
-        onComplete: (result) => {
-          if (callbacks.onComplete) {
-            callbacks.onComplete(result);
-          }
-          resolve(result);
-        },
-        onError: (error) => {
-          if (callbacks.onError) {
-            callbacks.onError(error);
-          }
-          reject(new Error(error));
-        }
-      });
+    const filter = resolveFilterConfig(config);
+    const voltages = Float32Array.from(rawVoltages);
 
-      this.worker!.postMessage({
-        type: 'PROCESS_ECG',
-        data: {
-          rawVoltages,
-          config: {
-            sampleRate: config.sampleRate || 250,
-            verbose: config.verbose || false
-          }
-        },
-        requestId
-      });
-    });
+    return this.queue.run(
+      (requestId, slot) => this.slots[slot].send({
+        type: 'PREPROCESS_ONLY',
+        data: { rawVoltages: voltages, config: { ...config, sampleRate: config.sampleRate || config.defaultSampleRate, filter } }
+      }, [voltages.buffer], requestId),
+      options
+    );
   }
 
   /**
-   * Execute preprocessing only (no peak detection).
+   * Recompute metrics for user-edited R-peaks.
    */
-  async preprocessOnly(
-    rawVoltages: number[],
-    config: ProcessingConfig = {}
-  ): Promise<{ cleaned_signal: number[]; metrics: any }> {
-    if (this.status !== 'ready') {
+  async analyzePeaks(
+    signal: ECGSignal,
+    peaks: Int32Array,
+    filterMetrics: any,
+    config: ProcessingConfig = {},
+    options: RequestOptions = {}
+  ): Promise<PeakAnalysisResult> {
+    if (!this.started) {
       throw new Error('ECGProcessor not initialized');
     }
 
-    if (!this.worker) {
-      throw new Error('Worker not available');
+    // Copies, so the displayed signal keeps its buffers
+    const data = {
+      cleanedSignal: signal.clean.slice(),
+      peaks: peaks.slice(),
+      filterMetrics,
+      config: { sampleRate: signal.sampleRate, verbose: config.verbose || false }
+    };
+
+    const raw = await this.queue.run(
+      (requestId, slot) => this.slots[slot].send({ type: 'ANALYZE_PEAKS', data }, [data.cleanedSignal.buffer, data.peaks.buffer], requestId),
+      options
+    );
+    return transformPeakResults(raw, config);
+  }
+
+  /**
+   * Get current processor status.
+   */
+  getStatus(): WorkerStatus {
+    return aggregateStatus(this.getPoolStatus());
+  }
+
+  getPoolStatus(): PoolWorkerStatus[] {
+    return this.slots.map(slot => ({
+      id: slot.id,
+      state: slot.status === 'ready' ? (this.queue.isBusy(slot.id) ? 'busy' : 'idle') : slot.status
+    }));
+  }
+
+  onPoolStatusChange(listener: (status: PoolWorkerStatus[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    const status = this.getPoolStatus();
+    for (const listener of this.listeners) listener(status);
+  }
+
+  /**
+   * Check if processor is ready (requests wait for an idle worker).
+   */
+  isReady(): boolean {
+    return this.slots.some(slot => slot.status === 'ready');
+  }
+
+  /**
+   * Terminate workers and release resources.
+   */
+  shutdown(): void {
+    this.queue.clear(new Error('Processor shut down'));
+    for (const slot of this.slots) slot.shutdown();
+    this.initializationPromise = null;
+  }
+}
+
+/**
+ * Runs the TypeScript port of the pipeline in a pool of Web Workers, or inline where workers
+ * are unavailable (Node).
+ */
+export class TypeScriptECGProcessor implements ECGProcessor {
+  readonly engine = 'typescript';
+  private workers: (Worker | null)[] = [];
+  private status: WorkerStatus = 'uninitialized';
+  private pendingRequests: Map<string, { slot: number; resolve: (data: any) => void; reject: (error: Error) => void }> = new Map();
+  private queue: RequestQueue;
+  private listeners = new Set<(status: PoolWorkerStatus[]) => void>();
+  private poolSize: number;
+
+  constructor(poolSize = defaultPoolSize()) {
+    // Inline processing runs on the calling thread, so there is only one slot
+    this.poolSize = typeof Worker !== 'undefined' ? Math.max(1, poolSize) : 1;
+    console.log(`[ECGProcessor] Initializing TypeScript engine with ${this.poolSize} worker(s)...`);
+    this.queue = new RequestQueue({
+      cancel: (requestId, slot) => this.workers[slot]?.postMessage({ type: 'CANCEL', requestId }),
+      recycle: async (slot) => {
+        console.warn(`[ECGProcessor] Recycling DSP worker ${slot}...`);
+        this.restartWorker(slot, 'Worker recycled');
+      },
+      onChange: () => this.notify()
+    }, this.poolSize);
+  }
+
+  /**
+   * Start the DSP workers. There is no runtime to download, so this completes immediately.
+   */
+  async initialize(onProgress?: (progress: ProcessingProgress) => void): Promise<void> {
+    if (this.status === 'ready') {
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      const requestId = `preprocess_${Date.now()}`;
+    if (typeof Worker !== 'undefined') {
+      this.workers = Array.from({ length: this.poolSize }, (_, slot) => this.createWorker(slot));
+    }
 
-      this.pendingRequests.set(requestId, {
-        onComplete: (result: any) => resolve(result),
-        onError: (error: string) => reject(new Error(error))
-      });
+    this.status = 'ready';
+    this.notify();
+    onProgress?.({ stage: 'initializing_code', progress: 100 });
+    console.log('[ECGProcessor] TypeScript engine ready');
+  }
 
-      this.worker!.postMessage({
-        type: 'PREPROCESS_ONLY',
-        data: { rawVoltages, config },
-        requestId
-      });
+  private createWorker(slot: number): Worker {
+    const worker = new Worker(
+      new URL('./dspWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    worker.addEventListener('message', (e) => {
+      const { type, data, requestId, error } = e.data;
+      if (type === 'NETWORK_REQUEST') {
+        recordNetworkRequest(data);
+        return;
+      }
+      const pending = this.pendingRequests.get(requestId || '');
+      if (!pending) return;
+
+      this.pendingRequests.delete(requestId);
+      if (type === 'ERROR') {
+        pending.reject(new Error(error));
+      } else if (type === 'REQUEST_CANCELLED') {
+        pending.reject(new Error('Processing cancelled'));
+      } else {
+        pending.resolve(data);
+      }
     });
+
+    worker.addEventListener('error', (e) => {
+      if (this.workers[slot] !== worker) return;
+      console.error(`[ECGProcessor] DSP worker ${slot} error:`, e);
+      this.restartWorker(slot, `Worker error: ${e.message}`);
+    });
+
+    return worker;
+  }
+
+  private restartWorker(slot: number, reason: string): void {
+    this.workers[slot]?.terminate();
+    this.rejectPending(reason, slot);
+    this.workers[slot] = this.createWorker(slot);
   }
 
   /**
-   * Get current processor status.
+   * Send a request to a DSP worker, or run it inline when there is no worker.
    */
-  getStatus(): WorkerStatus {
-    return this.status;
+  private send(
+    request: WorkerRequest,
+    transfer: ArrayBuffer[],
+    inline: () => any,
+    requestId: string,
+    slot: number
+  ): Promise<any> {
+    const worker = this.workers[slot];
+    if (!worker) {
+      try {
+        return Promise.resolve(inline());
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(requestId, { slot, resolve, reject });
+      worker.postMessage({ ...request, requestId }, transfer);
+    });
+  }
+
+  private rejectPending(message: string, slot?: number): void {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (slot !== undefined && pending.slot !== slot) continue;
+      pending.reject(new Error(message));
+      this.pendingRequests.delete(requestId);
+    }
+  }
+
+  /**
+   * Execute complete ECG processing pipeline; accepts the same input and config as the Pyodide engine.
+   */
+  async processECG(
+    input: number[] | Float32Array | ECGLead[],
+    config: ProcessingConfig = {},
+    callbacks: ProcessingCallbacks = {},
+    options: RequestOptions = {}
+  ): Promise<ProcessingResult> {
+    if (this.status !== 'ready') {
+      throw new Error('ECGProcessor not initialized. Call initialize() first.');
+    }
+
+    const leads = toNamedLeads(input, config);
+    const workerConfig = {
+      sampleRate: config.sampleRate || config.defaultSampleRate || 250,
+      verbose: config.verbose || false,
+      lead: config.lead,
+      leadFusion: config.leadFusion || false,
+      filter: resolveFilterConfig(config)
+    };
+
+    try {
+      const transfer = leads.map(l => l.voltages.buffer);
+      const raw = await this.queue.run((requestId, slot) => this.send({ type: 'PROCESS_ECG', data: { leads, config: workerConfig } }, transfer, () => processECGMultilead(
+        leads.map(l => l.voltages),
+        leads.map(l => l.name),
+        workerConfig.sampleRate,
+        workerConfig.lead,
+        workerConfig.leadFusion,
+        workerConfig.verbose,
+        workerConfig.filter
+      ), requestId, slot), options);
+
+      const result = applyClinicalRules(transformResults(raw), config);
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      callbacks.onError?.(message);
+      throw error;
+    }
   }
 
   /**
-   * Check if processor is ready.
+   * Execute preprocessing only (no peak detection).
    */
+  async preprocessOnly(
+    rawVoltages: number[] | Float32Array,
+    config: ProcessingConfig = {},
+    options: RequestOptions = {}
+  ): Promise<{ cleaned_signal: Float32Array; metrics: any }> {
+    if (this.status !== 'ready') {
+      throw new Error('ECGProcessor not initialized');
+    }
+
+    const sampleRate = config.sampleRate || config.defaultSampleRate || 250;
+    const filter = resolveFilterConfig(config);
+    const voltages = Float32Array.from(rawVoltages);
+
+    return this.queue.run((requestId, slot) => this.send({ type: 'PREPROCESS_ONLY', data: { rawVoltages: voltages, config: { sampleRate, filter } } }, [voltages.buffer], () => {
+      const { cleaned, filterMetrics } = preprocessECG(voltages, sampleRate, false, filter);
+      return { cleaned_signal: Float32Array.from(cleaned), metrics: filterMetrics };
+    }, requestId, slot), options);
+  }
+
+  /**
+   * Recompute metrics for user-edited R-peaks.
+   */
+  async analyzePeaks(
+    signal: ECGSignal,
+    peaks: Int32Array,
+    filterMetrics: any,
+    config: ProcessingConfig = {},
+    options: RequestOptions = {}
+  ): Promise<PeakAnalysisResult> {
+    if (this.status !== 'ready') {
+      throw new Error('ECGProcessor not initialized');
+    }
+
+    const data = {
+      cleanedSignal: signal.clean.slice(),
+      peaks: peaks.slice(),
+      filterMetrics,
+      config: { sampleRate: signal.sampleRate, verbose: config.verbose || false }
+    };
+
+    const raw = await this.queue.run((requestId, slot) => this.send({ type: 'ANALYZE_PEAKS', data }, [data.cleanedSignal.buffer, data.peaks.buffer], () => {
+      const { cleaned_signal, ...results } = analyzePeaks(data.cleanedSignal, data.peaks, filterMetrics, signal.sampleRate, data.config.verbose);
+      return results;
+    }, requestId, slot), options);
+    return transformPeakResults(raw, config);
+  }
+
+  getStatus(): WorkerStatus {
+    return aggregateStatus(this.getPoolStatus());
+  }
+
+  getPoolStatus(): PoolWorkerStatus[] {
+    return Array.from({ length: this.poolSize }, (_, id) => ({
+      id,
+      state: this.status !== 'ready' ? 'uninitialized' : this.queue.isBusy(id) ? 'busy' : 'idle'
+    }));
+  }
+
+  onPoolStatusChange(listener: (status: PoolWorkerStatus[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    const status = this.getPoolStatus();
+    for (const listener of this.listeners) listener(status);
+  }
+
   isReady(): boolean {
     return this.status === 'ready';
   }
 
   /**
-   * Terminate worker and release resources.
+   * Terminate workers and release resources.
    */
   shutdown(): void {
-    if (this.worker) {
-      console.log('[ECGProcessor] Shutting down worker...');
-      this.worker.postMessage({ type: 'SHUTDOWN' });
-      this.worker.terminate();
-      this.worker = null;
+    if (this.workers.length > 0) {
+      console.log('[ECGProcessor] Shutting down DSP workers...');
+      for (const worker of this.workers) worker?.terminate();
+      this.workers = [];
     }
 
+    this.queue.clear(new Error('Processor shut down'));
+    this.rejectPending('Processor shut down');
     this.status = 'uninitialized';
-    this.pendingRequests.clear();
-    this.initializationPromise = null;
+    this.notify();
   }
 }
 
-let processorInstance: ECGProcessor | null = null;
+function isLeadArray(input: number[] | Float32Array | ECGLead[]): input is ECGLead[] {
+  return input.length > 0 && typeof input[0] === 'object';
+}
+
+/**
+ * Normalize processing input to named leads; a bare voltage array becomes one lead named after `config.lead`.
+ * Voltages are copied so their buffers can be transferred to the worker without detaching the caller's arrays.
+ */
+function toNamedLeads(
+  input: number[] | Float32Array | ECGLead[],
+  config: ProcessingConfig
+): { name: string; voltages: Float32Array }[] {
+  return isLeadArray(input)
+    ? input.map(({ name, voltages }) => ({ name, voltages: Float32Array.from(voltages) }))
+    : [{ name: config.lead || 'ECG', voltages: Float32Array.from(input) }];
+}
+
+/**
+ * Transform pipeline results (either engine) to application data structures.
+ */
+function transformResults(pythonResults: any): ProcessingResult {
+  const {
+    cleaned_signal,
+    r_peak_indices,
+    filter_metrics,
+    detection_metrics,
+    arrhythmia_metrics,
+    qrs_metrics,
+    qt_metrics,
+    hrv_metrics,
+    sample_rate,
+    analysis_lead,
+    fused,
+    cleaned_leads
+  } = pythonResults;
+
+  // Keep the transferred buffers as they are; chart rows are built later for the visible window only
+  const leads: Record<string, Float32Array> = cleaned_leads || { [analysis_lead || 'ECG']: cleaned_signal };
+  const leadNames = Object.keys(leads);
+  const clean: Float32Array = leads[analysis_lead] ?? cleaned_signal;
+  const signal: ECGSignal = {
+    sampleRate: sample_rate,
+    length: clean.length,
+    clean,
+    leads,
+    peaks: r_peak_indices
+  };
+
+  return {
+    signal,
+    metrics: toPatientMetrics(pythonResults),
+    analysisLead: analysis_lead,
+    leadNames,
+    fused: !!fused,
+    rawMetrics: {
+      filter_metrics,
+      detection_metrics,
+      arrhythmia_metrics,
+      qrs_metrics,
+      qt_metrics,
+      hrv_metrics
+    }
+  };
+}
+
+/**
+ * Format pipeline metric dictionaries (either engine) as `PatientMetrics`.
+ */
+function toPatientMetrics(pythonResults: any): PatientMetrics {
+  const { filter_metrics, detection_metrics, qrs_metrics, qt_metrics, hrv_metrics, clinical_warnings, rhythm_status } = pythonResults;
+  return {
+    bpm: detection_metrics.avg_heart_rate_bpm,
+    rhythmStatus: normalizeRhythmStatus(rhythm_status),
+    confidence: calculateConfidence(filter_metrics),
+    lastScanDate: new Date().toISOString(),
+    qrsWidth: qrs_metrics?.mean_qrs_ms || undefined,
+    qtcBazett: qt_metrics?.mean_qtc_bazett_ms || undefined,
+    sdnn: hrv_metrics?.sdnn_ms || undefined,
+    rmssd: hrv_metrics?.rmssd_ms || undefined,
+    pnn50: hrv_metrics?.pnn50_percent || undefined,
+    clinicalWarnings: clinical_warnings || []
+  };
+}
+
+/**
+ * Transform a beat analysis of edited R-peaks (either engine), applying the clinical rules.
+ */
+function transformPeakResults(pythonResults: any, config: ProcessingConfig): PeakAnalysisResult {
+  const { r_peak_indices, filter_metrics, detection_metrics, arrhythmia_metrics, qrs_metrics, qt_metrics, hrv_metrics } = pythonResults;
+  const rawMetrics = { filter_metrics, detection_metrics, arrhythmia_metrics, qrs_metrics, qt_metrics, hrv_metrics };
+  return {
+    peaks: r_peak_indices,
+    metrics: { ...interpretMetrics(toPatientMetrics(pythonResults), rawMetrics, config), manuallyOverRead: true },
+    rawMetrics
+  };
+}
+
+/**
+ * Apply the configured QTc formula and alert thresholds to an engine result.
+ */
+function applyClinicalRules(result: ProcessingResult, config: ProcessingConfig): ProcessingResult {
+  return { ...result, metrics: interpretMetrics(result.metrics, result.rawMetrics, config) };
+}
+
+/**
+ * Map pipeline rhythm status to type-safe enum.
+ */
+function normalizeRhythmStatus(
+  status: string
+): PatientMetrics['rhythmStatus'] {
+  if (status.includes('Wide-Complex')) return 'Wide-Complex Tachycardia';
+  if (status.includes('Normal Sinus')) return 'Normal Sinus Rhythm';
+  if (status.includes('Bradycardia')) return 'Bradycardia';
+  if (status.includes('Tachycardia')) return 'Tachycardia';
+  if (status.includes('Irregular') || status.includes('Flagged')) return 'Flagged: Irregular Rhythm';
+  return 'Analyzing...';
+}
+
+/**
+ * Convert SNR to confidence percentage (60-98%).
+ */
+function calculateConfidence(filterMetrics: any): number {
+  const { snr_db } = filterMetrics;
+
+  if (snr_db >= 30) return 98;
+  if (snr_db >= 25) return 95;
+  if (snr_db >= 20) return 92;
+  if (snr_db >= 15) return 87;
+  if (snr_db >= 10) return 80;
+  return Math.max(60, Math.min(95, 60 + snr_db * 2));
+}
+
+const processorInstances = new Map<ProcessingEngine, ECGProcessor>();
+let configuredPoolSize: number | null = null;
+let pyodideRuntimeLoader: PyodideRuntimeLoader | undefined;
 
 /**
- * Get or create singleton ECGProcessor instance.
+ * Get or create the singleton processor for an engine.
  */
-export function getECGProcessor(): ECGProcessor {
-  if (!processorInstance) {
-    processorInstance = new ECGProcessor();
+export function getECGProcessor(engine: ProcessingEngine = 'pyodide'): ECGProcessor {
+  let processor = processorInstances.get(engine);
+  if (!processor) {
+    const poolSize = configuredPoolSize ?? defaultPoolSize();
+    processor = engine === 'typescript' ? new TypeScriptECGProcessor(poolSize) : new PyodideECGProcessor(poolSize, pyodideRuntimeLoader);
+    processorInstances.set(engine, processor);
   }
-  return processorInstance;
+  return processor;
+}
+
+/**
+ * Run the Pyodide engine on the calling thread with runtimes from `loadRuntime`, for hosts
+ * without Web Workers such as the Node CLI. A running Pyodide processor is shut down.
+ */
+export function setPyodideRuntimeLoader(loadRuntime: PyodideRuntimeLoader): void {
+  pyodideRuntimeLoader = loadRuntime;
+  shutdownECGProcessor('pyodide');
 }
 
 /**
- * Cleanup singleton instance.
+ * Set the number of workers per engine (`null` sizes the pool from the core count).
+ * Running processors are shut down and recreated with the new size on next use.
  */
-export function shutdownECGProcessor(): void {
-  if (processorInstance) {
-    processorInstance.shutdown();
-    processorInstance = null;
+export function setWorkerPoolSize(size: number | null): void {
+  const next = size === null ? null : Math.max(1, Math.round(size));
+  if (next === configuredPoolSize) return;
+  configuredPoolSize = next;
+  shutdownECGProcessor();
+}
+
+/**
+ * Workers per engine for processors created from now on.
+ */
+export function getWorkerPoolSize(): number {
+  return configuredPoolSize ?? defaultPoolSize();
+}
+
+/**
+ * Cleanup singleton instances (all engines unless one is given).
+ */
+export function shutdownECGProcessor(engine?: ProcessingEngine): void {
+  for (const [key, processor] of processorInstances) {
+    if (engine && key !== engine) continue;
+    processor.shutdown();
+    processorInstances.delete(key);
   }
-}
\ No newline at end of file
+}
@@ -2,12 +2,23 @@
  * High-level ECG processing service coordinating file parsing and analysis.
  */
 
-import { getECGProcessor } from './ecgProcessor';
-import { parseECGFile, validateECGData, type ParsedECGData } from './dataParser';
-import type { ECGPoint, PatientMetrics, ProcessingConfig } from '../types';
+import { getECGProcessor, shutdownECGProcessor, type PeakAnalysisResult, type PoolWorkerStatus } from './ecgProcessor';
+import { resolveFilterConfig } from './filterPresets';
+import { abortError, isAbortError } from './requestQueue';
+import { recordNetworkRequest } from './networkMonitor';
+import {
+  detectFileFormat,
+  parseECGFile,
+  validateECGData,
+  type AmplitudeCalibration,
+  type CSVImportMapping,
+  type ParsedECGData,
+  type ParseProgressCallback
+} from './dataParser';
+import type { ECGSignal, FilterConfig, FilterPresetName, PatientMetrics, ProcessingConfig, ProcessingEngine } from '../types';
 
 export interface ECGServiceResult {
-  data: ECGPoint[];
+  signal: ECGSignal;
   metrics: PatientMetrics;
   rawMetrics: {
     filter_metrics: any;
@@ -21,6 +32,15 @@ export interface ECGServiceResult {
     sampleRate: number;
     duration: number;
     warnings: string[];
+    calibration: AmplitudeCalibration;
+    leads: string[];
+    analysisLead: string;
+    leadFusion: boolean;
+    filterPreset?: FilterPresetName;
+    filter: FilterConfig;
+    engine: ProcessingEngine;
+    /** Record and patient attributes read from the file header, where the format has them. */
+    metadata: NonNullable<ParsedECGData['metadata']>;
   };
 }
 
@@ -33,12 +53,13 @@ export interface ProcessingCallbacks {
 }
 
 /**
- * Initialize Pyodide runtime and ECG processing modules.
+ * Initialize a processing engine (the Pyodide runtime and ECG modules by default).
  */
 export async function initializeECGSystem(
-  onProgress?: (stage: string, progress: number) => void
+  onProgress?: (stage: string, progress: number) => void,
+  engine: ProcessingEngine = 'pyodide'
 ): Promise<void> {
-  const processor = getECGProcessor();
+  const processor = getECGProcessor(engine);
   
   await processor.initialize((progress) => {
     if (onProgress) {
@@ -62,20 +83,119 @@ export async function initializeECGSystem(
 /**
  * Check processor readiness status.
  */
-export function isECGSystemReady(): boolean {
-  const processor = getECGProcessor();
+export function isECGSystemReady(engine: ProcessingEngine = 'pyodide'): boolean {
+  const processor = getECGProcessor(engine);
   return processor.isReady();
 }
 
+/**
+ * Per-worker status of an engine's processing pool.
+ */
+export function getWorkerPoolStatus(engine: ProcessingEngine = 'pyodide'): PoolWorkerStatus[] {
+  return getECGProcessor(engine).getPoolStatus();
+}
+
+/**
+ * Subscribe to pool status changes of an engine; returns the unsubscribe function.
+ */
+export function subscribeWorkerPoolStatus(
+  engine: ProcessingEngine,
+  listener: (status: PoolWorkerStatus[]) => void
+): () => void {
+  return getECGProcessor(engine).onPoolStatusChange(listener);
+}
+
+/**
+ * Parse a file in a dedicated worker so large recordings do not block the UI.
+ * XML formats need DOMParser, which workers lack, so they are parsed on the main thread.
+ * Aborting `signal` terminates the parser worker.
+ */
+async function parseFileOffMainThread(
+  file: File,
+  companionFiles: File[],
+  onProgress?: ParseProgressCallback,
+  csvMapping?: CSVImportMapping,
+  defaultSampleRate?: number,
+  signal?: AbortSignal
+): Promise<ParsedECGData> {
+  if (typeof Worker === 'undefined' || (await detectFileFormat(file)) === 'xml') {
+    return parseECGFile(file, companionFiles, onProgress, csvMapping, defaultSampleRate);
+  }
+
+  const worker = new Worker(
+    new URL('./parserWorker.ts', import.meta.url),
+    { type: 'module' }
+  );
+
+  let onAbort: (() => void) | undefined;
+  try {
+    return await new Promise<ParsedECGData>((resolve, reject) => {
+      onAbort = () => reject(abortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.onmessage = (e: MessageEvent) => {
+        const { type, data, error } = e.data;
+        switch (type) {
+          case 'PARSE_PROGRESS':
+            onProgress?.(data.loaded, data.total);
+            break;
+          case 'PARSE_COMPLETE':
+            resolve(data);
+            break;
+          case 'NETWORK_REQUEST':
+            recordNetworkRequest(data);
+            break;
+          case 'ERROR':
+            reject(new Error(error));
+            break;
+        }
+      };
+
+      worker.onerror = (error) => {
+        reject(new Error(`Parser worker error: ${error.message}`));
+      };
+
+      worker.postMessage({
+        type: 'PARSE_FILE',
+        data: { file, companionFiles, csvMapping, defaultSampleRate },
+        requestId: `parse_${Date.now()}`
+      });
+    });
+  } finally {
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  }
+}
+
+/**
+ * Format a byte count as megabytes for progress messages.
+ */
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Execute complete ECG processing pipeline from file to metrics.
+ * `config.lead` / `config.leadFusion` choose the analysis lead for multi-lead recordings,
+ * `config.filterPreset` / `config.filter` the preprocessing filters;
+ * `config.defaultSampleRate`, `mainsFrequency`, `qtcFormula` and `alertThresholds` carry user settings;
+ * `csvMapping` is the column layout confirmed in the CSV import wizard.
+ * Aborting `signal` cancels parsing or processing and rejects with an `AbortError`.
  */
 export async function processECGFile(
   file: File,
-  callbacks: ProcessingCallbacks = {}
+  callbacks: ProcessingCallbacks = {},
+  companionFiles: File[] = [],
+  analysisConfig: ProcessingConfig = {},
+  csvMapping?: CSVImportMapping,
+  signal?: AbortSignal
 ): Promise<ECGServiceResult> {
   
   try {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
     // Parse file
     if (callbacks.onProgress) {
       callbacks.onProgress('Parsing file...', 10);
@@ -84,8 +204,17 @@ export async function processECGFile(
       callbacks.onParsing();
     }
 
-    const parsedData = await parseECGFile(file);
+    const parsedData = await parseFileOffMainThread(file, companionFiles, (loaded, total) => {
+      if (callbacks.onProgress) {
+        const fraction = total > 0 ? loaded / total : 1;
+        callbacks.onProgress('Parsing file...', Math.round(10 + fraction * 15), `Reading ${formatMB(loaded)} of ${formatMB(total)}`);
+      }
+    }, csvMapping, analysisConfig.defaultSampleRate, signal);
     
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
     if (callbacks.onProgress) {
       callbacks.onProgress('File parsed', 25);
     }
@@ -102,7 +231,8 @@ export async function processECGFile(
     }
 
     // Ensure processor ready
-    const processor = getECGProcessor();
+    const engine = analysisConfig.engine || 'pyodide';
+    const processor = getECGProcessor(engine);
     if (!processor.isReady()) {
       if (callbacks.onProgress) {
         callbacks.onProgress('Initializing processor...', 30);
@@ -120,11 +250,18 @@ export async function processECGFile(
 
     const config: ProcessingConfig = {
       sampleRate: parsedData.sampleRate,
-      verbose: true
+      verbose: analysisConfig.verbose ?? true,
+      lead: analysisConfig.lead || parsedData.metadata?.lead || parsedData.leads[0]?.name,
+      leadFusion: analysisConfig.leadFusion || false,
+      filterPreset: analysisConfig.filterPreset,
+      filter: analysisConfig.filter,
+      mainsFrequency: analysisConfig.mainsFrequency,
+      qtcFormula: analysisConfig.qtcFormula,
+      alertThresholds: analysisConfig.alertThresholds
     };
 
     const result = await processor.processECG(
-      parsedData.voltages,
+      parsedData.leads,
       config,
       {
         onProgress: (progress) => {
@@ -133,7 +270,8 @@ export async function processECGFile(
             callbacks.onProgress('Processing...', mappedProgress, progress.message);
           }
         }
-      }
+      },
+      { signal }
     );
 
     if (callbacks.onProgress) {
@@ -142,7 +280,7 @@ export async function processECGFile(
 
     // Format result
     const serviceResult: ECGServiceResult = {
-      data: result.data,
+      signal: result.signal,
       metrics: result.metrics,
       rawMetrics: result.rawMetrics,
       fileInfo: {
@@ -151,7 +289,15 @@ export async function processECGFile(
         format: parsedData.format,
         sampleRate: parsedData.sampleRate,
         duration: parsedData.duration,
-        warnings: validation.warnings
+        warnings: validation.warnings,
+        calibration: parsedData.calibration,
+        leads: parsedData.leads.map(l => l.name),
+        analysisLead: result.analysisLead,
+        leadFusion: result.fused,
+        filterPreset: config.filterPreset,
+        filter: resolveFilterConfig(config),
+        engine,
+        metadata: parsedData.metadata || {}
       }
     };
 
@@ -160,7 +306,7 @@ export async function processECGFile(
     }
 
     console.log('[ECG Service] Processing complete:', {
-      peaks: result.data.filter(p => p.isPeak).length,
+      peaks: result.signal.peaks.length,
       bpm: result.metrics.bpm,
       rhythm: result.metrics.rhythmStatus,
       quality: result.metrics.confidence
@@ -169,6 +315,11 @@ export async function processECGFile(
     return serviceResult;
 
   } catch (error) {
+    if (isAbortError(error)) {
+      console.log('[ECG Service] Processing cancelled:', file.name);
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('[ECG Service] Processing failed:', errorMessage);
     
@@ -180,11 +331,36 @@ export async function processECGFile(
   }
 }
 
+/**
+ * Recompute the metrics of an analysed recording for R-peaks edited by hand.
+ * `filterMetrics` come from the original result's `rawMetrics`; `analysisConfig` carries the
+ * engine, QTc formula and alert thresholds. Aborting `signal` rejects with an `AbortError`.
+ */
+export async function analyzeEditedPeaks(
+  ecgSignal: ECGSignal,
+  peaks: Int32Array,
+  filterMetrics: any,
+  analysisConfig: ProcessingConfig = {},
+  signal?: AbortSignal
+): Promise<PeakAnalysisResult> {
+  const processor = getECGProcessor(analysisConfig.engine || 'pyodide');
+  if (!processor.isReady()) {
+    await processor.initialize();
+  }
+
+  const result = await processor.analyzePeaks(ecgSignal, peaks, filterMetrics, analysisConfig, { signal });
+  console.log('[ECG Service] Recomputed metrics for edited R-peaks:', {
+    peaks: result.peaks.length,
+    bpm: result.metrics.bpm,
+    rhythm: result.metrics.rhythmStatus
+  });
+  return result;
+}
+
 /**
  * Cleanup resources on application unmount.
  */
 export function cleanupECGSystem(): void {
-  const processor = getECGProcessor();
-  processor.shutdown();
+  shutdownECGProcessor();
   console.log('[ECG Service] System cleaned up');
 }
\ No newline at end of file
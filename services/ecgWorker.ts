@@ -3,15 +3,11 @@
  * Executes Python DSP algorithms in a separate thread to maintain UI responsiveness.
  */
 
-import type { ECGPoint, ProcessingConfig, ProcessingResult } from '../types';
-import pythonCode from './ecg_processor.py?raw';
-
-type WorkerMessageType = 
-  | 'INIT_PYODIDE'
-  | 'PROCESS_ECG'
-  | 'PREPROCESS_ONLY'
-  | 'DETECT_PEAKS_ONLY'
-  | 'SHUTDOWN';
+import type { loadPyodide as LoadPyodide } from 'pyodide';
+import { installNetworkMonitor } from './networkMonitor';
+import { loadECGModules, runAnalyzePeaks, runPreprocessOnly, runProcessECG, type PipelineConfig } from './pyodidePipeline';
+import type { WorkerRequest } from './ecgProcessor';
+import { WorkerInbox } from './workerInbox';
 
 type MainThreadMessageType =
   | 'PYODIDE_READY'
@@ -19,13 +15,14 @@ type MainThreadMessageType =
   | 'ECG_PROCESSED'
   | 'PREPROCESSING_COMPLETE'
   | 'PEAK_DETECTION_COMPLETE'
+  | 'PEAKS_ANALYZED'
+  | 'NETWORK_REQUEST'
+  | 'REQUEST_CANCELLED'
   | 'ERROR';
 
-interface WorkerMessage {
-  type: WorkerMessageType;
-  data?: any;
-  requestId?: string;
-}
+type RequestMessage = WorkerRequest & { requestId?: string };
+
+type WorkerMessage = RequestMessage | { type: 'INIT_PYODIDE' | 'SHUTDOWN' | 'CANCEL'; data?: undefined; requestId?: string };
 
 interface MainThreadMessage {
   type: MainThreadMessageType;
@@ -34,9 +31,23 @@ interface MainThreadMessage {
   error?: string;
 }
 
+// Runtime and packages are staged in public/pyodide/ by scripts/fetch-pyodide.mjs
+const PYODIDE_INDEX_URL = `${self.location.origin}${import.meta.env.BASE_URL}pyodide/`;
+
+// Runtime and package downloads are reported to the page's privacy audit log
+installNetworkMonitor('Pyodide worker', record => {
+  self.postMessage({ type: 'NETWORK_REQUEST', data: record } as MainThreadMessage);
+});
+
 let pyodideInstance: any = null;
 let isPyodideReady = false;
 
+// Python calls cannot be interrupted, so a CANCEL drops requests that have not started yet
+// and discards the result of the one that is running
+const inbox = new WorkerInbox<RequestMessage>(handleRequest, requestId => {
+  self.postMessage({ type: 'REQUEST_CANCELLED', requestId } as MainThreadMessage);
+});
+
 /**
  * Initialize Pyodide runtime and load required packages.
  */
@@ -49,38 +60,17 @@ async function initializePyodide(): Promise<void> {
       data: { stage: 'loading_runtime', progress: 0 }
     } as MainThreadMessage);
 
-    const { loadPyodide } = await import('https://cdn.jsdelivr.net/pyodide/v0.25.0/full/pyodide.mjs');
+    const { loadPyodide }: { loadPyodide: typeof LoadPyodide } = await import(
+      /* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`
+    );
 
-    pyodideInstance = await loadPyodide({
-      indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.25.0/full/'
-    });
+    pyodideInstance = await loadPyodide({ indexURL: PYODIDE_INDEX_URL });
 
     console.log('[Worker] Pyodide runtime loaded');
 
-    self.postMessage({
-      type: 'PYODIDE_LOADING_PROGRESS',
-      data: { stage: 'loading_packages', progress: 30 }
-    } as MainThreadMessage);
-
-    console.log('[Worker] Loading numpy...');
-    await pyodideInstance.loadPackage('numpy');
-
-    self.postMessage({
-      type: 'PYODIDE_LOADING_PROGRESS',
-      data: { stage: 'loading_packages', progress: 60 }
-    } as MainThreadMessage);
-
-    console.log('[Worker] Loading scipy...');
-    await pyodideInstance.loadPackage('scipy');
-
-    self.postMessage({
-      type: 'PYODIDE_LOADING_PROGRESS',
-      data: { stage: 'initializing_code', progress: 90 }
-    } as MainThreadMessage);
-
-    console.log('[Worker] Loading ECG processing code...');
-
-    await loadECGProcessingCode();
+    await loadECGModules(pyodideInstance, progress => {
+      self.postMessage({ type: 'PYODIDE_LOADING_PROGRESS', data: progress } as MainThreadMessage);
+    });
 
     isPyodideReady = true;
 
@@ -101,19 +91,12 @@ async function initializePyodide(): Promise<void> {
 }
 
 /**
- * Load Python ECG processing algorithms into Pyodide environment.
- */
-async function loadECGProcessingCode(): Promise<void> {
-  await pyodideInstance.runPythonAsync(pythonCode);
-  console.log('[Worker] Python ECG processing code loaded');
-}
-
-/**
- * Execute complete ECG processing pipeline in Python.
+ * Execute complete ECG processing pipeline in Python on one or more named leads.
+ * Cleaned leads and R-peak indices come back as typed arrays whose buffers are transferred.
  */
 async function processECG(
-  rawVoltages: number[],
-  config: ProcessingConfig,
+  leads: { name: string; voltages: Float32Array }[],
+  config: PipelineConfig,
   requestId: string
 ): Promise<void> {
   if (!isPyodideReady || !pyodideInstance) {
@@ -121,36 +104,25 @@ async function processECG(
   }
 
   try {
-    console.log(`[Worker] Processing ${rawVoltages.length} samples...`);
+    console.log(`[Worker] Processing ${leads.length} lead(s), ${leads[0]?.voltages.length || 0} samples...`);
 
-    pyodideInstance.globals.set('raw_voltages_js', rawVoltages);
-    pyodideInstance.globals.set('sample_rate', config.sampleRate || 250);
-    pyodideInstance.globals.set('verbose', config.verbose || false);
-
-    const pythonScript = `
-results = process_ecg_complete(raw_voltages_js, sample_rate, verbose)
-results
-`;
-
-    const results = await pyodideInstance.runPythonAsync(pythonScript);
-
-    const jsResults = results.toJs({ dict_converter: Object.fromEntries });
+    const jsResults = await runProcessECG(pyodideInstance, leads, config);
+    const cleanedLeads: Record<string, Float32Array> = jsResults.cleaned_leads;
 
     console.log('[Worker] Processing complete');
 
-    self.postMessage({
-      type: 'ECG_PROCESSED',
-      data: jsResults,
-      requestId
-    } as MainThreadMessage);
+    inbox.reply(requestId, () => self.postMessage(
+      { type: 'ECG_PROCESSED', data: jsResults, requestId } as MainThreadMessage,
+      { transfer: [...Object.values(cleanedLeads).map(lead => lead.buffer), jsResults.r_peak_indices.buffer] }
+    ));
 
   } catch (error) {
     console.error('[Worker] Processing error:', error);
-    self.postMessage({
+    inbox.reply(requestId, () => self.postMessage({
       type: 'ERROR',
       error: `Processing failed: ${error}`,
       requestId
-    } as MainThreadMessage);
+    } as MainThreadMessage));
   }
 }
 
@@ -158,8 +130,8 @@ results
  * Execute preprocessing only (no peak detection or analysis).
  */
 async function preprocessOnly(
-  rawVoltages: number[],
-  config: ProcessingConfig,
+  rawVoltages: Float32Array,
+  config: PipelineConfig,
   requestId: string
 ): Promise<void> {
   if (!isPyodideReady || !pyodideInstance) {
@@ -167,31 +139,76 @@ async function preprocessOnly(
   }
 
   try {
-    pyodideInstance.globals.set('raw_voltages_js', rawVoltages);
-    pyodideInstance.globals.set('sample_rate', config.sampleRate || 250);
+    const results = await runPreprocessOnly(pyodideInstance, rawVoltages, config);
+    inbox.reply(requestId, () => self.postMessage(
+      { type: 'PREPROCESSING_COMPLETE', data: results, requestId } as MainThreadMessage,
+      { transfer: [results.cleaned_signal.buffer] }
+    ));
 
-    const pythonScript = `
-import numpy as np
-raw_signal = np.array(raw_voltages_js, dtype=np.float64)
-cleaned, metrics = preprocess_ecg(raw_signal, sample_rate, verbose=False)
-{'cleaned_signal': cleaned.tolist(), 'metrics': metrics}
-`;
+  } catch (error) {
+    inbox.reply(requestId, () => self.postMessage({
+      type: 'ERROR',
+      error: `Preprocessing failed: ${error}`,
+      requestId
+    } as MainThreadMessage));
+  }
+}
+
+/**
+ * Re-run the beat analysis on user-supplied R-peak indices (manual over-read).
+ */
+async function analyzePeaks(
+  cleanedSignal: Float32Array,
+  peaks: Int32Array,
+  filterMetrics: Record<string, any>,
+  config: PipelineConfig,
+  requestId: string
+): Promise<void> {
+  if (!isPyodideReady || !pyodideInstance) {
+    throw new Error('Pyodide not initialized');
+  }
 
-    const results = await pyodideInstance.runPythonAsync(pythonScript);
-    const jsResults = results.toJs({ dict_converter: Object.fromEntries });
+  try {
+    const jsResults = await runAnalyzePeaks(pyodideInstance, cleanedSignal, peaks, filterMetrics, config);
+    inbox.reply(requestId, () => self.postMessage(
+      { type: 'PEAKS_ANALYZED', data: jsResults, requestId } as MainThreadMessage,
+      { transfer: [jsResults.r_peak_indices.buffer] }
+    ));
 
-    self.postMessage({
-      type: 'PREPROCESSING_COMPLETE',
-      data: jsResults,
+  } catch (error) {
+    inbox.reply(requestId, () => self.postMessage({
+      type: 'ERROR',
+      error: `Peak analysis failed: ${error}`,
       requestId
-    } as MainThreadMessage);
+    } as MainThreadMessage));
+  }
+}
+
+/**
+ * Run one processing request taken from the inbox.
+ */
+async function handleRequest({ type, data, requestId }: RequestMessage): Promise<void> {
+  try {
+    switch (type) {
+      case 'PROCESS_ECG':
+        await processECG(data.leads, data.config || {}, requestId || '');
+        break;
+
+      case 'PREPROCESS_ONLY':
+        await preprocessOnly(data.rawVoltages, data.config || {}, requestId || '');
+        break;
 
+      case 'ANALYZE_PEAKS':
+        await analyzePeaks(data.cleanedSignal, data.peaks, data.filterMetrics, data.config || {}, requestId || '');
+        break;
+    }
   } catch (error) {
-    self.postMessage({
+    console.error('[Worker] Error handling request:', error);
+    inbox.reply(requestId, () => self.postMessage({
       type: 'ERROR',
-      error: `Preprocessing failed: ${error}`,
+      error: `Worker error: ${error}`,
       requestId
-    } as MainThreadMessage);
+    } as MainThreadMessage));
   }
 }
 
@@ -199,20 +216,23 @@ cleaned, metrics = preprocess_ecg(raw_signal, sample_rate, verbose=False)
  * Main message handler for Worker communication.
  */
 self.addEventListener('message', async (e: MessageEvent<WorkerMessage>) => {
-  const { type, data, requestId } = e.data;
+  const message = e.data;
+  const { requestId } = message;
 
   try {
-    switch (type) {
+    switch (message.type) {
       case 'INIT_PYODIDE':
         await initializePyodide();
         break;
 
       case 'PROCESS_ECG':
-        await processECG(data.rawVoltages, data.config || {}, requestId || '');
+      case 'PREPROCESS_ONLY':
+      case 'ANALYZE_PEAKS':
+        inbox.push(message);
         break;
 
-      case 'PREPROCESS_ONLY':
-        await preprocessOnly(data.rawVoltages, data.config || {}, requestId || '');
+      case 'CANCEL':
+        if (requestId) inbox.cancel(requestId);
         break;
 
       case 'SHUTDOWN':
@@ -221,7 +241,7 @@ self.addEventListener('message', async (e: MessageEvent<WorkerMessage>) => {
         break;
 
       default:
-        console.warn(`[Worker] Unknown message type: ${type}`);
+        console.warn(`[Worker] Unknown message type: ${(message as { type: string }).type}`);
     }
   } catch (error) {
     console.error('[Worker] Error handling message:', error);
@@ -233,4 +253,4 @@ self.addEventListener('message', async (e: MessageEvent<WorkerMessage>) => {
   }
 });
 
-console.log('[Worker] ECG Worker initialized and ready');
\ No newline at end of file
+console.log('[Worker] ECG Worker initialized and ready');
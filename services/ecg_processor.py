@@ -1,33 +1,84 @@
 import numpy as np
 from scipy import signal
-from scipy.ndimage import uniform_filter1d
+from scipy.interpolate import CubicSpline
+from scipy.ndimage import median_filter, uniform_filter1d
 
 # ============================================================================
 # ECG PREPROCESSING
 # ============================================================================
 
-def preprocess_ecg(raw_signal, fs=250, verbose=False):
+# Monitoring preset; approximates the original fixed pipeline (same cut-offs, but the
+# band-pass now runs as second-order sections, so outputs differ slightly)
+DEFAULT_FILTER_CONFIG = {
+    'notch_frequency': 60.0,
+    'notch_harmonics': 0,
+    'high_pass': 0.5,
+    'low_pass': 40.0,
+    'order': 4,
+    'baseline_method': 'moving-average'
+}
+
+
+def estimate_baseline(ecg_signal, fs, method):
+    """Estimate baseline wander with a moving average, two-stage median or cubic spline."""
+    if method == 'moving-average':
+        return uniform_filter1d(ecg_signal, size=max(1, int(0.2 * fs)), mode='nearest')
+
+    if method == 'median':
+        # 200 ms window removes QRS, 600 ms window removes P and T waves
+        stage1 = median_filter(ecg_signal, size=int(0.2 * fs) | 1, mode='nearest')
+        return median_filter(stage1, size=int(0.6 * fs) | 1, mode='nearest')
+
+    if method == 'spline':
+        # Cubic spline through the median of each 1 s segment
+        segment = int(fs)
+        if len(ecg_signal) < 4 * segment:
+            return np.full_like(ecg_signal, np.median(ecg_signal))
+        starts = np.arange(0, len(ecg_signal) - segment + 1, segment)
+        knots_x = starts + segment / 2.0
+        knots_y = np.array([np.median(ecg_signal[s:s + segment]) for s in starts])
+        return CubicSpline(knots_x, knots_y, extrapolate=True)(np.arange(len(ecg_signal)))
+
+    return np.zeros_like(ecg_signal)
+
+
+def preprocess_ecg(raw_signal, fs=250, verbose=False, filter_config=None):
     """Apply bandpass, notch, and baseline wander removal to raw ECG signal."""
+    config = dict(DEFAULT_FILTER_CONFIG)
+    if filter_config:
+        config.update(filter_config)
+
     if verbose:
-        print(f"[Preprocessing] Input signal: {len(raw_signal)} samples @ {fs} Hz")
+        print(f"[Preprocessing] Input signal: {len(raw_signal)} samples @ {fs} Hz, filter {config}")
 
     signal_array = np.array(raw_signal, dtype=np.float64)
-
-    # Bandpass filter: 0.5-40 Hz (removes drift and high-frequency noise)
     nyquist = fs / 2.0
-    low_cutoff = 0.5 / nyquist
-    high_cutoff = 40.0 / nyquist
-    b_band, a_band = signal.butter(4, [low_cutoff, high_cutoff], btype='band')
-    filtered = signal.filtfilt(b_band, a_band, signal_array)
-
-    # Notch filter: 60 Hz (removes powerline interference)
-    notch_freq = 60.0
-    b_notch, a_notch = signal.iirnotch(notch_freq / nyquist, 30.0)
-    notched = signal.filtfilt(b_notch, a_notch, filtered)
-
-    # Baseline wander removal via moving average subtraction
-    window_samples = int(0.2 * fs)
-    baseline = uniform_filter1d(notched, size=window_samples, mode='nearest')
+
+    # Band limits; a low-pass edge at or above Nyquist leaves only the high-pass stage
+    high_pass = float(config['high_pass'])
+    low_pass = float(config['low_pass'])
+    order = int(config['order'])
+    if low_pass >= 0.95 * nyquist:
+        sos = signal.butter(order, high_pass / nyquist, btype='highpass', output='sos') if high_pass > 0 else None
+    elif high_pass > 0:
+        sos = signal.butter(order, [high_pass / nyquist, low_pass / nyquist], btype='band', output='sos')
+    else:
+        sos = signal.butter(order, low_pass / nyquist, btype='lowpass', output='sos')
+    filtered = signal.sosfiltfilt(sos, signal_array) if sos is not None else signal_array
+
+    # Notch filter at the mains frequency and requested harmonics (powerline interference)
+    notched = filtered
+    notch_frequency = config['notch_frequency']
+    if notch_frequency:
+        for harmonic in range(1, int(config['notch_harmonics']) + 2):
+            freq = float(notch_frequency) * harmonic
+            if freq >= nyquist:
+                break
+            b_notch, a_notch = signal.iirnotch(freq / nyquist, 30.0)
+            notched = signal.filtfilt(b_notch, a_notch, notched)
+
+    # Baseline wander removal
+    baseline = estimate_baseline(notched, fs, config['baseline_method'])
     cleaned = notched - baseline
 
     # Signal quality estimation via SNR
@@ -46,7 +97,8 @@ def preprocess_ecg(raw_signal, fs=250, verbose=False):
     filter_metrics = {
         'snr_db': float(snr_db),
         'confidence_score': float(quality_percent),
-        'signal_std': float(np.std(cleaned))
+        'signal_std': float(np.std(cleaned)),
+        'filter_config': config
     }
 
     return cleaned, filter_metrics
@@ -407,26 +459,73 @@ def calculate_hrv_metrics(r_peaks, fs=250, verbose=False):
 # COMPLETE PIPELINE
 # ============================================================================
 
-def process_ecg_complete(raw_voltages, sample_rate=250, verbose=True):
+def fuse_r_peaks(peak_lists, fs=250, tolerance_s=0.1, min_votes=None):
     """
-    Execute complete ECG analysis pipeline with clinical interpretation.
-    
-    Returns:
-        dict: Contains cleaned signal, R-peak locations, and comprehensive metrics
+    Merge per-lead R-peak detections by majority vote.
+
+    Detections from different leads within the tolerance window form one beat; a beat is
+    kept when at least min_votes leads (default: half of the leads) agree.
     """
-    if verbose:
-        print("="*60)
-        print("SOVEREIGN ECG SANDBOX - ENHANCED PROCESSING PIPELINE")
-        print("="*60)
+    num_leads = len(peak_lists)
+    if min_votes is None:
+        min_votes = max(1, int(np.ceil(num_leads / 2)))
 
-    raw_signal = np.array(raw_voltages, dtype=np.float64)
+    detections = sorted((int(p), lead) for lead, peaks in enumerate(peak_lists) for p in peaks)
+    tolerance = int(tolerance_s * fs)
 
-    # Signal preprocessing
-    cleaned_signal, filter_metrics = preprocess_ecg(raw_signal, sample_rate, verbose)
+    fused = []
+    cluster = []
+    for peak, lead in detections:
+        if cluster and peak - cluster[0][0] > tolerance:
+            if len({l for _, l in cluster}) >= min_votes:
+                fused.append(int(np.median([p for p, _ in cluster])))
+            cluster = []
+        cluster.append((peak, lead))
 
-    # R-peak detection
-    r_peaks, detection_metrics = pan_tompkins_detector(cleaned_signal, sample_rate, verbose)
+    if cluster and len({l for _, l in cluster}) >= min_votes:
+        fused.append(int(np.median([p for p, _ in cluster])))
 
+    return np.array(fused, dtype=int)
+
+
+def localize_r_peaks(ecg_signal, approx_peaks, fs=250, window_s=0.05):
+    """Snap approximate beat positions to the local maximum of the analysis lead."""
+    signal_array = np.array(ecg_signal, dtype=np.float64)
+    window = int(window_s * fs)
+    localized = []
+
+    for idx in approx_peaks:
+        start = max(0, idx - window)
+        end = min(len(signal_array), idx + window + 1)
+        peak = start + int(np.argmax(signal_array[start:end]))
+        if not localized or peak - localized[-1] > int(0.2 * fs):
+            localized.append(peak)
+
+    return np.array(localized, dtype=int)
+
+
+def rr_detection_metrics(r_peaks, fs=250):
+    """Heart rate summary for an R-peak series (same keys as pan_tompkins_detector)."""
+    if len(r_peaks) < 2:
+        return {'num_peaks': len(r_peaks), 'avg_heart_rate_bpm': 0.0}
+
+    rr_intervals = np.diff(r_peaks) / fs
+    avg_rr = np.mean(rr_intervals)
+    return {
+        'num_peaks': len(r_peaks),
+        'avg_heart_rate_bpm': float(60.0 / avg_rr) if avg_rr > 0 else 0.0,
+        'avg_rr_interval_s': float(avg_rr),
+        'rr_std_s': float(np.std(rr_intervals))
+    }
+
+
+def analyze_beats(cleaned_signal, r_peaks, filter_metrics, detection_metrics, sample_rate=250, verbose=True):
+    """
+    Run rhythm, morphology and HRV analysis on a cleaned signal with known R-peaks.
+
+    Returns:
+        dict: Contains cleaned signal, R-peak locations, and comprehensive metrics
+    """
     # Rhythm classification
     rhythm_status, arrhythmia_metrics = detect_arrhythmia(r_peaks, sample_rate, verbose)
 
@@ -473,9 +572,10 @@ def process_ecg_complete(raw_voltages, sample_rate=250, verbose=True):
         print(f"Confidence: {ui_metrics['confidence']:.1f}%")
         print("="*60)
 
-    results = {
-        'cleaned_signal': cleaned_signal.tolist(),
-        'r_peak_indices': r_peaks.tolist(),
+    # Sample arrays stay NumPy buffers; the worker copies them out as typed arrays
+    return {
+        'cleaned_signal': np.asarray(cleaned_signal, dtype=np.float32),
+        'r_peak_indices': np.asarray(r_peaks, dtype=np.int32),
         'metrics': ui_metrics,
         'filter_metrics': filter_metrics,
         'detection_metrics': detection_metrics,
@@ -486,9 +586,88 @@ def process_ecg_complete(raw_voltages, sample_rate=250, verbose=True):
         'rhythm_status': enhanced_rhythm,
         'clinical_warnings': warnings,
         'sample_rate': sample_rate,
-        'num_samples': len(raw_signal)
+        'num_samples': len(cleaned_signal)
     }
 
+
+def analyze_peaks(cleaned_signal, r_peaks, filter_metrics, sample_rate=250, verbose=False):
+    """
+    Re-run the beat analysis on user-supplied R-peaks (manual over-read).
+    Peaks are sorted and de-duplicated; detection metrics come from the corrected R-R series.
+    """
+    r_peaks = np.unique(np.asarray(r_peaks, dtype=int))
+    r_peaks = r_peaks[(r_peaks >= 0) & (r_peaks < len(cleaned_signal))]
+    detection_metrics = rr_detection_metrics(r_peaks, sample_rate)
+    detection_metrics['manual'] = True
+    return analyze_beats(cleaned_signal, r_peaks, filter_metrics, detection_metrics, sample_rate, verbose)
+
+
+def process_ecg_complete(raw_voltages, sample_rate=250, verbose=True, filter_config=None):
+    """
+    Execute complete ECG analysis pipeline with clinical interpretation.
+    
+    Returns:
+        dict: Contains cleaned signal, R-peak locations, and comprehensive metrics
+    """
+    if verbose:
+        print("="*60)
+        print("SOVEREIGN ECG SANDBOX - ENHANCED PROCESSING PIPELINE")
+        print("="*60)
+
+    raw_signal = np.array(raw_voltages, dtype=np.float64)
+
+    # Signal preprocessing
+    cleaned_signal, filter_metrics = preprocess_ecg(raw_signal, sample_rate, verbose, filter_config)
+
+    # R-peak detection
+    r_peaks, detection_metrics = pan_tompkins_detector(cleaned_signal, sample_rate, verbose)
+
+    return analyze_beats(cleaned_signal, r_peaks, filter_metrics, detection_metrics, sample_rate, verbose)
+
+
+def process_ecg_multilead(lead_signals, lead_names, sample_rate=250, analysis_lead=None, fuse_leads=False, verbose=True,
+                          filter_config=None):
+    """
+    Execute the analysis pipeline on a multi-lead recording.
+
+    Every lead is preprocessed for display. R-peaks come from the analysis lead, or from a
+    majority vote across all leads when fuse_leads is set; morphology is measured on the
+    analysis lead.
+    """
+    if verbose:
+        print("="*60)
+        print(f"MULTI-LEAD PROCESSING: {len(lead_names)} leads, analysis lead {analysis_lead or lead_names[0]}")
+        print("="*60)
+
+    if analysis_lead not in lead_names:
+        analysis_lead = lead_names[0]
+    primary_idx = lead_names.index(analysis_lead)
+
+    cleaned_leads = []
+    lead_filter_metrics = []
+    for raw in lead_signals:
+        cleaned, metrics = preprocess_ecg(np.array(raw, dtype=np.float64), sample_rate, False, filter_config)
+        cleaned_leads.append(cleaned)
+        lead_filter_metrics.append(metrics)
+
+    primary_signal = cleaned_leads[primary_idx]
+    filter_metrics = lead_filter_metrics[primary_idx]
+
+    if fuse_leads and len(cleaned_leads) > 1:
+        lead_peaks = [pan_tompkins_detector(sig, sample_rate, False)[0] for sig in cleaned_leads]
+        fused = fuse_r_peaks(lead_peaks, sample_rate)
+        r_peaks = localize_r_peaks(primary_signal, fused, sample_rate)
+        detection_metrics = rr_detection_metrics(r_peaks, sample_rate)
+        detection_metrics['fused_leads'] = len(cleaned_leads)
+        detection_metrics['lead_peak_counts'] = {name: len(p) for name, p in zip(lead_names, lead_peaks)}
+    else:
+        r_peaks, detection_metrics = pan_tompkins_detector(primary_signal, sample_rate, verbose)
+
+    results = analyze_beats(primary_signal, r_peaks, filter_metrics, detection_metrics, sample_rate, verbose)
+    results['analysis_lead'] = analysis_lead
+    results['fused'] = bool(fuse_leads and len(cleaned_leads) > 1)
+    results['cleaned_leads'] = {name: np.asarray(sig, dtype=np.float32) for name, sig in zip(lead_names, cleaned_leads)}
+
     return results
 
 print("[Python] Enhanced ECG processing module loaded successfully")
@@ -0,0 +1,146 @@
+/**
+ * Parity harness for the processing engines: runs the Pyodide and TypeScript pipelines on the
+ * same input and reports where their R-peaks, cleaned signals and metrics disagree.
+ */
+
+import type { ECGLead, PatientMetrics, ProcessingConfig } from '../types';
+import { getECGProcessor, type ProcessingResult } from './ecgProcessor';
+
+export interface PeakParity {
+  referenceCount: number;
+  candidateCount: number;
+  matched: number;
+  /** Sample indices found only by the reference (Pyodide) engine. */
+  onlyReference: number[];
+  /** Sample indices found only by the candidate (TypeScript) engine. */
+  onlyCandidate: number[];
+  maxOffsetSamples: number;
+}
+
+export interface MetricParity {
+  name: string;
+  reference: number;
+  candidate: number;
+  difference: number;
+}
+
+export interface EngineParityReport {
+  toleranceSamples: number;
+  peaks: PeakParity;
+  metrics: MetricParity[];
+  rhythm: { reference: string; candidate: string; match: boolean };
+  maxSignalDifference: number;
+}
+
+const COMPARED_METRICS: (keyof PatientMetrics)[] = ['bpm', 'confidence', 'qrsWidth', 'qtcBazett', 'sdnn', 'rmssd', 'pnn50'];
+
+/**
+ * Pair peaks of two sorted series that lie within `tolerance` samples of each other.
+ */
+function matchPeaks(reference: number[], candidate: number[], tolerance: number): PeakParity {
+  const onlyReference: number[] = [];
+  const onlyCandidate: number[] = [];
+  let matched = 0;
+  let maxOffset = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < reference.length && j < candidate.length) {
+    const offset = candidate[j] - reference[i];
+    if (Math.abs(offset) <= tolerance) {
+      matched++;
+      maxOffset = Math.max(maxOffset, Math.abs(offset));
+      i++;
+      j++;
+    } else if (offset < 0) {
+      onlyCandidate.push(candidate[j++]);
+    } else {
+      onlyReference.push(reference[i++]);
+    }
+  }
+  onlyReference.push(...reference.slice(i));
+  onlyCandidate.push(...candidate.slice(j));
+
+  return {
+    referenceCount: reference.length,
+    candidateCount: candidate.length,
+    matched,
+    onlyReference,
+    onlyCandidate,
+    maxOffsetSamples: maxOffset
+  };
+}
+
+/**
+ * Compare two processing results; `reference` is normally the Pyodide engine.
+ */
+export function compareEngineResults(
+  reference: ProcessingResult,
+  candidate: ProcessingResult,
+  toleranceSamples = 1
+): EngineParityReport {
+  const metrics = COMPARED_METRICS.map(name => {
+    const ref = Number(reference.metrics[name] ?? 0);
+    const cand = Number(candidate.metrics[name] ?? 0);
+    return { name, reference: ref, candidate: cand, difference: cand - ref };
+  });
+
+  let maxSignalDifference = 0;
+  const length = Math.min(reference.signal.length, candidate.signal.length);
+  for (let i = 0; i < length; i++) {
+    maxSignalDifference = Math.max(maxSignalDifference, Math.abs(reference.signal.clean[i] - candidate.signal.clean[i]));
+  }
+
+  return {
+    toleranceSamples,
+    peaks: matchPeaks(Array.from(reference.signal.peaks), Array.from(candidate.signal.peaks), toleranceSamples),
+    metrics,
+    rhythm: {
+      reference: reference.metrics.rhythmStatus,
+      candidate: candidate.metrics.rhythmStatus,
+      match: reference.metrics.rhythmStatus === candidate.metrics.rhythmStatus
+    },
+    maxSignalDifference
+  };
+}
+
+/**
+ * Run both engines on the same leads and configuration and compare the results.
+ */
+export async function runEngineParity(
+  input: number[] | Float32Array | ECGLead[],
+  config: ProcessingConfig = {},
+  toleranceSamples = 1
+): Promise<EngineParityReport> {
+  const pyodide = getECGProcessor('pyodide');
+  const typescript = getECGProcessor('typescript');
+  await Promise.all([pyodide.initialize(), typescript.initialize()]);
+
+  const reference = await pyodide.processECG(input, config);
+  const candidate = await typescript.processECG(input, config);
+
+  const report = compareEngineResults(reference, candidate, toleranceSamples);
+  console.log(`[EngineParity]\n${formatParityReport(report)}`);
+  return report;
+}
+
+/**
+ * Render a parity report as plain text.
+ */
+export function formatParityReport(report: EngineParityReport): string {
+  const { peaks } = report;
+  const lines = [
+    `R-peaks: ${peaks.matched} matched within ${report.toleranceSamples} sample(s), ` +
+      `${peaks.onlyReference.length} only in Pyodide, ${peaks.onlyCandidate.length} only in TypeScript ` +
+      `(max offset ${peaks.maxOffsetSamples})`
+  ];
+  if (peaks.onlyReference.length > 0) lines.push(`  Pyodide only: ${peaks.onlyReference.join(', ')}`);
+  if (peaks.onlyCandidate.length > 0) lines.push(`  TypeScript only: ${peaks.onlyCandidate.join(', ')}`);
+
+  lines.push(`Cleaned signal: max difference ${report.maxSignalDifference.toExponential(2)} mV`);
+  lines.push(`Rhythm: ${report.rhythm.reference} / ${report.rhythm.candidate}${report.rhythm.match ? '' : ' (MISMATCH)'}`);
+  for (const m of report.metrics) {
+    lines.push(`${m.name}: ${m.reference.toFixed(3)} / ${m.candidate.toFixed(3)} (diff ${m.difference.toFixed(3)})`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,65 @@
+/**
+ * Named preprocessing presets and resolution of user filter overrides.
+ */
+
+import type { FilterConfig, FilterPresetName, ProcessingConfig } from '../types';
+
+export const FILTER_PRESETS: Record<FilterPresetName, FilterConfig> = {
+  // Full diagnostic bandwidth (AHA 0.05-150 Hz) for QRS and interval measurements
+  diagnostic: {
+    notchFrequency: 60,
+    notchHarmonics: 1,
+    highPass: 0.05,
+    lowPass: 150,
+    order: 2,
+    baselineMethod: 'median'
+  },
+  // Original pipeline: 0.5-40 Hz band with a 200 ms moving-average baseline
+  monitoring: {
+    notchFrequency: 60,
+    notchHarmonics: 0,
+    highPass: 0.5,
+    lowPass: 40,
+    order: 4,
+    baselineMethod: 'moving-average'
+  },
+  // Low high-pass corner and spline baseline keep the ST segment undistorted
+  'st-analysis': {
+    notchFrequency: 60,
+    notchHarmonics: 0,
+    highPass: 0.05,
+    lowPass: 40,
+    order: 2,
+    baselineMethod: 'spline'
+  }
+};
+
+export const FILTER_PRESET_LABELS: Record<FilterPresetName, string> = {
+  diagnostic: 'Diagnostic (0.05-150 Hz)',
+  monitoring: 'Monitoring (0.5-40 Hz)',
+  'st-analysis': 'ST analysis (0.05-40 Hz)'
+};
+
+export const DEFAULT_FILTER_PRESET: FilterPresetName = 'monitoring';
+
+/**
+ * Merge the selected preset with the mains frequency and explicit filter overrides.
+ */
+export function resolveFilterConfig(config: ProcessingConfig): FilterConfig {
+  const preset = FILTER_PRESETS[config.filterPreset || DEFAULT_FILTER_PRESET];
+  const resolved: FilterConfig = { ...preset, ...config.filter };
+
+  // Presets are defined for 60 Hz mains; an explicit notch override still wins
+  if (config.mainsFrequency && preset.notchFrequency !== null && config.filter?.notchFrequency === undefined) {
+    resolved.notchFrequency = config.mainsFrequency;
+  }
+
+  if (!(resolved.highPass >= 0) || !(resolved.lowPass > resolved.highPass)) {
+    throw new Error(`Invalid filter band: ${resolved.highPass}-${resolved.lowPass} Hz`);
+  }
+  if (!Number.isInteger(resolved.order) || resolved.order < 1 || resolved.order > 8) {
+    throw new Error(`Filter order must be an integer between 1 and 8 (got ${resolved.order})`);
+  }
+
+  return resolved;
+}
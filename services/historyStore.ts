@@ -0,0 +1,258 @@
+/**
+ * Analysis history in IndexedDB: one summary per analysis (metrics, file info, R-peaks) plus a
+ * downsampled waveform kept in a separate store so the history list loads without signal data.
+ */
+
+import type { ECGServiceResult } from './ecgService';
+import { createRequestId } from './requestQueue';
+import type { ECGSignal, PatientMetrics } from '../types';
+
+export interface HistoryEntry {
+  id: string;
+  /** Milliseconds since the epoch when the analysis finished. */
+  timestamp: number;
+  /** Patient name or ID from the file header, otherwise the record name. */
+  subject: string;
+  metrics: PatientMetrics;
+  fileInfo: ECGServiceResult['fileInfo'];
+  /** R-peak sample indices at the original sample rate. */
+  peaks: Int32Array;
+}
+
+interface StoredWaveform {
+  id: string;
+  sampleRate: number;
+  /** Original samples per stored sample. */
+  factor: number;
+  clean: Float32Array;
+}
+
+export interface ReopenedAnalysis {
+  entry: HistoryEntry;
+  /** Analysis lead at the stored (downsampled) rate, with R-peaks mapped onto it. */
+  signal: ECGSignal;
+}
+
+export const HISTORY_DB_NAME = 'ecg-analyzer';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'analyses';
+const WAVEFORM_STORE = 'waveforms';
+
+// Stored waveforms are reduced to at most this rate and sample count (about 30 min at 125 Hz)
+const WAVEFORM_MAX_RATE = 125;
+const WAVEFORM_MAX_SAMPLES = 250_000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use create) the history database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(HISTORY_DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        entries.createIndex('timestamp', 'timestamp');
+        entries.createIndex('subject', 'subject');
+        db.createObjectStore(WAVEFORM_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab delete or upgrade the database; the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Name scans are grouped under for trends.
+ */
+export function historySubject(fileInfo: ECGServiceResult['fileInfo']): string {
+  const { patientName, patientId, recordName } = fileInfo.metadata;
+  return patientName || patientId || recordName || fileInfo.name.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Reduce a signal to the stored rate, keeping the largest-magnitude sample of each block so
+ * QRS complexes survive.
+ */
+export function downsampleWaveform(clean: Float32Array, sampleRate: number): { clean: Float32Array; factor: number } {
+  const factor = Math.max(1, Math.ceil(sampleRate / WAVEFORM_MAX_RATE), Math.ceil(clean.length / WAVEFORM_MAX_SAMPLES));
+  if (factor === 1) return { clean: clean.slice(), factor };
+
+  const reduced = new Float32Array(Math.ceil(clean.length / factor));
+  for (let i = 0; i < reduced.length; i++) {
+    const end = Math.min(clean.length, (i + 1) * factor);
+    let best = clean[i * factor];
+    for (let j = i * factor + 1; j < end; j++) {
+      if (Math.abs(clean[j]) > Math.abs(best)) best = clean[j];
+    }
+    reduced[i] = best;
+  }
+  return { clean: reduced, factor };
+}
+
+/**
+ * Store a finished analysis. With `replaceId`, a re-run of the same recording (other lead,
+ * filters or engine) overwrites that entry and keeps its timestamp, so it is listed once.
+ */
+export async function saveAnalysis(result: ECGServiceResult, replaceId?: string): Promise<HistoryEntry> {
+  const db = await openDatabase();
+  const { signal, metrics, fileInfo } = result;
+  const { clean, factor } = downsampleWaveform(signal.clean, signal.sampleRate);
+
+  const transaction = db.transaction([ENTRY_STORE, WAVEFORM_STORE], 'readwrite');
+  const entries = transaction.objectStore(ENTRY_STORE);
+  const previous = replaceId
+    ? await requestResult(entries.get(replaceId) as IDBRequest<HistoryEntry | undefined>)
+    : undefined;
+
+  const entry: HistoryEntry = {
+    id: previous?.id ?? createRequestId('analysis'),
+    timestamp: previous?.timestamp ?? Date.now(),
+    subject: historySubject(fileInfo),
+    metrics,
+    fileInfo,
+    peaks: signal.peaks.slice()
+  };
+  const waveform: StoredWaveform = { id: entry.id, sampleRate: signal.sampleRate / factor, factor, clean };
+
+  entries.put(entry);
+  transaction.objectStore(WAVEFORM_STORE).put(waveform);
+  await transactionDone(transaction);
+
+  console.log(`[History] ${previous ? 'Updated' : 'Saved'} ${fileInfo.name} as ${entry.id} (${clean.length} samples at ${waveform.sampleRate.toFixed(0)} Hz)`);
+  return entry;
+}
+
+/**
+ * Every stored analysis, newest first.
+ */
+export async function listAnalyses(): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE);
+  const entries = await requestResult(store.index('timestamp').getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.reverse();
+}
+
+/**
+ * Load an analysis with its stored waveform for display.
+ */
+export async function loadAnalysis(id: string): Promise<ReopenedAnalysis> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRY_STORE, WAVEFORM_STORE], 'readonly');
+  const [entry, waveform] = await Promise.all([
+    requestResult(transaction.objectStore(ENTRY_STORE).get(id) as IDBRequest<HistoryEntry | undefined>),
+    requestResult(transaction.objectStore(WAVEFORM_STORE).get(id) as IDBRequest<StoredWaveform | undefined>)
+  ]);
+  if (!entry || !waveform) {
+    throw new Error(`Analysis ${id} is no longer in the history`);
+  }
+
+  const peaks = entry.peaks.map(p => Math.min(waveform.clean.length - 1, Math.round(p / waveform.factor)));
+  return {
+    entry,
+    signal: {
+      sampleRate: waveform.sampleRate,
+      length: waveform.clean.length,
+      clean: waveform.clean,
+      leads: { [entry.fileInfo.analysisLead]: waveform.clean },
+      peaks
+    }
+  };
+}
+
+/**
+ * Replace the R-peaks and metrics of a stored analysis after a manual over-read.
+ */
+export async function updateAnalysisPeaks(id: string, metrics: PatientMetrics, peaks: Int32Array): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+  const store = transaction.objectStore(ENTRY_STORE);
+  const entry = await requestResult(store.get(id) as IDBRequest<HistoryEntry | undefined>);
+  if (!entry) {
+    throw new Error(`Analysis ${id} is no longer in the history`);
+  }
+  store.put({ ...entry, metrics, peaks: peaks.slice() });
+  await transactionDone(transaction);
+}
+
+/**
+ * Remove one analysis.
+ */
+export async function deleteAnalysis(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRY_STORE, WAVEFORM_STORE], 'readwrite');
+  transaction.objectStore(ENTRY_STORE).delete(id);
+  transaction.objectStore(WAVEFORM_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Remove every stored analysis.
+ */
+export async function clearHistory(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRY_STORE, WAVEFORM_STORE], 'readwrite');
+  transaction.objectStore(ENTRY_STORE).clear();
+  transaction.objectStore(WAVEFORM_STORE).clear();
+  await transactionDone(transaction);
+  console.log('[History] Cleared all stored analyses');
+}
+
+/**
+ * Delete a database of this origin. Rejects instead of waiting when a connection that does not
+ * close on request, e.g. in a tab running an older version of the app, blocks the delete.
+ */
+export function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is in use in another tab. Close other tabs of this app and try again.`));
+  });
+}
+
+/**
+ * Close the connection and delete the history database itself.
+ */
+export async function deleteHistoryDatabase(): Promise<void> {
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+  await deleteDatabase(HISTORY_DB_NAME);
+  console.log('[History] Deleted history database');
+}
@@ -0,0 +1,194 @@
+/**
+ * Network request log for the privacy audit. Wraps fetch, XMLHttpRequest and sendBeacon and
+ * observes Resource Timing entries. Runs in the page and in every worker; workers forward their
+ * records to the page as `NETWORK_REQUEST` messages.
+ */
+
+export type NetworkRequestSource = 'fetch' | 'xhr' | 'beacon' | 'resource' | 'navigation';
+
+export interface NetworkRequestRecord {
+  url: string;
+  method: string;
+  source: NetworkRequestSource;
+  /** Where the request was made: 'page' or the worker's name. */
+  context: string;
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  /** Request body size in bytes; -1 when a body was sent whose size is unknown. */
+  requestBytes: number;
+  /** Bytes received over the network (0 when served from a cache), from Resource Timing. */
+  transferSize?: number;
+  /** Resource Timing initiator type, e.g. script, fetch, link. */
+  initiator?: string;
+}
+
+export interface NetworkLogSummary {
+  total: number;
+  crossOrigin: NetworkRequestRecord[];
+  withBody: NetworkRequestRecord[];
+  /** True when every request went to this origin (or local data:/blob: URLs) without a body. */
+  noEgress: boolean;
+}
+
+// Resource Timing entries for requests that the wrappers already recorded
+const WRAPPED_INITIATORS: Record<string, NetworkRequestSource> = {
+  fetch: 'fetch',
+  xmlhttprequest: 'xhr',
+  beacon: 'beacon'
+};
+
+const records: NetworkRequestRecord[] = [];
+const listeners = new Set<(records: NetworkRequestRecord[]) => void>();
+let installed = false;
+
+/**
+ * Add a record to the page log, merging Resource Timing data into the wrapper record it belongs to.
+ */
+export function recordNetworkRequest(record: NetworkRequestRecord): void {
+  const wrappedSource = record.source === 'resource' ? WRAPPED_INITIATORS[record.initiator || ''] : undefined;
+  const wrapped = wrappedSource && records.find(r =>
+    r.source === wrappedSource && r.context === record.context && r.url === record.url && r.transferSize === undefined
+  );
+
+  if (wrapped) {
+    wrapped.transferSize = record.transferSize;
+    wrapped.initiator = record.initiator;
+  } else {
+    records.push(record);
+  }
+  listeners.forEach(listener => listener([...records]));
+}
+
+/**
+ * Every request recorded so far, oldest first.
+ */
+export function getNetworkLog(): NetworkRequestRecord[] {
+  return [...records];
+}
+
+/**
+ * Follow the log; returns an unsubscribe function.
+ */
+export function subscribeNetworkLog(listener: (records: NetworkRequestRecord[]) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function absoluteUrl(url: string | URL): string {
+  try {
+    return new URL(url, self.location.href).href;
+  } catch {
+    return String(url);
+  }
+}
+
+/**
+ * Whether a URL stays inside the browser or goes to the app's own origin.
+ */
+export function isLocalOrSameOrigin(url: string): boolean {
+  if (url.startsWith('data:') || url.startsWith('blob:')) return true;
+  try {
+    return new URL(url).origin === self.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Byte size of a request body, or -1 when it cannot be measured without consuming it.
+ */
+function bodySize(body: unknown): number {
+  if (body === undefined || body === null) return 0;
+  if (typeof body === 'string') return new TextEncoder().encode(body).length;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  if (ArrayBuffer.isView(body)) return body.byteLength;
+  if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString()).length;
+  return -1;
+}
+
+/**
+ * Summarize the log for the audit: any body or cross-origin request counts as possible egress.
+ */
+export function summarizeNetworkLog(log: NetworkRequestRecord[]): NetworkLogSummary {
+  const crossOrigin = log.filter(r => !isLocalOrSameOrigin(r.url));
+  const withBody = log.filter(r => r.requestBytes !== 0);
+  return { total: log.length, crossOrigin, withBody, noEgress: crossOrigin.length === 0 && withBody.length === 0 };
+}
+
+/**
+ * Start recording requests made in this global scope. In the page records go to the log;
+ * in a worker pass `forward` to post them to the page.
+ */
+export function installNetworkMonitor(context: string, forward: (record: NetworkRequestRecord) => void = recordNetworkRequest): void {
+  if (installed) return;
+  installed = true;
+
+  const emit = (record: Omit<NetworkRequestRecord, 'context'>) => forward({ ...record, context });
+
+  const originalFetch = globalThis.fetch;
+  if (originalFetch) {
+    globalThis.fetch = function (input: RequestInfo | URL, init?: RequestInit) {
+      const request = input instanceof Request ? input : null;
+      const method = (init?.method || request?.method || 'GET').toUpperCase();
+      emit({
+        url: absoluteUrl(request ? request.url : input as string | URL),
+        method,
+        source: 'fetch',
+        timestamp: Date.now(),
+        requestBytes: init?.body !== undefined ? bodySize(init.body) : request?.body ? -1 : 0
+      });
+      return originalFetch.call(this, input, init);
+    };
+  }
+
+  if (typeof XMLHttpRequest !== 'undefined') {
+    const open = XMLHttpRequest.prototype.open;
+    const send = XMLHttpRequest.prototype.send;
+    const targets = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+    XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['open']>) {
+      const [method, url] = args;
+      targets.set(this, { method: method.toUpperCase(), url: absoluteUrl(url) });
+      return open.apply(this, args);
+    } as XMLHttpRequest['open'];
+
+    XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const target = targets.get(this);
+      if (target) {
+        emit({ ...target, source: 'xhr', timestamp: Date.now(), requestBytes: bodySize(body) });
+      }
+      return send.call(this, body);
+    };
+  }
+
+  if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+    const sendBeacon = navigator.sendBeacon.bind(navigator);
+    navigator.sendBeacon = (url: string | URL, data?: BodyInit | null) => {
+      emit({ url: absoluteUrl(url), method: 'POST', source: 'beacon', timestamp: Date.now(), requestBytes: bodySize(data) });
+      return sendBeacon(url, data);
+    };
+  }
+
+  // Resource Timing also covers scripts, module imports, stylesheets and fonts
+  if (typeof PerformanceObserver !== 'undefined') {
+    const toRecord = (entry: PerformanceResourceTiming, source: NetworkRequestSource) => emit({
+      url: entry.name,
+      method: 'GET',
+      source,
+      timestamp: performance.timeOrigin + entry.startTime,
+      requestBytes: 0,
+      transferSize: entry.transferSize,
+      initiator: entry.initiatorType
+    });
+
+    for (const entry of performance.getEntriesByType('navigation') as PerformanceResourceTiming[]) {
+      toRecord(entry, 'navigation');
+    }
+    new PerformanceObserver(list => {
+      for (const entry of list.getEntries() as PerformanceResourceTiming[]) {
+        toRecord(entry, 'resource');
+      }
+    }).observe({ type: 'resource', buffered: true });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Service worker registration and offline cache status for the Pyodide runtime.
+ */
+
+export type RuntimeSource = 'cache' | 'network';
+
+const PYODIDE_BASE_URL = `${import.meta.env.BASE_URL}pyodide/`;
+
+/**
+ * Register the precaching service worker. Skipped in development so Vite's dev server stays uncached.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      console.log(`[OfflineCache] Service worker registered for ${registration.scope}`);
+    } catch (error) {
+      console.warn('[OfflineCache] Service worker registration failed:', error);
+    }
+  });
+}
+
+/**
+ * Report whether every Pyodide file is already in the offline cache, i.e. startup needs no download.
+ */
+export async function getPyodideCacheStatus(): Promise<RuntimeSource> {
+  if (!('caches' in window)) {
+    return 'network';
+  }
+
+  try {
+    const manifestResponse = await caches.match(`${PYODIDE_BASE_URL}manifest.json`);
+    if (!manifestResponse) {
+      return 'network';
+    }
+
+    const { files } = await manifestResponse.json() as { files: string[] };
+    for (const file of files) {
+      if (!(await caches.match(`${PYODIDE_BASE_URL}${file}`))) {
+        return 'network';
+      }
+    }
+    return 'cache';
+  } catch (error) {
+    console.warn('[OfflineCache] Could not inspect cache:', error);
+    return 'network';
+  }
+}
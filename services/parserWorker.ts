@@ -0,0 +1,82 @@
+/**
+ * Web Worker for ECG file parsing.
+ * Streams large recordings off the main thread and reports read progress.
+ */
+
+import { parseECGFile, type CSVImportMapping, type ParsedECGData } from './dataParser';
+import { installNetworkMonitor } from './networkMonitor';
+
+type ParserWorkerMessageType = 'PARSE_FILE';
+
+type ParserMainThreadMessageType =
+  | 'PARSE_PROGRESS'
+  | 'PARSE_COMPLETE'
+  | 'NETWORK_REQUEST'
+  | 'ERROR';
+
+interface ParserWorkerMessage {
+  type: ParserWorkerMessageType;
+  data: { file: File; companionFiles: File[]; csvMapping?: CSVImportMapping; defaultSampleRate?: number };
+  requestId?: string;
+}
+
+interface ParserMainThreadMessage {
+  type: ParserMainThreadMessageType;
+  data?: any;
+  requestId?: string;
+  error?: string;
+}
+
+installNetworkMonitor('Parser worker', record => {
+  self.postMessage({ type: 'NETWORK_REQUEST', data: record } as ParserMainThreadMessage);
+});
+
+/**
+ * Collect the distinct sample buffers so they can be transferred instead of copied.
+ */
+function transferableBuffers(data: ParsedECGData): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  buffers.add(data.voltages.buffer as ArrayBuffer);
+  for (const lead of data.leads) {
+    buffers.add(lead.voltages.buffer as ArrayBuffer);
+  }
+  return Array.from(buffers);
+}
+
+/**
+ * Main message handler for parser Worker communication.
+ */
+self.addEventListener('message', async (e: MessageEvent<ParserWorkerMessage>) => {
+  const { type, data, requestId } = e.data;
+
+  if (type !== 'PARSE_FILE') {
+    console.warn(`[ParserWorker] Unknown message type: ${type}`);
+    return;
+  }
+
+  try {
+    // Throttle progress messages to whole-percent steps
+    let lastPercent = -1;
+    const parsed = await parseECGFile(data.file, data.companionFiles || [], (loaded, total) => {
+      const percent = total > 0 ? Math.floor((loaded / total) * 100) : 100;
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      self.postMessage({
+        type: 'PARSE_PROGRESS',
+        data: { loaded, total },
+        requestId
+      } as ParserMainThreadMessage);
+    }, data.csvMapping, data.defaultSampleRate);
+
+    self.postMessage(
+      { type: 'PARSE_COMPLETE', data: parsed, requestId } as ParserMainThreadMessage,
+      { transfer: transferableBuffers(parsed) }
+    );
+  } catch (error) {
+    self.postMessage({
+      type: 'ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      requestId
+    } as ParserMainThreadMessage);
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * Manual R-peak over-read: adding, deleting and moving beats on the analysis lead, with an
+ * undo/redo history. Edits return new sorted `Int32Array`s and never mutate their input.
+ */
+
+// Clicks snap to the largest deflection within this distance, as lead fusion localizes peaks
+const SNAP_WINDOW_S = 0.05;
+
+// A click this close to an existing beat selects it
+const HIT_TOLERANCE_S = 0.1;
+
+// Edits kept for undo
+const MAX_HISTORY = 200;
+
+export interface PeakEditHistory {
+  /** R-peaks as detected by the engine. */
+  original: Int32Array;
+  past: Int32Array[];
+  present: Int32Array;
+  future: Int32Array[];
+}
+
+/**
+ * Position of the largest absolute deflection near `sample`.
+ */
+export function snapToRPeak(clean: Float32Array, sample: number, sampleRate: number): number {
+  const window = Math.trunc(SNAP_WINDOW_S * sampleRate);
+  const start = Math.max(0, Math.round(sample) - window);
+  const end = Math.min(clean.length, Math.round(sample) + window + 1);
+  let best = Math.min(Math.max(0, Math.round(sample)), clean.length - 1);
+  for (let i = start; i < end; i++) {
+    if (Math.abs(clean[i]) > Math.abs(clean[best])) best = i;
+  }
+  return best;
+}
+
+/**
+ * Index in `peaks` of the beat closest to `sample` within the hit tolerance, or -1.
+ */
+export function nearestPeak(peaks: Int32Array, sample: number, sampleRate: number): number {
+  const tolerance = HIT_TOLERANCE_S * sampleRate;
+  let best = -1;
+  for (let i = 0; i < peaks.length; i++) {
+    const distance = Math.abs(peaks[i] - sample);
+    if (distance <= tolerance && (best < 0 || distance < Math.abs(peaks[best] - sample))) best = i;
+  }
+  return best;
+}
+
+/**
+ * Insert a beat at `sample`, keeping the list sorted.
+ */
+export function addPeak(peaks: Int32Array, sample: number): Int32Array {
+  if (peaks.includes(sample)) return peaks;
+  const next = new Int32Array(peaks.length + 1);
+  let i = 0;
+  while (i < peaks.length && peaks[i] < sample) next[i] = peaks[i++];
+  next[i] = sample;
+  next.set(peaks.subarray(i), i + 1);
+  return next;
+}
+
+/**
+ * Delete the beat at `index`.
+ */
+export function removePeak(peaks: Int32Array, index: number): Int32Array {
+  if (index < 0 || index >= peaks.length) return peaks;
+  const next = new Int32Array(peaks.length - 1);
+  next.set(peaks.subarray(0, index));
+  next.set(peaks.subarray(index + 1), index);
+  return next;
+}
+
+/**
+ * Move the beat at `index` to `sample`.
+ */
+export function movePeak(peaks: Int32Array, index: number, sample: number): Int32Array {
+  return addPeak(removePeak(peaks, index), sample);
+}
+
+/**
+ * Whether two R-peak lists are identical.
+ */
+export function peaksEqual(a: Int32Array, b: Int32Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Start an edit history at the detected R-peaks.
+ */
+export function createPeakHistory(peaks: Int32Array): PeakEditHistory {
+  return { original: peaks, past: [], present: peaks, future: [] };
+}
+
+/**
+ * Record an edit; clears the redo stack.
+ */
+export function pushPeakEdit(history: PeakEditHistory, peaks: Int32Array): PeakEditHistory {
+  if (peaksEqual(peaks, history.present)) return history;
+  return {
+    ...history,
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: peaks,
+    future: []
+  };
+}
+
+/**
+ * Step back one edit.
+ */
+export function undoPeakEdit(history: PeakEditHistory): PeakEditHistory {
+  if (history.past.length === 0) return history;
+  return {
+    ...history,
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+}
+
+/**
+ * Re-apply the last undone edit.
+ */
+export function redoPeakEdit(history: PeakEditHistory): PeakEditHistory {
+  if (history.future.length === 0) return history;
+  return {
+    ...history,
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+}
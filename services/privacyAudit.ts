@@ -0,0 +1,187 @@
+/**
+ * Privacy audit: inventory of data kept in the browser, a one-step purge, and an exportable
+ * report combining the storage inventory with the network request log.
+ */
+
+import { getNetworkLog, summarizeNetworkLog, type NetworkRequestRecord } from './networkMonitor';
+import { deleteDatabase, deleteHistoryDatabase, HISTORY_DB_NAME, listAnalyses } from './historyStore';
+
+export type StorageArea = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'cacheStorage' | 'serviceWorker';
+
+export interface StoredItem {
+  area: StorageArea;
+  name: string;
+  /** What the item holds, in plain words. */
+  description: string;
+  bytes?: number;
+  /** Whether it can hold patient data (recordings, metrics, names). */
+  patientData: boolean;
+}
+
+export interface LocalDataInventory {
+  items: StoredItem[];
+  /** Origin-wide usage and quota from the Storage API, where available. */
+  usageBytes?: number;
+  quotaBytes?: number;
+}
+
+export interface PrivacyAuditReport {
+  generatedAt: string;
+  origin: string;
+  userAgent: string;
+  network: {
+    totalRequests: number;
+    crossOriginRequests: number;
+    requestsWithBody: number;
+    noEgress: boolean;
+    requests: NetworkRequestRecord[];
+  };
+  storage: LocalDataInventory;
+}
+
+// Known keys and stores, so the inventory can say what each holds
+const KNOWN_LOCAL_STORAGE: Record<string, { description: string; patientData: boolean }> = {
+  'ecg-analyzer.settings': { description: 'User settings (display, thresholds, backend)', patientData: false },
+  'ecg-analyzer.csvMappings': { description: 'CSV column layouts confirmed in the import wizard', patientData: false }
+};
+
+const KNOWN_CACHES: Record<string, string> = {
+  'ecg-analyzer-shell': 'Application files for offline use',
+  'ecg-analyzer-pyodide': 'Python runtime and packages for offline use'
+};
+
+function webStorageItems(area: 'localStorage' | 'sessionStorage'): StoredItem[] {
+  const storage = area === 'localStorage' ? localStorage : sessionStorage;
+  const items: StoredItem[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key === null) continue;
+    const known = KNOWN_LOCAL_STORAGE[key];
+    items.push({
+      area,
+      name: key,
+      description: known?.description || 'Unrecognized entry',
+      // localStorage holds UTF-16 strings
+      bytes: ((storage.getItem(key) || '').length + key.length) * 2,
+      patientData: known ? known.patientData : true
+    });
+  }
+  return items;
+}
+
+async function indexedDBItems(): Promise<StoredItem[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const databases = typeof indexedDB.databases === 'function'
+    ? await indexedDB.databases()
+    : [{ name: HISTORY_DB_NAME }];
+
+  const items: StoredItem[] = [];
+  for (const { name } of databases) {
+    if (!name) continue;
+    if (name === HISTORY_DB_NAME) {
+      const count = (await listAnalyses().catch(() => [])).length;
+      items.push({
+        area: 'indexedDB',
+        name,
+        description: `Analysis history: ${count} stored analys${count === 1 ? 'is' : 'es'} with metrics, file details, patient attributes and downsampled waveforms`,
+        patientData: true
+      });
+    } else {
+      items.push({ area: 'indexedDB', name, description: 'Unrecognized database', patientData: true });
+    }
+  }
+  return items;
+}
+
+async function cacheItems(): Promise<StoredItem[]> {
+  if (typeof caches === 'undefined') return [];
+  const items: StoredItem[] = [];
+  for (const name of await caches.keys()) {
+    const entries = (await (await caches.open(name)).keys()).length;
+    items.push({
+      area: 'cacheStorage',
+      name,
+      description: `${KNOWN_CACHES[name] || 'Unrecognized cache'} (${entries} file${entries === 1 ? '' : 's'})`,
+      patientData: !(name in KNOWN_CACHES)
+    });
+  }
+  return items;
+}
+
+async function serviceWorkerItems(): Promise<StoredItem[]> {
+  if (!('serviceWorker' in navigator)) return [];
+  const registrations = await navigator.serviceWorker.getRegistrations();
+  return registrations.map(registration => ({
+    area: 'serviceWorker' as const,
+    name: registration.scope,
+    description: 'Service worker serving the offline caches',
+    patientData: false
+  }));
+}
+
+/**
+ * List everything this origin keeps in the browser.
+ */
+export async function listLocalData(): Promise<LocalDataInventory> {
+  const items = [
+    ...webStorageItems('localStorage'),
+    ...webStorageItems('sessionStorage'),
+    ...(await indexedDBItems()),
+    ...(await cacheItems()),
+    ...(await serviceWorkerItems())
+  ];
+
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { items, usageBytes: estimate?.usage, quotaBytes: estimate?.quota };
+}
+
+/**
+ * Delete all data this origin keeps in the browser: web storage, IndexedDB, caches and
+ * service worker registrations. The Python runtime is downloaded again on next use.
+ */
+export async function purgeAllLocalData(): Promise<void> {
+  localStorage.clear();
+  sessionStorage.clear();
+
+  await deleteHistoryDatabase();
+  if (typeof indexedDB.databases === 'function') {
+    for (const { name } of await indexedDB.databases()) {
+      if (name) await deleteDatabase(name);
+    }
+  }
+
+  if (typeof caches !== 'undefined') {
+    for (const name of await caches.keys()) {
+      await caches.delete(name);
+    }
+  }
+
+  if ('serviceWorker' in navigator) {
+    for (const registration of await navigator.serviceWorker.getRegistrations()) {
+      await registration.unregister();
+    }
+  }
+
+  console.log('[PrivacyAudit] Purged all local data');
+}
+
+/**
+ * Audit report with the full network log and the current storage inventory.
+ */
+export async function buildAuditReport(): Promise<PrivacyAuditReport> {
+  const requests = getNetworkLog();
+  const summary = summarizeNetworkLog(requests);
+  return {
+    generatedAt: new Date().toISOString(),
+    origin: location.origin,
+    userAgent: navigator.userAgent,
+    network: {
+      totalRequests: summary.total,
+      crossOriginRequests: summary.crossOrigin.length,
+      requestsWithBody: summary.withBody.length,
+      noEgress: summary.noEgress,
+      requests
+    },
+    storage: await listLocalData()
+  };
+}
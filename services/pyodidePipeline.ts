@@ -0,0 +1,178 @@
+/**
+ * Calls into the Python pipeline (ecg_processor.py) on a loaded Pyodide instance. Shared by the
+ * Pyodide Web Worker and the in-process engine used under Node, so both run the same code.
+ */
+
+import type { FilterConfig, ProcessingConfig } from '../types';
+import pythonCode from './ecg_processor.py?raw';
+
+// Filter settings arrive already resolved against their preset
+export type PipelineConfig = Omit<ProcessingConfig, 'filter'> & { filter?: FilterConfig };
+
+export interface RuntimeProgress {
+  stage: 'loading_runtime' | 'loading_packages' | 'initializing_code';
+  progress: number;
+}
+
+/**
+ * Load NumPy and SciPy into a fresh runtime, then the ECG processing code.
+ */
+export async function loadECGModules(pyodide: any, onProgress?: (progress: RuntimeProgress) => void): Promise<void> {
+  onProgress?.({ stage: 'loading_packages', progress: 30 });
+  console.log('[Pipeline] Loading numpy...');
+  await pyodide.loadPackage('numpy');
+
+  onProgress?.({ stage: 'loading_packages', progress: 60 });
+  console.log('[Pipeline] Loading scipy...');
+  await pyodide.loadPackage('scipy');
+
+  onProgress?.({ stage: 'initializing_code', progress: 90 });
+  await pyodide.runPythonAsync(pythonCode);
+  console.log('[Pipeline] Python ECG processing code loaded');
+}
+
+/**
+ * Convert resolved filter settings to the snake_case dict expected by `preprocess_ecg`.
+ */
+function toPythonFilterConfig(filter?: FilterConfig): Record<string, unknown> | null {
+  if (!filter) return null;
+  return {
+    notch_frequency: filter.notchFrequency,
+    notch_harmonics: filter.notchHarmonics,
+    high_pass: filter.highPass,
+    low_pass: filter.lowPass,
+    order: filter.order,
+    baseline_method: filter.baselineMethod
+  };
+}
+
+/**
+ * Copy a NumPy array out of the Pyodide heap into a standalone typed array that can be transferred.
+ */
+function takeTypedArray<T extends Float32Array | Int32Array>(proxy: any): T {
+  const buffer = proxy.getBuffer();
+  try {
+    return buffer.data.slice() as T;
+  } finally {
+    buffer.release();
+    proxy.destroy();
+  }
+}
+
+/**
+ * Run `process_ecg_multilead` on named leads. Cleaned leads and R-peak indices come back as
+ * typed arrays, the remaining metrics as plain objects.
+ */
+export async function runProcessECG(
+  pyodide: any,
+  leads: { name: string; voltages: Float32Array }[],
+  config: PipelineConfig
+): Promise<any> {
+  pyodide.globals.set('lead_signals_js', leads.map(l => l.voltages));
+  pyodide.globals.set('lead_names_js', leads.map(l => l.name));
+  pyodide.globals.set('sample_rate', config.sampleRate || 250);
+  pyodide.globals.set('verbose', config.verbose || false);
+  pyodide.globals.set('analysis_lead', config.lead || null);
+  pyodide.globals.set('fuse_leads', config.leadFusion || false);
+  pyodide.globals.set('filter_config_js', toPythonFilterConfig(config.filter));
+
+  const pythonScript = `
+results = process_ecg_multilead(
+    lead_signals_js.to_py(), lead_names_js.to_py(), sample_rate,
+    analysis_lead, fuse_leads, verbose,
+    filter_config_js.to_py() if filter_config_js else None
+)
+results
+`;
+
+  const results = await pyodide.runPythonAsync(pythonScript);
+
+  // Pull the sample arrays out before converting the remaining metric dicts
+  const leadsProxy = results.get('cleaned_leads');
+  const cleanedLeads: Record<string, Float32Array> = {};
+  for (const { name } of leads) {
+    cleanedLeads[name] = takeTypedArray<Float32Array>(leadsProxy.get(name));
+  }
+  leadsProxy.destroy();
+  const peaks = takeTypedArray<Int32Array>(results.get('r_peak_indices'));
+  for (const key of ['cleaned_leads', 'cleaned_signal', 'r_peak_indices']) {
+    results.delete(key);
+  }
+
+  const jsResults = results.toJs({ dict_converter: Object.fromEntries });
+  results.destroy();
+
+  jsResults.cleaned_leads = cleanedLeads;
+  jsResults.cleaned_signal = cleanedLeads[jsResults.analysis_lead];
+  jsResults.r_peak_indices = peaks;
+  return jsResults;
+}
+
+/**
+ * Run `preprocess_ecg` on one lead (no peak detection or analysis).
+ */
+export async function runPreprocessOnly(
+  pyodide: any,
+  rawVoltages: Float32Array,
+  config: PipelineConfig
+): Promise<{ cleaned_signal: Float32Array; metrics: any }> {
+  pyodide.globals.set('raw_voltages_js', rawVoltages);
+  pyodide.globals.set('sample_rate', config.sampleRate || 250);
+  pyodide.globals.set('filter_config_js', toPythonFilterConfig(config.filter));
+
+  const pythonScript = `
+import numpy as np
+raw_signal = np.array(raw_voltages_js.to_py(), dtype=np.float64)
+filter_config = filter_config_js.to_py() if filter_config_js else None
+cleaned, metrics = preprocess_ecg(raw_signal, sample_rate, verbose=False, filter_config=filter_config)
+{'cleaned_signal': cleaned.astype(np.float32), 'metrics': metrics}
+`;
+
+  const results = await pyodide.runPythonAsync(pythonScript);
+  const cleaned = takeTypedArray<Float32Array>(results.get('cleaned_signal'));
+  results.delete('cleaned_signal');
+  const jsResults = results.toJs({ dict_converter: Object.fromEntries });
+  results.destroy();
+  return { ...jsResults, cleaned_signal: cleaned };
+}
+
+/**
+ * Re-run the beat analysis on user-supplied R-peak indices (manual over-read). The cleaned
+ * signal is not returned, as the caller already holds it.
+ */
+export async function runAnalyzePeaks(
+  pyodide: any,
+  cleanedSignal: Float32Array,
+  peaks: Int32Array,
+  filterMetrics: Record<string, any>,
+  config: PipelineConfig
+): Promise<any> {
+  pyodide.globals.set('cleaned_signal_js', cleanedSignal);
+  pyodide.globals.set('peaks_js', peaks);
+  // Plain objects do not convert to dicts; JSON keeps the metrics as Python values
+  pyodide.globals.set('filter_metrics_json', JSON.stringify(filterMetrics));
+  pyodide.globals.set('sample_rate', config.sampleRate || 250);
+  pyodide.globals.set('verbose', config.verbose || false);
+
+  const pythonScript = `
+import json
+import numpy as np
+results = analyze_peaks(
+    np.array(cleaned_signal_js.to_py(), dtype=np.float64),
+    np.array(peaks_js.to_py(), dtype=int),
+    json.loads(filter_metrics_json),
+    sample_rate, verbose
+)
+results
+`;
+
+  const results = await pyodide.runPythonAsync(pythonScript);
+  const resultPeaks = takeTypedArray<Int32Array>(results.get('r_peak_indices'));
+  for (const key of ['cleaned_signal', 'r_peak_indices']) {
+    results.delete(key);
+  }
+  const jsResults = results.toJs({ dict_converter: Object.fromEntries });
+  results.destroy();
+  jsResults.r_peak_indices = resultPeaks;
+  return jsResults;
+}
@@ -0,0 +1,216 @@
+/**
+ * Dispatches processing requests in arrival order to a fixed set of worker slots, one request
+ * per slot at a time, with cancellation and per-request timeouts. Cancelled requests are dropped
+ * by the worker if they have not started; a request that runs past its timeout, cancelled or not,
+ * is treated as hung and its worker is recycled through the owner's `recycle` hook.
+ */
+
+export interface RequestOptions {
+  /** Aborts the request; queued requests are dropped here, sent ones are cancelled in the worker. */
+  signal?: AbortSignal;
+  /** Milliseconds before a running request is considered hung (default 120 s). */
+  timeoutMs?: number;
+}
+
+export interface RequestQueueHooks {
+  /** Ask a slot's worker to drop a request, or discard its result if it is already running. */
+  cancel(requestId: string, slot: number): void;
+  /** Replace a slot's unresponsive worker; must settle the running request. */
+  recycle(slot: number): Promise<void>;
+  /** Whether a free slot can start at once; free slots that are still starting are used last. */
+  isReady?(slot: number): boolean;
+  /** Wait until a slot's worker can take a request; the timeout starts once this resolves. */
+  prepare?(slot: number): Promise<void>;
+  /** Called whenever a slot starts or finishes a request. */
+  onChange?(): void;
+}
+
+interface QueueEntry {
+  id: string;
+  execute: (requestId: string, slot: number) => Promise<unknown>;
+  slot: number;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  timeoutMs: number;
+  settled: boolean;
+  /** Whether the request was handed to its worker, i.e. the worker was ready. */
+  started: boolean;
+  onAbort: () => void;
+  /** When the request was handed to its worker. */
+  startedAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+  /** Recycles the worker if a cancelled request is still running when its timeout runs out. */
+  hangTimer?: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 120_000;
+
+/**
+ * Error used for cancelled requests, matching what `fetch` rejects with on abort.
+ */
+export function abortError(): DOMException {
+  return new DOMException('Processing cancelled', 'AbortError');
+}
+
+/**
+ * Check whether an error comes from a cancelled request.
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Unique id for a worker request.
+ */
+export function createRequestId(prefix = 'req'): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export class RequestQueue {
+  private queue: QueueEntry[] = [];
+  private active: (QueueEntry | null)[];
+
+  constructor(private hooks: RequestQueueHooks, slots = 1) {
+    this.active = new Array(Math.max(1, slots)).fill(null);
+  }
+
+  /**
+   * Run `execute` on the first free slot once every earlier request has been dispatched.
+   * The returned promise rejects early on abort or timeout; the worker keeps the request
+   * until it settles or is recycled.
+   */
+  run<T>(execute: (requestId: string, slot: number) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const { signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS } = options;
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const entry: QueueEntry = {
+        id: createRequestId(),
+        execute,
+        slot: -1,
+        resolve,
+        reject,
+        signal,
+        timeoutMs,
+        settled: false,
+        started: false,
+        startedAt: 0,
+        onAbort: () => this.abort(entry, abortError())
+      };
+      signal?.addEventListener('abort', entry.onAbort, { once: true });
+      this.queue.push(entry);
+      this.pump();
+    });
+  }
+
+  /** Whether any slot is running a request. */
+  get busy(): boolean {
+    return this.active.some(entry => entry !== null);
+  }
+
+  /** Whether the given slot is running a request. */
+  isBusy(slot: number): boolean {
+    return this.active[slot] != null;
+  }
+
+  /** Requests waiting for a free slot. */
+  get waiting(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Reject every queued and running request, e.g. on shutdown.
+   */
+  clear(reason: Error): void {
+    const running = this.active.filter((entry): entry is QueueEntry => entry !== null);
+    for (const entry of [...this.queue, ...running]) {
+      this.settle(entry, reason);
+      clearTimeout(entry.hangTimer);
+    }
+    this.queue = [];
+    this.active.fill(null);
+    this.hooks.onChange?.();
+  }
+
+  /**
+   * Free slot to dispatch to, preferring slots whose worker is ready.
+   */
+  private freeSlot(): number {
+    const free = this.active.flatMap((entry, slot) => (entry === null ? [slot] : []));
+    return free.find(slot => this.hooks.isReady?.(slot) ?? true) ?? free[0] ?? -1;
+  }
+
+  private pump(): void {
+    let slot: number;
+    while (this.queue.length > 0 && (slot = this.freeSlot()) >= 0) {
+      const entry = this.queue.shift()!;
+      entry.slot = slot;
+      this.active[slot] = entry;
+
+      // Worker start-up and recycling do not count towards the request's timeout
+      (this.hooks.prepare?.(slot) ?? Promise.resolve()).then(() => {
+        if (entry.settled) return;
+        entry.started = true;
+        entry.startedAt = Date.now();
+        entry.timer = setTimeout(() => {
+          this.settle(entry, new Error(`Processing timed out after ${Math.round(entry.timeoutMs / 1000)} s`));
+          console.warn(`[RequestQueue] Request ${entry.id} timed out, recycling worker ${entry.slot}`);
+          this.hooks.recycle(entry.slot).catch(error => console.error('[RequestQueue] Worker recycle failed:', error));
+        }, entry.timeoutMs);
+
+        return entry.execute(entry.id, slot).then(value => this.settle(entry, undefined, value));
+      }).catch(error => this.settle(entry, error)).finally(() => this.release(entry));
+    }
+    this.hooks.onChange?.();
+  }
+
+  private abort(entry: QueueEntry, error: DOMException): void {
+    if (entry.settled) return;
+
+    const queuedIndex = this.queue.indexOf(entry);
+    if (queuedIndex >= 0) {
+      this.queue.splice(queuedIndex, 1);
+      this.settle(entry, error);
+      return;
+    }
+
+    // Waiting for its worker to start: nothing to stop, the slot frees once the worker is ready
+    if (!entry.started) {
+      this.settle(entry, error);
+      return;
+    }
+
+    // Sent: the worker drops it if it has not started, otherwise replies once the call returns.
+    // The slot stays busy until then, and is recycled only if the call outlives its timeout.
+    this.settle(entry, error);
+    this.hooks.cancel(entry.id, entry.slot);
+    const remainingMs = Math.max(0, entry.startedAt + entry.timeoutMs - Date.now());
+    entry.hangTimer = setTimeout(() => {
+      if (this.active[entry.slot] !== entry) return;
+      console.warn(`[RequestQueue] Cancelled request ${entry.id} is still running, recycling worker ${entry.slot}`);
+      this.hooks.recycle(entry.slot).catch(err => console.error('[RequestQueue] Worker recycle failed:', err));
+    }, remainingMs);
+  }
+
+  private settle(entry: QueueEntry, error?: unknown, value?: unknown): void {
+    if (entry.settled) return;
+    entry.settled = true;
+    clearTimeout(entry.timer);
+    entry.signal?.removeEventListener('abort', entry.onAbort);
+    if (error !== undefined) {
+      entry.reject(error);
+    } else {
+      entry.resolve(value);
+    }
+  }
+
+  private release(entry: QueueEntry): void {
+    clearTimeout(entry.hangTimer);
+    if (this.active[entry.slot] !== entry) return;
+    this.active[entry.slot] = null;
+    this.pump();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * User preferences persisted in localStorage, and their translation into processing options.
+ */
+
+import type { ProcessingConfig, UserSettings } from '../types';
+import { DEFAULT_ALERT_THRESHOLDS } from './clinicalRules';
+
+const STORAGE_KEY = 'ecg-analyzer.settings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  defaultSampleRate: null,
+  mainsFrequency: 60,
+  displaySeconds: 30,
+  displayGain: 10,
+  qtcFormula: 'bazett',
+  alertThresholds: DEFAULT_ALERT_THRESHOLDS,
+  engine: 'pyodide',
+  workerPoolSize: null,
+  verbose: true,
+  referenceToleranceMs: 100
+};
+
+/**
+ * Read stored settings over the defaults, tolerating missing or corrupt storage.
+ */
+export function loadSettings(): UserSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<UserSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      alertThresholds: { ...DEFAULT_SETTINGS.alertThresholds, ...stored.alertThresholds }
+    };
+  } catch (error) {
+    console.warn('[SettingsStore] Could not read stored settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Persist settings.
+ */
+export function saveSettings(settings: UserSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[SettingsStore] Could not store settings:', error);
+  }
+}
+
+/**
+ * Remove stored settings so the defaults apply again.
+ */
+export function resetSettings(): UserSettings {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('[SettingsStore] Could not reset settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+/**
+ * Processing options implied by the settings.
+ */
+export function settingsToConfig(settings: UserSettings): ProcessingConfig {
+  return {
+    engine: settings.engine,
+    defaultSampleRate: settings.defaultSampleRate ?? undefined,
+    mainsFrequency: settings.mainsFrequency,
+    qtcFormula: settings.qtcFormula,
+    alertThresholds: settings.alertThresholds,
+    verbose: settings.verbose
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Lazy views over an `ECGSignal`: chart rows, peak lookups and R-R series are built on demand
+ * from the typed arrays instead of being materialized for the whole recording.
+ */
+
+import type { ECGPoint, ECGSignal } from '../types';
+
+export interface RRPoint {
+  time: number;
+  rr: number;
+  hr: number;
+  beatNum: number;
+}
+
+/**
+ * First index in the sorted `peaks` array that is not below `sample`.
+ */
+function lowerBound(peaks: Int32Array, sample: number): number {
+  let lo = 0;
+  let hi = peaks.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (peaks[mid] < sample) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * R-peak sample indices within [start, end).
+ */
+export function peaksInRange(signal: ECGSignal, start: number, end: number): Int32Array {
+  return signal.peaks.subarray(lowerBound(signal.peaks, start), lowerBound(signal.peaks, end));
+}
+
+/**
+ * Chart rows for samples [start, end); per-lead values are only attached for multi-lead recordings.
+ */
+export function chartPoints(signal: ECGSignal, start = 0, end = signal.length): ECGPoint[] {
+  const from = Math.max(0, start);
+  const to = Math.min(signal.length, end);
+  const leadNames = Object.keys(signal.leads);
+  const multiLead = leadNames.length > 1;
+  const points: ECGPoint[] = [];
+
+  for (let i = from; i < to; i++) {
+    const point: ECGPoint = {
+      time: parseFloat((i / signal.sampleRate).toFixed(3)),
+      voltage: signal.clean[i],
+      clean: signal.clean[i]
+    };
+
+    if (multiLead) {
+      point.leads = {};
+      for (const name of leadNames) {
+        point.leads[name] = signal.leads[name][i];
+      }
+    }
+
+    points.push(point);
+  }
+  return points;
+}
+
+/**
+ * R-R intervals and instantaneous heart rate for every detected beat.
+ */
+export function rrSeries(signal: ECGSignal): RRPoint[] {
+  const { peaks, sampleRate } = signal;
+  const series: RRPoint[] = [];
+  for (let i = 1; i < peaks.length; i++) {
+    const rrInterval = (peaks[i] - peaks[i - 1]) / sampleRate;
+    series.push({
+      time: parseFloat((peaks[i] / sampleRate).toFixed(3)),
+      rr: Math.round(rrInterval * 1000),
+      hr: Math.round(60 / rrInterval),
+      beatNum: i
+    });
+  }
+  return series;
+}
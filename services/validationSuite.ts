@@ -0,0 +1,195 @@
+/**
+ * Detector validation over local annotated records (e.g. the MIT-BIH Arrhythmia Database): each
+ * WFDB record is run through `processECGFile`, the same parse and `ECGProcessor.processECG` path
+ * as an interactive scan, and its R-peaks are scored against the record's `.atr` reference beats.
+ */
+
+import { processECGFile } from './ecgService';
+import { getWorkerPoolSize } from './ecgProcessor';
+import { csvField, groupBatchRecords, type BatchItemStatus, type BatchRecord } from './batchAnalysis';
+import { annotationsToPeaks, readAnnotationFile } from './annotations';
+import { matchBeats } from './beatMatching';
+import { isAbortError } from './requestQueue';
+import type { ProcessingConfig } from '../types';
+
+export interface ValidationRecord extends BatchRecord {
+  /** Reference annotation file; missing records are reported as failed. */
+  annotation?: File;
+}
+
+export interface ValidationScore {
+  lead: string;
+  duration: number;
+  referenceBeats: number;
+  detectedBeats: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  sensitivity: number;
+  ppv: number;
+  f1: number;
+}
+
+export interface ValidationItem {
+  name: string;
+  status: BatchItemStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+  score?: ValidationScore;
+}
+
+export interface ValidationCallbacks {
+  onItemUpdate?: (index: number, item: ValidationItem) => void;
+}
+
+/** Summed counts over all scored records, as in the README's global row. */
+export interface GrossScore {
+  records: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  sensitivity: number;
+  ppv: number;
+  f1: number;
+}
+
+const ANNOTATION_EXTENSION = '.atr';
+
+/**
+ * WFDB records from a flat file list, each with its `.atr` annotation file. Files that are not
+ * part of a WFDB record are ignored.
+ */
+export function groupValidationRecords(files: File[]): ValidationRecord[] {
+  return groupBatchRecords(files).records
+    .filter(record => record.file.name.toLowerCase().endsWith('.hea'))
+    .map(record => ({
+      ...record,
+      name: record.name.replace(/\.hea$/i, ''),
+      annotation: record.companions.find(f => f.name.toLowerCase().endsWith(ANNOTATION_EXTENSION))
+    }));
+}
+
+function rates(tp: number, fp: number, fn: number): Pick<ValidationScore, 'sensitivity' | 'ppv' | 'f1'> {
+  const sensitivity = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const ppv = tp + fp > 0 ? tp / (tp + fp) : 0;
+  return { sensitivity, ppv, f1: sensitivity + ppv > 0 ? (2 * sensitivity * ppv) / (sensitivity + ppv) : 0 };
+}
+
+/**
+ * Gross sensitivity, PPV and F1 from the TP/FP/FN totals of every scored record.
+ */
+export function grossScore(items: ValidationItem[]): GrossScore {
+  const scores = items.flatMap(item => (item.score ? [item.score] : []));
+  const tp = scores.reduce((sum, s) => sum + s.tp, 0);
+  const fp = scores.reduce((sum, s) => sum + s.fp, 0);
+  const fn = scores.reduce((sum, s) => sum + s.fn, 0);
+  return { records: scores.length, tp, fp, fn, ...rates(tp, fp, fn) };
+}
+
+/**
+ * Process and score records with as many in flight as the processing pool has workers.
+ * Detections within `toleranceMs` of a reference beat are matched. Results are not saved to the
+ * history. Failures are recorded per record; aborting `signal` cancels the rest.
+ */
+export async function runValidation(
+  records: ValidationRecord[],
+  config: ProcessingConfig,
+  toleranceMs: number,
+  callbacks: ValidationCallbacks = {},
+  signal?: AbortSignal
+): Promise<ValidationItem[]> {
+  const items: ValidationItem[] = records.map(record => ({ name: record.name, status: 'queued', progress: 0 }));
+  const update = (index: number, changes: Partial<ValidationItem>) => {
+    items[index] = { ...items[index], ...changes };
+    callbacks.onItemUpdate?.(index, items[index]);
+  };
+
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < records.length) {
+      const index = next++;
+      const record = records[index];
+
+      if (signal?.aborted) {
+        update(index, { status: 'cancelled', message: 'Cancelled' });
+        continue;
+      }
+      if (!record.annotation) {
+        update(index, { status: 'failed', error: `No ${ANNOTATION_EXTENSION} reference annotations for this record` });
+        continue;
+      }
+
+      update(index, { status: 'running', message: 'Starting...' });
+      try {
+        const companions = record.companions.filter(f => f !== record.annotation);
+        const result = await processECGFile(record.file, {
+          onProgress: (stage, progress, message) => update(index, { progress, message: message || stage })
+        }, companions, config, undefined, signal);
+
+        const { peaks, sampleRate, length } = result.signal;
+        const reference = annotationsToPeaks(await readAnnotationFile(record.annotation, sampleRate), length);
+        const match = matchBeats(peaks, reference, Math.trunc((toleranceMs / 1000) * sampleRate));
+
+        update(index, {
+          status: 'done',
+          progress: 100,
+          message: 'Complete',
+          score: {
+            lead: result.fileInfo.analysisLead,
+            duration: result.fileInfo.duration,
+            referenceBeats: reference.length,
+            detectedBeats: peaks.length,
+            tp: match.tp,
+            fp: match.fp,
+            fn: match.fn,
+            sensitivity: match.sensitivity,
+            ppv: match.ppv,
+            f1: match.f1
+          }
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          update(index, { status: 'cancelled', message: 'Cancelled' });
+        } else {
+          update(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, Math.min(getWorkerPoolSize(), records.length));
+  console.log(`[Validation] Scoring ${records.length} record(s) at ±${toleranceMs} ms, ${concurrency} at a time`);
+  await Promise.all(Array.from({ length: concurrency }, runNext));
+
+  return items;
+}
+
+// Two decimals, as in the README table; numbers would be rounded to one by csvField
+const percent = (value: number) => (value * 100).toFixed(2);
+
+/**
+ * Per-record table with a gross row as CSV; `engine` and `toleranceMs` are repeated on each row
+ * so exports from different runs can be compared.
+ */
+export function validationToCSV(items: ValidationItem[], engine: string, toleranceMs: number): string {
+  const header = [
+    'record', 'status', 'engine', 'tolerance_ms', 'lead', 'duration_s', 'reference_beats', 'detected_beats',
+    'tp', 'fp', 'fn', 'sensitivity_percent', 'ppv_percent', 'f1_percent', 'error'
+  ];
+  const lines = items.map(item => {
+    const s = item.score;
+    return [
+      item.name, item.status, engine, toleranceMs, s?.lead, s?.duration, s?.referenceBeats, s?.detectedBeats,
+      s?.tp, s?.fp, s?.fn,
+      s && percent(s.sensitivity), s && percent(s.ppv), s && percent(s.f1),
+      item.error
+    ].map(csvField).join(',');
+  });
+  const gross = grossScore(items);
+  lines.push([
+    'gross', `${gross.records} scored`, engine, toleranceMs, undefined, undefined, gross.tp + gross.fn, gross.tp + gross.fp,
+    gross.tp, gross.fp, gross.fn, percent(gross.sensitivity), percent(gross.ppv), percent(gross.f1), undefined
+  ].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\r\n');
+}
@@ -0,0 +1,73 @@
+/**
+ * Worker side of request cancellation. Requests run one at a time, each after a turn of the event
+ * loop so that a CANCEL posted right behind it is read first. A cancelled request that has not
+ * started is dropped; one that is already running finishes, and its reply is swapped for the
+ * cancellation notice. Either way the page hears back and frees the slot without a recycle.
+ */
+export class WorkerInbox<T extends { requestId?: string }> {
+  private queued: T[] = [];
+  private runningId: string | null = null;
+  private cancelled = new Set<string>();
+  private draining = false;
+
+  constructor(
+    private handle: (request: T) => Promise<void> | void,
+    private sendCancelled: (requestId: string) => void
+  ) {}
+
+  push(request: T): void {
+    this.queued.push(request);
+    void this.drain();
+  }
+
+  cancel(requestId: string): void {
+    const index = this.queued.findIndex(request => request.requestId === requestId);
+    if (index >= 0) {
+      this.queued.splice(index, 1);
+      console.log(`[WorkerInbox] Dropped cancelled request ${requestId}`);
+      this.sendCancelled(requestId);
+    } else if (requestId === this.runningId) {
+      this.cancelled.add(requestId);
+    } else {
+      // Already answered; the page ignores replies it no longer waits for
+      this.sendCancelled(requestId);
+    }
+  }
+
+  /**
+   * Send a request's reply, or the cancellation notice if it was cancelled while running.
+   */
+  reply(requestId: string | undefined, send: () => void): void {
+    if (requestId && this.cancelled.delete(requestId)) {
+      this.sendCancelled(requestId);
+      return;
+    }
+    send();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    while (this.queued.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const request = this.queued.shift();
+      if (!request) break;
+
+      this.runningId = request.requestId ?? null;
+      try {
+        await this.handle(request);
+      } catch (error) {
+        console.error('[WorkerInbox] Request handler failed:', error);
+      } finally {
+        // A handler that ended without replying still owes the page an answer
+        if (this.runningId && this.cancelled.delete(this.runningId)) {
+          this.sendCancelled(this.runningId);
+        }
+        this.runningId = null;
+      }
+    }
+
+    this.draining = false;
+  }
+}
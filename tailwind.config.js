@@ -0,0 +1,14 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    './index.html',
+    './*.tsx',
+    './components/**/*.tsx',
+    './hooks/**/*.ts',
+    './services/**/*.ts'
+  ],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
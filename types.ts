@@ -2,11 +2,35 @@
  * TypeScript type definitions for ECG data structures and application state.
  */
 
+export interface ECGLead {
+  name: string;
+  voltages: Float32Array;
+  units: string;
+  /** Samples at the converter limits, for formats that declare them. */
+  clippedSamples?: number;
+}
+
+/**
+ * Processed recording held in typed arrays, as transferred from the processing workers.
+ * Chart rows (`ECGPoint`) are built from it on demand for the visible window only.
+ */
+export interface ECGSignal {
+  sampleRate: number;
+  length: number;
+  /** Cleaned samples of the analysis lead (shares its buffer with `leads[analysisLead]`). */
+  clean: Float32Array;
+  /** Cleaned samples of every lead, in recording order. */
+  leads: Record<string, Float32Array>;
+  /** Sample indices of detected R-peaks, ascending. */
+  peaks: Int32Array;
+}
+
+/** One chart row; built lazily from an `ECGSignal`. */
 export interface ECGPoint {
   time: number;
   voltage: number;
   clean?: number;
-  isPeak?: boolean;
+  leads?: Record<string, number>;
 }
 
 export interface PatientMetrics {
@@ -16,20 +40,86 @@ export interface PatientMetrics {
   lastScanDate: string;
   qrsWidth?: number;
   qtcBazett?: number;
+  /** QTc with the configured correction formula (equals `qtcBazett` for Bazett). */
+  qtc?: number;
+  qtcFormula?: QTcFormula;
   sdnn?: number;
   rmssd?: number;
   pnn50?: number;
   clinicalWarnings?: string[];
+  /** Set when the metrics were recomputed from R-peaks corrected by hand. */
+  manuallyOverRead?: boolean;
+}
+
+export type FilterPresetName = 'diagnostic' | 'monitoring' | 'st-analysis';
+
+export type BaselineMethod = 'moving-average' | 'median' | 'spline' | 'none';
+
+export interface FilterConfig {
+  notchFrequency: 50 | 60 | null;
+  notchHarmonics: number;
+  highPass: number;
+  lowPass: number;
+  order: number;
+  baselineMethod: BaselineMethod;
+}
+
+/** Processing backend: ecg_processor.py on Pyodide, or its TypeScript port. */
+export type ProcessingEngine = 'pyodide' | 'typescript';
+
+/** Heart-rate correction applied to the measured QT interval. */
+export type QTcFormula = 'bazett' | 'fridericia' | 'framingham' | 'hodges';
+
+/** Limits at which the rhythm is reclassified or a clinical alert is raised. */
+export interface AlertThresholds {
+  bradycardiaBpm: number;
+  tachycardiaBpm: number;
+  wideQrsMs: number;
+  prolongedQtcMs: number;
+  highRiskQtcMs: number;
+  lowSdnnMs: number;
 }
 
 export interface ProcessingConfig {
+  engine?: ProcessingEngine;
   sampleRate?: number;
+  /** Rate assumed for files that do not declare or imply one. */
+  defaultSampleRate?: number;
   verbose?: boolean;
+  lead?: string;
+  leadFusion?: boolean;
+  filterPreset?: FilterPresetName;
+  filter?: Partial<FilterConfig>;
+  /** Local mains frequency; replaces the notch frequency of presets that have one. */
+  mainsFrequency?: 50 | 60;
+  qtcFormula?: QTcFormula;
+  alertThresholds?: Partial<AlertThresholds>;
+}
+
+/** Preferences edited in the Settings view and persisted in localStorage. */
+export interface UserSettings {
+  /** `null` keeps the per-format defaults (360 Hz for MIT-BIH CSV, 250 Hz otherwise). */
+  defaultSampleRate: number | null;
+  mainsFrequency: 50 | 60;
+  /** Seconds of signal drawn in the waveform chart. */
+  displaySeconds: number;
+  /** Amplitude scale in mm/mV. */
+  displayGain: number;
+  qtcFormula: QTcFormula;
+  alertThresholds: AlertThresholds;
+  engine: ProcessingEngine;
+  /** Workers per engine; `null` sizes the pool from the core count. */
+  workerPoolSize: number | null;
+  verbose: boolean;
+  /** Largest distance between a detected R-peak and a reference beat that still counts as a match. */
+  referenceToleranceMs: number;
 }
 
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
+  BATCH = 'BATCH',
   HISTORY = 'HISTORY',
   SETTINGS = 'SETTINGS',
-  PRIVACY = 'PRIVACY'
+  PRIVACY = 'PRIVACY',
+  VALIDATION = 'VALIDATION'
 }
\ No newline at end of file
@@ -1,14 +1,59 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Static files from public/ that belong to the app shell
+const PUBLIC_SHELL_FILES = ['manifest.webmanifest', 'icon.svg'];
+
+/**
+ * Emit precache-manifest.js, imported by public/sw.js, listing every build output plus the
+ * staged Pyodide runtime so the service worker can cache them for offline use.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    // The SSR build of the CLI (npm run analyze) is not served, so it needs no manifest
+    apply: (_config, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const app = ['./', ...PUBLIC_SHELL_FILES, ...Object.keys(bundle).filter(file => !file.endsWith('.map'))];
+
+      const pyodideManifestPath = path.resolve(__dirname, 'public/pyodide/manifest.json');
+      if (!fs.existsSync(pyodideManifestPath)) {
+        this.error('public/pyodide/manifest.json is missing; run npm run pyodide:fetch');
+      }
+      const pyodide = JSON.parse(fs.readFileSync(pyodideManifestPath, 'utf-8'));
+
+      const manifest = {
+        build: Date.now().toString(36),
+        app,
+        pyodide: {
+          version: pyodide.version,
+          files: ['pyodide/manifest.json', ...pyodide.files.map((file: string) => `pyodide/${file}`)]
+        }
+      };
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)};\n`
+      });
+    }
+  };
+}
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      build: {
+        // The CLI build reads the staged Pyodide packages in place
+        copyPublicDir: !isSsrBuild
+      },
+      plugins: [react(), precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),